@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Transaction, ViewState, TransactionType, Invoice, Account } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Transaction, ViewState, TransactionType, Invoice, Account, RecurringTransaction, CategoryRule, Budget, Debt, AppData, SyncState, UserProfile, UserRole, AuditSource, TrashItem, TrashedRecord, CategoryRecord } from './types';
 import { Dashboard } from './components/Dashboard';
 import { TransactionList } from './components/TransactionList';
 import { TransactionForm } from './components/TransactionForm';
@@ -7,23 +7,95 @@ import { AIAdvisor } from './components/AIAdvisor';
 import { InvoiceGenerator } from './components/InvoiceGenerator';
 import { Reports } from './components/Reports';
 import { Settings } from './components/Settings';
-import { LayoutDashboard, ReceiptText, Sparkles, PlusCircle, FileText, Menu, X, PieChart, Settings as SettingsIcon, TriangleAlert, ArrowRight, Trash2, Plus } from 'lucide-react';
+import { RecurringReview } from './components/RecurringReview';
+import { StatementImport } from './components/StatementImport';
+import { DebtLedger } from './components/DebtLedger';
+import { RestorePreview } from './components/RestorePreview';
+import { SyncConflictResolver } from './components/SyncConflictResolver';
+import { WorkspaceSwitcher } from './components/WorkspaceSwitcher';
+import { WorkspaceManager } from './components/WorkspaceManager';
+import { LockScreen } from './components/LockScreen';
+import { UndoToast } from './components/UndoToast';
+import { applyTransactionEdit } from './services/transactionService';
+import { materializeRecurring } from './services/recurringService';
+import { getRepository, loadValue, saveValue, loadUsers, saveUsers, diffById, readAppData, writeAppData, StorageKey, StoredValues } from './services/storageRepository';
+import { migrateData, CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, UnsupportedSchemaError } from './services/migrationService';
+import { parseBackup, restoreBackup, ParsedBackup, RestoreMode } from './services/backupService';
+import { isEncryptedBackup, decryptBackup, BackupDecryptionError } from './services/backupCrypto';
+import { runSync, createSyncState, trackLocalChanges, applyRecordChanges, resolveConflict, SyncStatus, SyncConflict, RecordChange } from './services/syncService';
+import { getActiveWorkspace, switchWorkspace } from './services/workspaceService';
+import { canView, can, getHomeView, Permission, DENIED_MESSAGE, DEFAULT_AUTO_LOCK_MINUTES, ROLE_LABELS } from './services/accessService';
+import { createTrashItems, splitExpired, withFreeId } from './services/trashService';
+import { createDefaultCategories, getCategoryIds, renameCategory as renameCategoryRecord, cascadeCategoryMerge } from './services/categoryService';
+import { getAccountUsage, hasAccountHistory, getActiveAccounts, validateAccountReassign, reassignAccount } from './services/accountService';
+import { UndoHistory, UndoState, UndoStep, UndoKey, EMPTY_UNDO_HISTORY, isUndoKey, describeUndoStep, createUndoStep, pushUndoStep, applyUndoStep } from './services/undoService';
+import { AUDIT_ENTITY_BY_KEY, SYSTEM_ACTOR, AuditDraft, diffForAudit, trashAuditDraft, createAuditEntries, appendAuditLog, mergeAuditLog, countRecords } from './services/auditService';
+import { CLOUD_PROVIDER_LABELS, getActiveProviderId, getActiveCloudProvider, getLastCloudSync, recordCloudSync } from './services/cloudProviders';
+import { LayoutDashboard, ReceiptText, Sparkles, PlusCircle, FileText, Menu, X, PieChart, Settings as SettingsIcon, TriangleAlert, ArrowRight, Trash2, Plus, HandCoins, WifiOff, Lock } from 'lucide-react';
+
+const SYNC_INTERVAL_MS = 2 * 60 * 1000;
+const INACTIVITY_CHECK_MS = 15 * 1000;
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('DASHBOARD');
+  // Fixed for this page load (switching reloads), refreshed after a rename
+  const [workspace, setWorkspace] = useState(getActiveWorkspace);
+  const [showWorkspaceManager, setShowWorkspaceManager] = useState(false);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   
   // New State for Custom Setup
   const [accounts, setAccounts] = useState<Account[]>([]);
-  const [expenseCategories, setExpenseCategories] = useState<string[]>([]);
-  const [incomeCategories, setIncomeCategories] = useState<string[]>([]);
+  const [categories, setCategories] = useState<CategoryRecord[]>([]);
+  const expenseCategories = useMemo(() => getCategoryIds(categories, 'EXPENSE'), [categories]);
+  const incomeCategories = useMemo(() => getCategoryIds(categories, 'INCOME'), [categories]);
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [debts, setDebts] = useState<Debt[]>([]);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+
+  // Undo/redo for this session. A tracked change waits in pendingUndo until the render that applies it
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_UNDO_HISTORY);
+  const [undoToast, setUndoToast] = useState<{ message: string; mode: 'UNDO' | 'REDO' } | null>(null);
+  const pendingUndo = useRef<{ label: string; before: UndoState } | null>(null);
+
+  // Storage is asynchronous: saving starts only after the initial load
+  const [isLoaded, setIsLoaded] = useState(false);
+  const persistedTransactions = useRef<Map<string, Transaction>>(new Map());
+
+  // Occurrences auto-posted from recurring templates on this load, waiting for the user's review
+  const [recurringReview, setRecurringReview] = useState<{ posted: Transaction[] } | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: ParsedBackup } | null>(null);
 
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
-  // Sync Warning State
-  const [syncAlert, setSyncAlert] = useState<'NONE' | 'OLD' | null>(null);
+  // Access: with profiles the app opens locked, without any it works as before with full access
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const lastUserId = useRef<string | undefined>(undefined);
+  const lastActivity = useRef(Date.now());
+  const role: UserRole | null = currentUser ? currentUser.role : users.length === 0 ? 'OWNER' : null;
+  const isLocked = users.length > 0 && !currentUser;
+
+  // AI features and cloud sync pause while offline, everything else keeps working locally
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  // Sync Warning State, about whichever cloud provider is active
+  const [syncAlert, setSyncAlert] = useState<{ level: 'NONE' | 'OLD'; provider: string } | null>(null);
+
+  // Background sync between devices
+  const [syncEnabled, setSyncEnabled] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'IDLE' });
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [syncRequested, setSyncRequested] = useState(false);
+  const syncState = useRef<SyncState | null>(null);
+  const syncInFlight = useRef(false);
 
   // -- CONFIRMATION MODAL STATE --
   const [modalConfig, setModalConfig] = useState<{
@@ -46,87 +118,99 @@ const App: React.FC = () => {
 
   // Check Sync Status on Mount
   useEffect(() => {
-    const checkSyncStatus = () => {
-        const lastSyncTs = localStorage.getItem('letsfinance_last_sync_ts');
+    const checkSyncStatus = async () => {
+        const providerId = await getActiveProviderId();
+        const provider = CLOUD_PROVIDER_LABELS[providerId];
+        const lastSyncTs = await getLastCloudSync(providerId);
         if (!lastSyncTs) {
-            setSyncAlert('NONE');
+            setSyncAlert({ level: 'NONE', provider });
         } else {
-            const lastDate = Number(lastSyncTs);
             const now = Date.now();
-            const diffDays = (now - lastDate) / (1000 * 3600 * 24);
+            const diffDays = (now - lastSyncTs) / (1000 * 3600 * 24);
             
             // Alert if older than 3 days
             if (diffDays > 3) {
-                setSyncAlert('OLD');
+                setSyncAlert({ level: 'OLD', provider });
             } else {
                 setSyncAlert(null);
             }
         }
     };
     
-    checkSyncStatus();
+    checkSyncStatus().catch(() => setSyncAlert(null));
   }, [view]);
 
   // Load Data
   useEffect(() => {
-    // 1. Accounts
-    let loadedAccounts: Account[] = [];
-    const savedAccounts = localStorage.getItem('letsfinance_accounts');
-    if (savedAccounts) {
-      try { loadedAccounts = JSON.parse(savedAccounts); } catch (e) {}
-    } 
-    if (loadedAccounts.length === 0) {
-      loadedAccounts = [
-        { id: '1', name: 'Kas Tunai', type: 'CASH', initialBalance: 0 },
-        { id: '2', name: 'Rekening Bank', type: 'BANK', initialBalance: 0 }
-      ];
-    }
-    setAccounts(loadedAccounts);
+    const load = async () => {
+      const repo = await getRepository();
 
-    // 2. Transactions
-    const savedTransactions = localStorage.getItem('letsfinance_transactions');
-    if (savedTransactions) {
-      try {
-        let loadedTx: Transaction[] = JSON.parse(savedTransactions);
-        // Migration: Ensure all transactions have an accountId
-        const defaultAccountId = loadedAccounts[0]?.id || '1';
-        let hasChanges = false;
-        
-        loadedTx = loadedTx.map(t => {
-            if (!t.accountId) {
-                hasChanges = true;
-                return { ...t, accountId: defaultAccountId };
-            }
-            return t;
-        });
-
-        setTransactions(loadedTx);
-        if (hasChanges) localStorage.setItem('letsfinance_transactions', JSON.stringify(loadedTx));
-      } catch (e) { console.error("Failed to parse transactions"); }
-    } else {
-      const demoData: Transaction[] = [
-        { id: '1', date: new Date().toISOString().split('T')[0], amount: 5000000, type: TransactionType.INCOME, category: 'Penjualan', description: 'Penjualan Mingguan', merchant: 'Toko', accountId: loadedAccounts[0]?.id },
-      ];
-      setTransactions(demoData);
-    }
+      // 0. Schema: upgrade data written by older versions before anything reads it.
+      // Data from a newer version is refused and, since isLoaded stays false, never saved over.
+      const stored = await readAppData(repo);
+      const isFirstRun = stored.accounts === undefined && !stored.transactions?.length;
+      const savedVersion = await repo.getValue('schemaVersion');
+      const fromVersion = savedVersion ?? (isFirstRun ? CURRENT_SCHEMA_VERSION : LEGACY_SCHEMA_VERSION);
+      const data = migrateData(stored, fromVersion);
+      if (fromVersion < CURRENT_SCHEMA_VERSION) await writeAppData(repo, stored, data);
+      if (savedVersion !== CURRENT_SCHEMA_VERSION) await repo.setValue('schemaVersion', CURRENT_SCHEMA_VERSION);
 
-    // 3. Other Data
-    const savedInvoices = localStorage.getItem('letsfinance_invoices');
-    if (savedInvoices) try { setInvoices(JSON.parse(savedInvoices)); } catch (e) {}
+      // 1. Accounts
+      let loadedAccounts: Account[] = data.accounts || [];
+      if (loadedAccounts.length === 0) {
+        loadedAccounts = [
+          { id: '1', name: 'Kas Tunai', type: 'CASH', initialBalance: 0 },
+          { id: '2', name: 'Rekening Bank', type: 'BANK', initialBalance: 0 }
+        ];
+      }
+      setAccounts(loadedAccounts);
+      const loadedCategories = data.categories || createDefaultCategories();
 
-    const savedExpCats = localStorage.getItem('letsfinance_exp_categories');
-    if (savedExpCats) {
-      try { setExpenseCategories(JSON.parse(savedExpCats)); } catch (e) {}
-    } else {
-      setExpenseCategories(['Makanan & Minuman', 'Transportasi', 'Listrik & Air', 'Stok Barang', 'Gaji Karyawan', 'Pemasaran', 'Lainnya']);
-    }
+      // 2. Transactions. IndexedDB returns them by id, the app keeps them newest first.
+      // Nothing stored at all means a first run, which gets demo data
+      let loadedTx: Transaction[] = isFirstRun
+        ? [{ id: '1', date: new Date().toISOString().split('T')[0], amount: 5000000, type: TransactionType.INCOME, categoryId: getCategoryIds(loadedCategories, 'INCOME')[0], description: 'Penjualan Mingguan', merchant: 'Toko', accountId: loadedAccounts[0]?.id }]
+        : [...(data.transactions || [])].sort((a, b) => b.date.localeCompare(a.date));
+      // Loaded rows are already stored, only later changes (and first-run demo data) need writing
+      persistedTransactions.current = isFirstRun ? new Map() : new Map(loadedTx.map(t => [t.id, t]));
 
-    const savedIncCats = localStorage.getItem('letsfinance_inc_categories');
-    if (savedIncCats) {
-      try { setIncomeCategories(JSON.parse(savedIncCats)); } catch (e) {}
-    } else {
-      setIncomeCategories(['Penjualan', 'Investasi', 'Hadiah', 'Lainnya']);
-    }
+      // 2b. Recurring templates: post every occurrence that became due since the last visit
+      const loadedRecurring = data.recurring || [];
+      const { posted, rules } = materializeRecurring(loadedRecurring, loadedTx);
+      if (posted.length > 0) {
+        loadedTx = [...posted, ...loadedTx];
+        setRecurringReview({ posted });
+        appendAuditLog(createAuditEntries(diffForAudit('transactions', [], posted, loadedCategories), SYSTEM_ACTOR, 'RECURRING'))
+          .catch(e => console.error("Failed to write audit log", e));
+      }
+      setRecurring(rules);
+      setTransactions(loadedTx);
+
+      // 3. Other Data
+      setInvoices(data.invoices || []);
+      setCategories(loadedCategories);
+      setCategoryRules(data.categoryRules || []);
+      setBudgets(data.budgets || []);
+      setDebts(data.debts || []);
+
+      // 4. Trash: whatever passed the retention period is purged for good
+      const { kept, expired } = splitExpired(data.trash || []);
+      setTrash(kept);
+      if (expired.length > 0) {
+        appendAuditLog(createAuditEntries(expired.map(item => trashAuditDraft(item, 'PURGE', loadedCategories)), SYSTEM_ACTOR, 'MANUAL'))
+          .catch(e => console.error("Failed to write audit log", e));
+      }
+      syncState.current = (await repo.getValue('syncState')) || null;
+      setSyncEnabled(!!(await repo.getValue('syncEnabled')));
+      setUsers(await loadUsers());
+      setAutoLockMinutes((await repo.getValue('autoLockMinutes')) ?? DEFAULT_AUTO_LOCK_MINUTES);
+      setIsLoaded(true);
+    };
+
+    load().catch(e => {
+      console.error("Failed to load data", e);
+      alert(e instanceof UnsupportedSchemaError ? e.message : "Gagal memuat data dari penyimpanan browser.");
+    });
   }, []);
 
   // --- OPTIMIZED PERSISTENCE (DEBOUNCING) ---
@@ -138,66 +222,257 @@ const App: React.FC = () => {
     }, [...deps, delay]);
   };
 
-  useDebouncedEffect(() => { localStorage.setItem('letsfinance_transactions', JSON.stringify(transactions)); }, [transactions], 800);
-  useDebouncedEffect(() => { localStorage.setItem('letsfinance_invoices', JSON.stringify(invoices)); }, [invoices], 800);
-  useDebouncedEffect(() => { localStorage.setItem('letsfinance_accounts', JSON.stringify(accounts)); }, [accounts], 800);
-  useDebouncedEffect(() => { localStorage.setItem('letsfinance_exp_categories', JSON.stringify(expenseCategories)); }, [expenseCategories], 800);
-  useDebouncedEffect(() => { localStorage.setItem('letsfinance_inc_categories', JSON.stringify(incomeCategories)); }, [incomeCategories], 800);
+  // Nothing is written before the initial load finished, otherwise empty state would overwrite stored data
+  const persistValue = <K extends StorageKey>(key: K, value: StoredValues[K]) => {
+    if (!isLoaded) return;
+    saveValue(key, value).catch(e => console.error(`Failed to save ${key}`, e));
+  };
+
+  // Transactions are written per record: only rows added, edited or deleted since the last save
+  useDebouncedEffect(() => {
+    if (!isLoaded) return;
+    const { put, remove } = diffById<Transaction>(persistedTransactions.current, transactions);
+    if (put.length === 0 && remove.length === 0) return;
+    persistedTransactions.current = new Map(transactions.map(t => [t.id, t]));
+    getRepository()
+      .then(repo => repo.applyTransactionChanges(put, remove))
+      .catch(e => console.error("Failed to save transactions", e));
+  }, [transactions, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('invoices', invoices), [invoices, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('accounts', accounts), [accounts, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('categories', categories), [categories, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('recurring', recurring), [recurring, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('categoryRules', categoryRules), [categoryRules, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('budgets', budgets), [budgets, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('debts', debts), [debts, isLoaded], 800);
+  useDebouncedEffect(() => persistValue('trash', trash), [trash, isLoaded], 800);
+
+  // --- Audit ---
+  const actorName = currentUser?.name || 'Owner';
+
+  // A failed log write is reported but never blocks the change itself
+  const audit = (drafts: AuditDraft[], source: AuditSource = 'MANUAL', actor = actorName) => {
+    if (drafts.length === 0) return;
+    appendAuditLog(createAuditEntries(drafts, actor, source)).catch(e => console.error("Failed to write audit log", e));
+  };
+
+  // --- Undo / Redo ---
+  const undoState: UndoState = useMemo(
+    () => ({ transactions, invoices, accounts, categories, recurring, categoryRules, budgets, trash }),
+    [transactions, invoices, accounts, categories, recurring, categoryRules, budgets, trash]
+  );
+  const latestUndoState = useRef(undoState);
+  latestUndoState.current = undoState;
+
+  // Logs a change made by the user and offers to undo it. Several in one tick become one step.
+  const recordChange = (drafts: AuditDraft[], source: AuditSource = 'MANUAL', label?: string) => {
+    audit(drafts, source);
+    if (drafts.length === 0 || pendingUndo.current) return;
+    pendingUndo.current = { label: label || describeUndoStep(drafts), before: latestUndoState.current };
+  };
+
+  useEffect(() => {
+    const pending = pendingUndo.current;
+    if (!pending) return;
+    pendingUndo.current = null;
+    const step = createUndoStep(pending.label, pending.before, undoState);
+    if (!step) return;
+    setUndoHistory(prev => pushUndoStep(prev, step));
+    setUndoToast({ message: step.label, mode: 'UNDO' });
+  }, [undoState]);
+
+  const applyUndo = (step: UndoStep, direction: 'UNDO' | 'REDO') => {
+    const current = latestUndoState.current;
+    const next = applyUndoStep(current, step, direction);
+    audit((Object.keys(next) as UndoKey[]).flatMap(key =>
+      key === 'trash' ? [] : diffForAudit(key, current[key], next[key], next.categories || current.categories)));
+    if (next.transactions) setTransactions([...next.transactions].sort((a, b) => b.date.localeCompare(a.date)));
+    if (next.invoices) setInvoices(next.invoices);
+    if (next.accounts) setAccounts(next.accounts);
+    if (next.categories) setCategories(next.categories);
+    if (next.recurring) setRecurring(next.recurring);
+    if (next.categoryRules) setCategoryRules(next.categoryRules);
+    if (next.budgets) setBudgets(next.budgets);
+    if (next.trash) setTrash(next.trash);
+  };
+
+  const undo = () => {
+    const step = undoHistory.past[undoHistory.past.length - 1];
+    if (!step) return;
+    applyUndo(step, 'UNDO');
+    setUndoHistory(prev => ({ past: prev.past.slice(0, -1), future: [...prev.future, step] }));
+    setUndoToast({ message: `Diurungkan: ${step.label}`, mode: 'REDO' });
+  };
+
+  const redo = () => {
+    const step = undoHistory.future[undoHistory.future.length - 1];
+    if (!step) return;
+    applyUndo(step, 'REDO');
+    setUndoHistory(prev => ({ past: [...prev.past, step], future: prev.future.slice(0, -1) }));
+    setUndoToast({ message: step.label, mode: 'UNDO' });
+  };
+
+  const closeUndoToast = useCallback(() => setUndoToast(null), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac). Text fields keep their own undo
+  useEffect(() => {
+    if (isLocked) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if ((e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undoHistory, isLocked]);
 
   // --- Handlers (Memoized) ---
 
-  const addTransaction = useCallback((t: Omit<Transaction, 'id'>) => {
+  const addTransaction = useCallback((t: Omit<Transaction, 'id'>, source: AuditSource = 'MANUAL') => {
     const txData = { ...t };
-    if (!txData.accountId && accounts.length > 0) {
-        txData.accountId = accounts[0].id;
+    const activeAccounts = getActiveAccounts(accounts);
+    if (!txData.accountId && activeAccounts.length > 0) {
+        txData.accountId = activeAccounts[0].id;
     }
     const newTransaction = { ...txData, id: Date.now().toString() };
     setTransactions(prev => [newTransaction, ...prev]);
-  }, [accounts]);
+    recordChange(diffForAudit('transactions', [], [newTransaction], categories), source);
+  }, [accounts, categories, actorName]);
+
+  // Bulk append from a statement import, ids are suffixed so rows added in the same tick stay unique
+  const appendTransactions = useCallback((txs: Omit<Transaction, 'id'>[]) => {
+    const base = Date.now();
+    const created = txs.map((t, i) => ({ ...t, id: `${base}-${i}` }));
+    setTransactions(prev => [...created, ...prev]);
+    recordChange([{ action: 'IMPORT', entity: 'TRANSACTION', summary: `${created.length} transaksi dari mutasi rekening`, after: created }], 'IMPORT');
+  }, [actorName]);
+
+  const updateTransaction = useCallback((updated: Transaction) => {
+    const before = transactions.find(t => t.id === updated.id);
+    if (!before) return;
+    const edited = applyTransactionEdit(before, updated, actorName);
+    setTransactions(prev => prev.map(t => t.id === updated.id ? edited : t));
+    recordChange(diffForAudit('transactions', [before], [edited], categories));
+  }, [transactions, categories, actorName]);
+
+  // Deleting never drops a transaction or invoice right away, it waits in the trash first
+  const moveToTrash = (records: TrashedRecord[]) => {
+    if (records.length === 0) return;
+    const items = createTrashItems(records, actorName);
+    setTrash(prev => [...items, ...prev]);
+  };
+
+  // Review queue: drop an auto-posted occurrence the user doesn't want to keep
+  const discardPostedOccurrence = useCallback((id: string) => {
+    moveToTrash(transactions.filter(t => t.id === id).map(record => ({ kind: 'TRANSACTION' as const, record })));
+    setTransactions(prev => prev.filter(t => t.id !== id));
+    setRecurringReview(prev => prev ? { ...prev, posted: prev.posted.filter(t => t.id !== id) } : prev);
+    recordChange(diffForAudit('transactions', transactions.filter(t => t.id === id), [], categories), 'RECURRING');
+  }, [transactions, categories, actorName]);
+
+  const deleteInvoice = (id: string) => {
+    if (!isAllowed('DELETE_INVOICE')) return;
+    const deleted = invoices.filter(inv => inv.id === id);
+    moveToTrash(deleted.map(record => ({ kind: 'INVOICE' as const, record })));
+    setInvoices(prev => prev.filter(inv => inv.id !== id));
+    recordChange(diffForAudit('invoices', deleted, [], categories));
+  };
+
+  // Restored records go back where they were; an id taken in the meantime gets a new one
+  const restoreFromTrash = (ids: string[]) => {
+    const items = trash.filter(item => ids.includes(item.id));
+    if (items.length === 0) return;
+    const suffix = Date.now().toString();
+    const takenTx = new Set<string>(transactions.map(t => t.id));
+    const takenInv = new Set<string>(invoices.map(inv => inv.id));
+    const restoredTx: Transaction[] = [];
+    const restoredInv: Invoice[] = [];
+    items.forEach(item => {
+      if (item.kind === 'TRANSACTION') restoredTx.push(withFreeId(item.record, takenTx, suffix));
+      else restoredInv.push(withFreeId(item.record, takenInv, suffix));
+    });
+    if (restoredTx.length > 0) setTransactions(prev => [...restoredTx, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+    if (restoredInv.length > 0) setInvoices(prev => [...restoredInv, ...prev]);
+    setTrash(prev => prev.filter(item => !ids.includes(item.id)));
+    recordChange(items.map(item => trashAuditDraft(item, 'RESTORE', categories)));
+  };
+
+  const purgeFromTrash = (ids: string[]) => {
+    const items = trash.filter(item => ids.includes(item.id));
+    setTrash(prev => prev.filter(item => !ids.includes(item.id)));
+    audit(items.map(item => trashAuditDraft(item, 'PURGE', categories)));
+  };
+
+  const isAllowed = (permission: Permission) => {
+    if (can(role, permission)) return true;
+    alert(DENIED_MESSAGE);
+    return false;
+  };
 
   // Trigger Modal
   const requestDeleteTransaction = useCallback((id: string) => {
+    if (!isAllowed('DELETE_TRANSACTION')) return;
     setPendingAction({ type: 'DELETE_TRANSACTION', payload: id });
     setModalConfig({
       isOpen: true,
       title: 'Hapus Transaksi?',
-      message: 'Transaksi ini akan dihapus permanen dari riwayat.',
+      message: 'Transaksi ini akan dipindahkan ke Tempat Sampah dan bisa dipulihkan selama 30 hari.',
       isDanger: false
     });
-  }, []);
+  }, [role]);
 
   const requestClearAll = useCallback(() => {
-    if (transactions.length === 0) return;
+    if (transactions.length === 0 || !isAllowed('CLEAR_ALL_TRANSACTIONS')) return;
     setPendingAction({ type: 'CLEAR_ALL_TRANSACTIONS' });
     setModalConfig({
       isOpen: true,
       title: 'Hapus Semua Data?',
-      message: 'PERINGATAN: Seluruh riwayat transaksi akan dihapus. Pastikan Anda sudah backup data.',
+      message: 'PERINGATAN: Seluruh riwayat transaksi akan dipindahkan ke Tempat Sampah. Setelah 30 hari transaksi tersebut terhapus permanen.',
       isDanger: true
     });
-  }, [transactions.length]);
+  }, [transactions.length, role]);
 
   const requestReset = useCallback(() => {
+    if (!isAllowed('RESET_DATA')) return;
     setPendingAction({ type: 'RESET_DATA' });
     setModalConfig({
       isOpen: true,
       title: 'Reset Aplikasi?',
-      message: 'Semua data transaksi, invoice, dan pengaturan akan dihapus dari browser ini. Aplikasi akan kembali ke pengaturan awal.',
+      message: 'Semua data transaksi, invoice, dan pengaturan akan dihapus dari browser ini. Aplikasi akan kembali ke pengaturan awal. Log audit tetap disimpan dan mencatat reset ini.',
       isDanger: true
     });
-  }, []);
+  }, [role]);
 
-  // Execute Action
+  // Execute Action. Checked again: the app may have locked or changed hands since the request
   const executeConfirm = () => {
     if (!pendingAction) return;
+    if (!isAllowed(pendingAction.type)) {
+      setModalConfig(prev => ({ ...prev, isOpen: false }));
+      setPendingAction(null);
+      return;
+    }
 
     if (pendingAction.type === 'DELETE_TRANSACTION' && pendingAction.payload) {
+      const deleted = transactions.filter(t => t.id === pendingAction.payload);
+      moveToTrash(deleted.map(record => ({ kind: 'TRANSACTION' as const, record })));
       setTransactions(prev => prev.filter(t => t.id !== pendingAction.payload));
+      recordChange(diffForAudit('transactions', deleted, [], categories));
     } else if (pendingAction.type === 'CLEAR_ALL_TRANSACTIONS') {
+      // One entry holding every cleared transaction, so they can still be looked up after the trash is emptied
+      recordChange([{ action: 'CLEAR_ALL', entity: 'TRANSACTION', summary: `${transactions.length} transaksi dihapus`, before: transactions }]);
+      moveToTrash(transactions.map(record => ({ kind: 'TRANSACTION' as const, record })));
       setTransactions([]);
     } else if (pendingAction.type === 'RESET_DATA') {
-      localStorage.clear();
-      window.location.reload();
+      // The log survives the reset, with the reset itself as its latest entry
+      const entries = createAuditEntries([{ action: 'RESET', entity: 'DATA', summary: 'Seluruh data dihapus', before: countRecords(currentData) }], actorName, 'MANUAL');
+      getRepository()
+        .then(async repo => {
+          await repo.appendAuditEntries(entries);
+          await repo.clear();
+        })
+        .catch(e => console.error("Failed to clear storage", e))
+        .finally(() => window.location.reload());
     }
 
     // Close Modal
@@ -205,26 +480,347 @@ const App: React.FC = () => {
     setPendingAction(null);
   };
 
-  // Backup & Restore
+  // Encrypted backups: the passphrase saved in Settings is tried first, then the user is asked
+  // until it works or they cancel. Returns null when cancelled.
+  const decryptWithPassphrase = async (text: string): Promise<string | null> => {
+    const saved = await loadValue('backupPassphrase');
+    if (saved) {
+      try { return await decryptBackup(text, saved); } catch { /* Made with another passphrase */ }
+    }
+    while (true) {
+      const passphrase = prompt("File backup ini terenkripsi. Masukkan passphrase:");
+      if (passphrase === null) return null;
+      try {
+        return await decryptBackup(text, passphrase);
+      } catch (err) {
+        alert(err instanceof BackupDecryptionError ? err.message : "Gagal membaca file backup.");
+      }
+    }
+  };
+
+  // Backup & Restore. The file is validated and previewed first, nothing changes until the user picks a mode
   const handleImportData = (file: File) => {
+    if (!isAllowed('RESTORE_BACKUP')) return;
     const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const json = JSON.parse(event.target?.result as string);
-        if (!json.transactions || !Array.isArray(json.transactions)) throw new Error("Format file tidak valid.");
-        
-        setTransactions(json.transactions);
-        if (json.invoices) setInvoices(json.invoices);
-        if (json.accounts) setAccounts(json.accounts);
-        if (json.expenseCategories) setExpenseCategories(json.expenseCategories);
-        if (json.incomeCategories) setIncomeCategories(json.incomeCategories);
-        alert("Data berhasil dipulihkan!");
-      } catch (err) { alert("Gagal membaca file backup."); }
+    reader.onload = async (event) => {
+      let text = event.target?.result as string;
+      if (isEncryptedBackup(text)) {
+        const decrypted = await decryptWithPassphrase(text);
+        if (decrypted === null) return;
+        text = decrypted;
+      }
+      setPendingRestore({ fileName: file.name, backup: parseBackup(text) });
     };
+    reader.onerror = () => alert("Gagal membaca file backup.");
     reader.readAsText(file);
   };
 
-  const NavItem = ({ viewName, label, icon: Icon }: { viewName: ViewState, label: string, icon: any }) => (
+  const currentData: AppData = useMemo(
+    () => ({ transactions, invoices, accounts, categories, recurring, categoryRules, budgets, debts }),
+    [transactions, invoices, accounts, categories, recurring, categoryRules, budgets, debts]
+  );
+
+  // --- Background Sync ---
+  // Read by the sync loop, which outlives the render it was started in
+  const latestData = useRef(currentData);
+  latestData.current = currentData;
+
+  // Stamps local edits as they happen, so each record carries when it last changed here
+  useDebouncedEffect(() => {
+    if (!isLoaded || !syncEnabled) return;
+    const current = syncState.current || createSyncState();
+    const next = trackLocalChanges(current, currentData);
+    if (next === syncState.current) return;
+    syncState.current = next;
+    persistValue('syncState', next);
+  }, [currentData, isLoaded, syncEnabled], 800);
+
+  // Collections edited inside child components are logged by comparing them with the current state
+  const auditedSetter = <K extends keyof AppData>(key: K, setter: (value: AppData[K]) => void) => (next: AppData[K]) => {
+    const drafts = diffForAudit(key, currentData[key], next, currentData.categories);
+    if (isUndoKey(key)) recordChange(drafts); else audit(drafts);
+    setter(next);
+  };
+
+  // Records hold the category id, so a rename only changes the category itself
+  const renameCategory = (id: string, name: string) => {
+    const category = categories.find(c => c.id === id);
+    if (!category) return;
+    const next = renameCategoryRecord(categories, id, name);
+    recordChange(diffForAudit('categories', categories, next, categories), 'MANUAL', `Ganti Nama Kategori: ${category.name} → ${name}`);
+    setCategories(next);
+  };
+
+  // Merging points every record at the target instead, logged and undone as one step
+  const mergeCategory = (sourceId: string, targetId: string) => {
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target) return;
+    const change = cascadeCategoryMerge(categories, { transactions, recurring, categoryRules, budgets, trash }, sourceId, targetId);
+    recordChange([
+      ...diffForAudit('categories', categories, change.categories, categories),
+      ...diffForAudit('transactions', transactions, change.transactions, categories),
+      ...diffForAudit('recurring', recurring, change.recurring, categories),
+      ...diffForAudit('categoryRules', categoryRules, change.categoryRules, categories),
+      ...diffForAudit('budgets', budgets, change.budgets, categories),
+    ], 'MANUAL', `Gabungkan Kategori: ${source.name} → ${target.name}`);
+    setCategories(change.categories);
+    setTransactions(change.transactions);
+    setRecurring(change.recurring);
+    setCategoryRules(change.categoryRules);
+    setBudgets(change.budgets);
+    setTrash(change.trash);
+  };
+
+  // An account with history is only removed together with moving its records onto another account.
+  // The check and the move run against the same state, so nothing is left pointing at a missing account.
+  const deleteAccount = (id: string, targetId: string | null) => {
+    const account = accounts.find(a => a.id === id);
+    if (!account) return;
+    const refs = { transactions, recurring, categoryRules, trash };
+
+    if (targetId === null) {
+      if (hasAccountHistory(account, getAccountUsage(refs, id))) {
+        alert(`Akun ${account.name} masih memiliki riwayat. Pindahkan transaksinya ke akun lain atau arsipkan akun ini.`);
+        return;
+      }
+      const next = accounts.filter(a => a.id !== id);
+      recordChange(diffForAudit('accounts', accounts, next, categories));
+      setAccounts(next);
+      return;
+    }
+
+    const error = validateAccountReassign(accounts, refs, id, targetId);
+    if (error) {
+      alert(error);
+      return;
+    }
+    const target = accounts.find(a => a.id === targetId)!;
+    const change = reassignAccount(accounts, refs, id, targetId);
+    recordChange([
+      ...diffForAudit('accounts', accounts, change.accounts, categories),
+      ...diffForAudit('transactions', transactions, change.transactions, categories),
+      ...diffForAudit('recurring', recurring, change.recurring, categories),
+      ...diffForAudit('categoryRules', categoryRules, change.categoryRules, categories),
+    ], 'MANUAL', `Pindahkan & Hapus Akun: ${account.name} → ${target.name}`);
+    setAccounts(change.accounts);
+    setTransactions(change.transactions);
+    setRecurring(change.recurring);
+    setCategoryRules(change.categoryRules);
+    setTrash(change.trash);
+  };
+
+  const applySyncChanges = (changes: RecordChange[]) => {
+    if (changes.length === 0) return;
+    const current = latestData.current;
+    const synced: AppData = {
+      transactions: applyRecordChanges('transactions', current.transactions, changes),
+      invoices: applyRecordChanges('invoices', current.invoices, changes),
+      accounts: applyRecordChanges('accounts', current.accounts, changes),
+      categories: applyRecordChanges('categories', current.categories, changes),
+      recurring: applyRecordChanges('recurring', current.recurring, changes),
+      categoryRules: applyRecordChanges('categoryRules', current.categoryRules, changes),
+      budgets: applyRecordChanges('budgets', current.budgets, changes),
+      debts: applyRecordChanges('debts', current.debts, changes),
+    };
+    const drafts = (Object.keys(AUDIT_ENTITY_BY_KEY) as (keyof AppData)[]).flatMap(key => diffForAudit(key, current[key], synced[key], synced.categories));
+    audit(drafts, 'SYNC', 'Perangkat lain');
+    setTransactions(prev => {
+      const next = applyRecordChanges<Transaction>('transactions', prev, changes);
+      return next === prev ? prev : [...next].sort((a, b) => b.date.localeCompare(a.date));
+    });
+    setInvoices(prev => applyRecordChanges('invoices', prev, changes));
+    setAccounts(prev => applyRecordChanges('accounts', prev, changes));
+    setCategories(prev => applyRecordChanges('categories', prev, changes));
+    setRecurring(prev => applyRecordChanges('recurring', prev, changes));
+    setCategoryRules(prev => applyRecordChanges('categoryRules', prev, changes));
+    setBudgets(prev => applyRecordChanges('budgets', prev, changes));
+    setDebts(prev => applyRecordChanges('debts', prev, changes));
+  };
+
+  const performSync = useCallback(async (manual = false) => {
+    if (syncInFlight.current) return;
+    // Local changes stay tracked in syncState, so they go out with the first sync back online
+    if (!navigator.onLine) {
+      setSyncStatus({ state: 'OFFLINE' });
+      if (manual) alert("Perangkat sedang offline. Perubahan akan disinkronkan otomatis saat online kembali.");
+      return;
+    }
+    const provider = await getActiveCloudProvider();
+    if (!provider?.isConnected()) {
+      setSyncStatus({ state: 'OFFLINE' });
+      if (manual) alert(`Hubungkan ${provider?.label || 'penyimpanan cloud'} terlebih dahulu di menu Data Backup.`);
+      return;
+    }
+    syncInFlight.current = true;
+    setSyncStatus({ state: 'SYNCING' });
+    try {
+      const result = await runSync({
+        transport: provider.createSyncTransport(),
+        data: latestData.current,
+        state: syncState.current || createSyncState(),
+        passphrase: (await loadValue('backupPassphrase')) || undefined,
+      });
+      syncState.current = result.state;
+      await saveValue('syncState', result.state);
+      applySyncChanges(result.changes);
+      setSyncConflicts(result.conflicts);
+
+      const now = new Date();
+      await recordCloudSync(provider.id, now.getTime());
+      setSyncStatus({ state: result.conflicts.length > 0 ? 'CONFLICT' : 'OK', at: now.toISOString(), pushed: result.pushed, pulled: result.pulled });
+    } catch (e) {
+      console.error("Sync failed", e);
+      const readable = e instanceof BackupDecryptionError || e instanceof UnsupportedSchemaError;
+      setSyncStatus({ state: 'ERROR', message: readable ? e.message : "Sinkronisasi gagal, akan dicoba lagi." });
+    } finally {
+      syncInFlight.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    const onOnline = () => setIsOnline(true);
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !syncEnabled || !isOnline) return;
+    performSync();
+    const timer = setInterval(() => performSync(), SYNC_INTERVAL_MS);
+    const onFocus = () => performSync();
+    window.addEventListener('focus', onFocus);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', onFocus);
+    };
+  }, [isLoaded, syncEnabled, isOnline, performSync]);
+
+  // Runs after the render that applied a resolution, so the sync reads the resolved data
+  useEffect(() => {
+    if (!syncRequested) return;
+    setSyncRequested(false);
+    performSync();
+  }, [syncRequested, performSync]);
+
+  const toggleSync = (enabled: boolean) => {
+    setSyncEnabled(enabled);
+    persistValue('syncEnabled', enabled);
+    if (!enabled) setSyncStatus({ state: 'IDLE' });
+  };
+
+  const resolveSyncConflict = (conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE') => {
+    const { state, change } = resolveConflict(syncState.current || createSyncState(), conflict, keep);
+    syncState.current = state;
+    persistValue('syncState', state);
+    if (change) applySyncChanges([change]);
+    const remaining = syncConflicts.filter(c => c.key !== conflict.key);
+    setSyncConflicts(remaining);
+    if (remaining.length === 0) {
+      setShowSyncConflicts(false);
+      setSyncRequested(true);
+    }
+  };
+
+  const applyRestore = (mode: RestoreMode) => {
+    if (!pendingRestore?.backup.data || !isAllowed('RESTORE_BACKUP')) return;
+    const { data, addedAccounts, addedCategories } = restoreBackup(currentData, pendingRestore.backup.data, mode);
+    setTransactions([...data.transactions].sort((a, b) => b.date.localeCompare(a.date)));
+    setInvoices(data.invoices);
+    setAccounts(data.accounts);
+    setCategories(data.categories);
+    setRecurring(data.recurring);
+    setCategoryRules(data.categoryRules);
+    setBudgets(data.budgets);
+    setDebts(data.debts);
+    // Steps recorded before no longer describe these books
+    setUndoHistory(EMPTY_UNDO_HISTORY);
+    setUndoToast(null);
+
+    const { fileName, backup } = pendingRestore;
+    mergeAuditLog(backup.auditLog || [])
+      .then(() => audit([{
+        action: 'RESTORE', entity: 'DATA', summary: `${fileName} (${mode === 'REPLACE' ? 'ganti semua' : 'gabungkan'})`,
+        before: countRecords(currentData), after: countRecords(data),
+      }], 'IMPORT'))
+      .catch(e => console.error("Failed to merge audit log", e));
+    setPendingRestore(null);
+
+    const notes = [
+      addedAccounts > 0 ? `${addedAccounts} akun` : '',
+      addedCategories > 0 ? `${addedCategories} kategori` : '',
+    ].filter(Boolean);
+    alert(`Data berhasil dipulihkan!${notes.length > 0 ? `\n${notes.join(' dan ')} yang dirujuk backup ditambahkan.` : ''}`);
+  };
+
+  // --- Access ---
+  // Whatever was open stays behind the lock, the next person starts from a clean screen
+  const lock = useCallback(() => {
+    setCurrentUser(prev => {
+      if (prev) lastUserId.current = prev.id;
+      return null;
+    });
+    setShowAddModal(false);
+    setEditingTransaction(null);
+    setShowStatementImport(false);
+    setShowWorkspaceManager(false);
+    setPendingRestore(null);
+    setShowSyncConflicts(false);
+    setModalConfig(prev => ({ ...prev, isOpen: false }));
+    setPendingAction(null);
+    setIsMobileMenuOpen(false);
+    setUndoHistory(EMPTY_UNDO_HISTORY);
+    setUndoToast(null);
+  }, []);
+
+  const unlock = (user: UserProfile) => {
+    lastActivity.current = Date.now();
+    setCurrentUser(user);
+    if (!canView(user.role, view)) setView(getHomeView(user.role));
+  };
+
+  // Profile edits apply to this session right away. The first profile signs in whoever created it
+  const updateUsers = (next: UserProfile[]) => {
+    setUsers(next);
+    saveUsers(next);
+    setCurrentUser(prev => (prev ? next.find(u => u.id === prev.id) || null : next.length === 1 ? next[0] : null));
+  };
+
+  const updateAutoLockMinutes = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    persistValue('autoLockMinutes', minutes);
+  };
+
+  useEffect(() => {
+    if (!currentUser || autoLockMinutes <= 0) return;
+    lastActivity.current = Date.now();
+    const onActivity = () => { lastActivity.current = Date.now(); };
+    const events = ['mousedown', 'keydown', 'touchstart', 'wheel'];
+    events.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    // Timers are throttled in background tabs, so coming back also checks right away
+    const checkIdle = () => {
+      if (Date.now() - lastActivity.current >= autoLockMinutes * 60 * 1000) lock();
+    };
+    const timer = setInterval(checkIdle, INACTIVITY_CHECK_MS);
+    document.addEventListener('visibilitychange', checkIdle);
+    return () => {
+      events.forEach(event => window.removeEventListener(event, onActivity));
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', checkIdle);
+    };
+  }, [currentUser, autoLockMinutes, lock]);
+
+  // Also covers a role change and the start screen after signing in
+  useEffect(() => {
+    if (role && !canView(role, view)) setView(getHomeView(role));
+  }, [role, view]);
+
+  const NavItem = ({ viewName, label, icon: Icon }: { viewName: ViewState, label: string, icon: any }) => !canView(role, viewName) ? null : (
     <button
       onClick={() => { setView(viewName); setIsMobileMenuOpen(false); }}
       className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all ${
@@ -235,37 +831,57 @@ const App: React.FC = () => {
     </button>
   );
 
+  if (isLocked) {
+    return <LockScreen users={users} workspaceName={workspace.name} lastUserId={lastUserId.current} onUnlock={unlock} />;
+  }
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col md:flex-row">
       {/* Mobile Header */}
       <div className="md:hidden bg-white p-4 flex justify-between items-center shadow-sm sticky top-0 z-20 print:hidden">
         <div className="flex items-center gap-2">
-          <img src="https://imguh.com/images/2025/11/28/Gemini_Generated_Image_748fhg748fhg748f16548f7c41539f0e.png" alt="Logo" className="w-8 h-8 rounded-lg object-cover" />
+          <img src="/icons/logo.svg" alt="Logo" className="w-8 h-8 rounded-lg object-cover" />
           <span className="font-bold text-slate-800">LetsFinance</span>
         </div>
-        <button onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)} className="text-slate-600">
-          {isMobileMenuOpen ? <X /> : <Menu />}
-        </button>
+        <div className="flex items-center gap-4">
+          {currentUser && (
+            <button onClick={lock} className="text-slate-600" title="Kunci">
+              <Lock size={20} />
+            </button>
+          )}
+          <button onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)} className="text-slate-600">
+            {isMobileMenuOpen ? <X /> : <Menu />}
+          </button>
+        </div>
       </div>
 
       {/* Sidebar */}
       <aside className={`fixed inset-y-0 left-0 z-30 w-64 bg-white border-r border-slate-200 p-6 transform transition-transform duration-300 ease-in-out md:translate-x-0 md:relative print:hidden ${isMobileMenuOpen ? 'translate-x-0' : '-translate-x-full'}`}>
-        <div className="hidden md:flex items-center gap-3 mb-10 px-2">
-          <img src="https://imguh.com/images/2025/11/28/Gemini_Generated_Image_748fhg748fhg748f16548f7c41539f0e.png" alt="Logo" className="w-10 h-10 rounded-xl shadow-lg shadow-indigo-600/20 object-cover" />
+        <div className="hidden md:flex items-center gap-3 mb-6 px-2">
+          <img src="/icons/logo.svg" alt="Logo" className="w-10 h-10 rounded-xl shadow-lg shadow-indigo-600/20 object-cover" />
           <div>
             <h1 className="font-bold text-slate-900 text-lg leading-tight">LetsFinance</h1>
             <p className="text-xs text-slate-400 font-medium">UMKM & Personal</p>
           </div>
         </div>
+        <div className="mb-6">
+          <WorkspaceSwitcher
+            active={workspace} canSwitch={can(role, 'SWITCH_WORKSPACE')}
+            onManage={can(role, 'MANAGE_WORKSPACES') ? () => { setShowWorkspaceManager(true); setIsMobileMenuOpen(false); } : undefined}
+          />
+        </div>
         <nav className="space-y-2">
           <NavItem viewName="DASHBOARD" label="Dashboard" icon={LayoutDashboard} />
           <NavItem viewName="TRANSACTIONS" label="Transaksi" icon={ReceiptText} />
+          <NavItem viewName="DEBTS" label="Hutang Piutang" icon={HandCoins} />
           <NavItem viewName="REPORTS" label="Laporan" icon={PieChart} />
           <NavItem viewName="INVOICE" label="Buat Invoice" icon={FileText} />
           <NavItem viewName="AI_ADVISOR" label="Konsultan AI" icon={Sparkles} />
-          <div className="pt-4 mt-4 border-t border-slate-100">
-             <NavItem viewName="SETTINGS" label="Pengaturan" icon={SettingsIcon} />
-          </div>
+          {canView(role, 'SETTINGS') && (
+            <div className="pt-4 mt-4 border-t border-slate-100">
+               <NavItem viewName="SETTINGS" label="Pengaturan" icon={SettingsIcon} />
+            </div>
+          )}
         </nav>
         <div className="absolute bottom-6 left-6 right-6 hidden md:block">
           <button onClick={() => setShowAddModal(true)} className="w-full bg-slate-900 text-white py-3 rounded-xl flex items-center justify-center gap-2 font-bold shadow-lg hover:bg-slate-800 transition-transform active:scale-95">
@@ -281,6 +897,7 @@ const App: React.FC = () => {
             <h2 className="text-2xl font-bold text-slate-800">
               {view === 'DASHBOARD' && 'Ringkasan Keuangan'}
               {view === 'TRANSACTIONS' && 'Daftar Transaksi'}
+              {view === 'DEBTS' && 'Hutang & Piutang'}
               {view === 'REPORTS' && 'Laporan Keuangan'}
               {view === 'INVOICE' && 'Generator Invoice'}
               {view === 'AI_ADVISOR' && 'Analisis Cerdas'}
@@ -290,51 +907,121 @@ const App: React.FC = () => {
           </div>
           <div className="hidden md:flex items-center gap-3">
              <div className="text-right">
-                <p className="text-sm font-bold text-slate-700">Halo, Owner</p>
-                <p className="text-xs text-slate-400">UMKM Maju Jaya</p>
+                <p className="text-sm font-bold text-slate-700">Halo, {currentUser?.name || 'Owner'}</p>
+                <p className="text-xs text-slate-400">{workspace.name}{currentUser && ` • ${ROLE_LABELS[currentUser.role]}`}</p>
              </div>
              <div className="w-10 h-10 bg-slate-200 rounded-full overflow-hidden border-2 border-white shadow-sm">
-                <img src="https://picsum.photos/100/100" alt="Profile" className="w-full h-full object-cover" />
+                <img src="/avatar.svg" alt="Profile" className="w-full h-full object-cover" />
              </div>
+             {currentUser && (
+                <button onClick={lock} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-white rounded-full transition-colors" title="Kunci">
+                   <Lock size={18} />
+                </button>
+             )}
           </div>
         </header>
 
-        {syncAlert && (
-            <div className={`mb-6 p-4 rounded-xl border flex items-center justify-between gap-4 animate-fade-in ${syncAlert === 'NONE' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-orange-50 border-orange-200 text-orange-800'}`}>
+        {!isOnline && (
+            <div className="mb-6 p-4 rounded-xl border flex items-center gap-3 animate-fade-in bg-slate-100 border-slate-200 text-slate-700 print:hidden">
+                <div className="p-2 rounded-full bg-slate-200 text-slate-500">
+                    <WifiOff size={20} />
+                </div>
+                <div>
+                    <p className="font-bold text-sm">Anda sedang offline.</p>
+                    <p className="text-xs opacity-90">Data tetap tersimpan di perangkat ini. Fitur AI dan sinkronisasi cloud aktif kembali saat online.</p>
+                </div>
+            </div>
+        )}
+
+        {syncConflicts.length > 0 && can(role, 'EDIT_TRANSACTION') && (
+            <div className="mb-6 p-4 rounded-xl border flex items-center justify-between gap-4 animate-fade-in bg-rose-50 border-rose-200 text-rose-800">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-full bg-rose-100 text-rose-600">
+                        <TriangleAlert size={20} />
+                    </div>
+                    <div>
+                        <p className="font-bold text-sm">{syncConflicts.length} data diubah bersamaan di perangkat lain.</p>
+                        <p className="text-xs opacity-90">Pilih versi yang benar agar sinkronisasi bisa dilanjutkan untuk data tersebut.</p>
+                    </div>
+                </div>
+                <button onClick={() => setShowSyncConflicts(true)} className="flex items-center gap-1 px-4 py-2 rounded-lg font-bold text-xs transition-colors whitespace-nowrap bg-rose-100 hover:bg-rose-200 text-rose-900">
+                    Tinjau <ArrowRight size={14} />
+                </button>
+            </div>
+        )}
+
+        {syncAlert && canView(role, 'SETTINGS') && (
+            <div className={`mb-6 p-4 rounded-xl border flex items-center justify-between gap-4 animate-fade-in ${syncAlert.level === 'NONE' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-orange-50 border-orange-200 text-orange-800'}`}>
                 <div className="flex items-center gap-3">
-                    <div className={`p-2 rounded-full ${syncAlert === 'NONE' ? 'bg-amber-100 text-amber-600' : 'bg-orange-100 text-orange-600'}`}>
+                    <div className={`p-2 rounded-full ${syncAlert.level === 'NONE' ? 'bg-amber-100 text-amber-600' : 'bg-orange-100 text-orange-600'}`}>
                         <TriangleAlert size={20} />
                     </div>
                     <div>
-                        <p className="font-bold text-sm">{syncAlert === 'NONE' ? 'Data Anda belum dicadangkan.' : 'Sinkronisasi data terakhir sudah lebih dari 3 hari.'}</p>
-                        <p className="text-xs opacity-90">Hubungkan Google Drive untuk mencegah kehilangan data keuangan Anda.</p>
+                        <p className="font-bold text-sm">{syncAlert.level === 'NONE' ? 'Data Anda belum dicadangkan.' : 'Sinkronisasi data terakhir sudah lebih dari 3 hari.'}</p>
+                        <p className="text-xs opacity-90">Backup ke {syncAlert.provider} untuk mencegah kehilangan data keuangan Anda.</p>
                     </div>
                 </div>
-                <button onClick={() => setView('SETTINGS')} className={`flex items-center gap-1 px-4 py-2 rounded-lg font-bold text-xs transition-colors whitespace-nowrap ${syncAlert === 'NONE' ? 'bg-amber-100 hover:bg-amber-200 text-amber-900' : 'bg-orange-100 hover:bg-orange-200 text-orange-900'}`}>
+                <button onClick={() => setView('SETTINGS')} className={`flex items-center gap-1 px-4 py-2 rounded-lg font-bold text-xs transition-colors whitespace-nowrap ${syncAlert.level === 'NONE' ? 'bg-amber-100 hover:bg-amber-200 text-amber-900' : 'bg-orange-100 hover:bg-orange-200 text-orange-900'}`}>
                     Backup Sekarang <ArrowRight size={14} />
                 </button>
             </div>
         )}
 
         {view === 'DASHBOARD' && (
-          <Dashboard transactions={transactions} accounts={accounts} onNavigateToReports={() => setView('REPORTS')} />
+          <Dashboard transactions={transactions} accounts={accounts} budgets={budgets} expenseCategories={expenseCategories} categories={categories} debts={debts} onNavigateToReports={() => setView('REPORTS')} onNavigateToDebts={() => setView('DEBTS')} />
         )}
         {view === 'TRANSACTIONS' && (
-            <TransactionList transactions={transactions} accounts={accounts} onDelete={requestDeleteTransaction} onClearAll={requestClearAll} />
+            <TransactionList
+              transactions={transactions} accounts={accounts} categories={categories}
+              onEdit={can(role, 'EDIT_TRANSACTION') ? setEditingTransaction : undefined}
+              onImportStatement={can(role, 'IMPORT_STATEMENT') ? () => setShowStatementImport(true) : undefined}
+              onDelete={can(role, 'DELETE_TRANSACTION') ? requestDeleteTransaction : undefined}
+              onClearAll={can(role, 'CLEAR_ALL_TRANSACTIONS') ? requestClearAll : undefined}
+            />
         )}
-        {view === 'REPORTS' && <Reports transactions={transactions} />}
-        {view === 'INVOICE' && <InvoiceGenerator invoices={invoices} onUpdateInvoices={setInvoices} />}
-        {view === 'AI_ADVISOR' && <AIAdvisor transactions={transactions} />}
+        {view === 'DEBTS' && (
+            <DebtLedger 
+              debts={debts} setDebts={auditedSetter('debts', setDebts)} transactions={transactions} accounts={accounts} categories={categories}
+              expenseCategories={expenseCategories} incomeCategories={incomeCategories} onAddTransaction={addTransaction} 
+            />
+        )}
+        {view === 'REPORTS' && (
+          <Reports
+            transactions={transactions} budgets={budgets} expenseCategories={expenseCategories}
+            categories={categories} isOnline={isOnline}
+          />
+        )}
+        {view === 'INVOICE' && <InvoiceGenerator invoices={invoices} onUpdateInvoices={auditedSetter('invoices', setInvoices)} onDeleteInvoice={can(role, 'DELETE_INVOICE') ? deleteInvoice : undefined} />}
+        {view === 'AI_ADVISOR' && <AIAdvisor transactions={transactions} categories={categories} isOnline={isOnline} />}
         {view === 'SETTINGS' && (
           <Settings 
-            transactions={transactions} invoices={invoices} accounts={accounts} setAccounts={setAccounts}
-            expenseCategories={expenseCategories} setExpenseCategories={setExpenseCategories}
-            incomeCategories={incomeCategories} setIncomeCategories={setIncomeCategories}
-            onImport={handleImportData} onReset={requestReset} 
+            transactions={transactions} invoices={invoices} accounts={accounts} setAccounts={auditedSetter('accounts', setAccounts)}
+            categories={categories} setCategories={auditedSetter('categories', setCategories)}
+            onRenameCategory={renameCategory} onMergeCategory={mergeCategory}
+            onDeleteAccount={deleteAccount}
+            recurring={recurring} setRecurring={auditedSetter('recurring', setRecurring)}
+            categoryRules={categoryRules} setCategoryRules={auditedSetter('categoryRules', setCategoryRules)}
+            budgets={budgets} setBudgets={auditedSetter('budgets', setBudgets)}
+            debts={debts}
+            onImport={can(role, 'RESTORE_BACKUP') ? handleImportData : undefined}
+            onReset={can(role, 'RESET_DATA') ? requestReset : undefined}
+            syncEnabled={syncEnabled} syncStatus={syncStatus} onToggleSync={toggleSync} onSyncNow={() => performSync(true)}
+            isOnline={isOnline}
+            users={users} setUsers={can(role, 'MANAGE_USERS') ? updateUsers : undefined} currentUserId={currentUser?.id || null}
+            autoLockMinutes={autoLockMinutes} setAutoLockMinutes={updateAutoLockMinutes}
+            trash={trash} onRestoreTrash={restoreFromTrash}
+            onPurgeTrash={can(role, 'PURGE_TRASH') ? purgeFromTrash : undefined}
           />
         )}
       </main>
 
+      {undoToast && (
+        <UndoToast
+          message={undoToast.message} mode={undoToast.mode}
+          onAction={undoToast.mode === 'UNDO' ? undo : redo} onClose={closeUndoToast}
+        />
+      )}
+
       {/* Floating Action Button (Mobile Only) */}
       <div className="md:hidden fixed bottom-6 right-6 z-40 print:hidden">
         <button 
@@ -346,10 +1033,54 @@ const App: React.FC = () => {
       </div>
 
       {/* Modal Transaction Form */}
-      {showAddModal && (
+      {(showAddModal || editingTransaction) && (
         <TransactionForm 
           accounts={accounts} expenseCategories={expenseCategories} incomeCategories={incomeCategories}
-          onAddTransaction={addTransaction} onClose={() => setShowAddModal(false)} 
+          categories={categories} categoryRules={categoryRules}
+          initialData={editingTransaction} isOnline={isOnline}
+          onAddTransaction={addTransaction} onUpdateTransaction={updateTransaction}
+          onClose={() => { setShowAddModal(false); setEditingTransaction(null); }} 
+        />
+      )}
+
+      {/* Statement Import Wizard */}
+      {showStatementImport && (
+        <StatementImport 
+          accounts={accounts} transactions={transactions} categoryRules={categoryRules} categories={categories}
+          expenseCategories={expenseCategories} incomeCategories={incomeCategories}
+          onImport={appendTransactions} onClose={() => setShowStatementImport(false)} 
+        />
+      )}
+
+      {/* Sync Conflicts */}
+      {showSyncConflicts && syncConflicts.length > 0 && can(role, 'EDIT_TRANSACTION') && (
+        <SyncConflictResolver
+          conflicts={syncConflicts} accounts={accounts} categories={categories}
+          onResolve={resolveSyncConflict} onClose={() => setShowSyncConflicts(false)}
+        />
+      )}
+
+      {showWorkspaceManager && can(role, 'MANAGE_WORKSPACES') && (
+        <WorkspaceManager
+          activeId={workspace.id}
+          onSwitch={switchWorkspace}
+          onChanged={() => setWorkspace(getActiveWorkspace())}
+          onClose={() => setShowWorkspaceManager(false)}
+        />
+      )}
+
+      {pendingRestore && (
+        <RestorePreview
+          fileName={pendingRestore.fileName} backup={pendingRestore.backup} current={currentData} workspaceName={workspace.name}
+          onRestore={applyRestore} onClose={() => setPendingRestore(null)}
+        />
+      )}
+
+      {/* Discarding deletes transactions, so the review waits for someone allowed to do that */}
+      {recurringReview && can(role, 'DELETE_TRANSACTION') && (
+        <RecurringReview 
+          posted={recurringReview.posted} accounts={accounts} categories={categories}
+          onDiscard={discardPostedOccurrence} onClose={() => setRecurringReview(null)} 
         />
       )}
 
@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
-import { Transaction } from '../types';
-import { getFinancialAdvice } from '../services/geminiService';
-import { Sparkles, Loader2, Lightbulb, TrendingUp } from 'lucide-react';
+import { CategoryRecord, Transaction } from '../types';
+import { getFinancialAdvice, OfflineError } from '../services/geminiService';
+import { Sparkles, Loader2, Lightbulb, TrendingUp, WifiOff } from 'lucide-react';
 
 interface AIAdvisorProps {
   transactions: Transaction[];
+  categories: CategoryRecord[];
+  isOnline: boolean;
 }
 
-export const AIAdvisor: React.FC<AIAdvisorProps> = ({ transactions }) => {
+export const AIAdvisor: React.FC<AIAdvisorProps> = ({ transactions, categories, isOnline }) => {
   const [loading, setLoading] = useState(false);
   const [advice, setAdvice] = useState<{ analysis: string; tips: string[] } | null>(null);
 
@@ -18,10 +20,10 @@ export const AIAdvisor: React.FC<AIAdvisorProps> = ({ transactions }) => {
     }
     setLoading(true);
     try {
-      const result = await getFinancialAdvice(transactions);
+      const result = await getFinancialAdvice(transactions, categories);
       setAdvice(result);
     } catch (e) {
-      alert("Gagal menghubungi konsultan AI. Coba lagi nanti.");
+      alert(e instanceof OfflineError ? e.message : "Gagal menghubungi konsultan AI. Coba lagi nanti.");
     } finally {
       setLoading(false);
     }
@@ -48,10 +50,16 @@ export const AIAdvisor: React.FC<AIAdvisorProps> = ({ transactions }) => {
           </p>
           <button 
             onClick={handleGenerateAdvice}
-            className="bg-indigo-600 text-white px-8 py-3 rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 active:scale-95"
+            disabled={!isOnline}
+            className="bg-indigo-600 text-white px-8 py-3 rounded-xl font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Minta Saran Sekarang
           </button>
+          {!isOnline && (
+            <p className="mt-4 text-xs text-slate-400 flex items-center justify-center gap-1.5">
+              <WifiOff size={14} /> Konsultan AI membutuhkan koneksi internet.
+            </p>
+          )}
         </div>
       )}
 
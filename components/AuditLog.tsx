@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditAction, AuditEntity, AuditEntry, AuditSource } from '../types';
+import { ScrollText, Search, XCircle, ChevronDown, Loader2 } from 'lucide-react';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, AUDIT_SOURCE_LABELS, loadAuditLog, matchesAuditSearch } from '../services/auditService';
+
+const PAGE_SIZE = 50;
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  CREATE: 'bg-emerald-100 text-emerald-700',
+  UPDATE: 'bg-blue-100 text-blue-700',
+  DELETE: 'bg-rose-100 text-rose-700',
+  CLEAR_ALL: 'bg-rose-600 text-white',
+  IMPORT: 'bg-indigo-100 text-indigo-700',
+  RESTORE: 'bg-amber-100 text-amber-700',
+  PURGE: 'bg-slate-700 text-white',
+  RESET: 'bg-rose-600 text-white',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+const Snapshot: React.FC<{ label: string; value: unknown }> = ({ label, value }) => (
+  <div className="min-w-0 flex-1">
+    <p className="text-[10px] font-bold uppercase text-slate-400 mb-1">{label}</p>
+    <pre className="text-[11px] bg-white border border-slate-100 rounded-lg p-2 overflow-auto max-h-60 whitespace-pre-wrap break-all text-slate-600">
+      {value === undefined ? '-' : JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+// Read-only view of the audit log, newest first
+export const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [entity, setEntity] = useState<AuditEntity | 'ALL'>('ALL');
+  const [source, setSource] = useState<AuditSource | 'ALL'>('ALL');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAuditLog().then(setEntries).catch(e => {
+      console.error("Failed to load audit log", e);
+      alert("Gagal memuat log audit.");
+      setEntries([]);
+    });
+  }, []);
+
+  const filtered = useMemo(() => (entries || []).filter(entry =>
+    (entity === 'ALL' || entry.entity === entity) &&
+    (source === 'ALL' || entry.source === source) &&
+    matchesAuditSearch(entry, search)
+  ), [entries, entity, source, search]);
+
+  useEffect(() => setLimit(PAGE_SIZE), [entity, source, search]);
+
+  if (!entries) {
+    return (
+      <div className="p-12 flex justify-center text-slate-400">
+        <Loader2 className="animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+          <input
+            type="text"
+            placeholder="Cari nama, nominal, pengguna..."
+            className="w-full pl-9 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+          />
+          {search && (
+            <button onClick={() => setSearch('')} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600">
+              <XCircle size={14} fill="currentColor" className="text-slate-200" />
+            </button>
+          )}
+        </div>
+        <select
+          className="p-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          value={entity}
+          onChange={e => setEntity(e.target.value as AuditEntity | 'ALL')}
+        >
+          <option value="ALL">Semua Data</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(key => <option key={key} value={key}>{AUDIT_ENTITY_LABELS[key]}</option>)}
+        </select>
+        <select
+          className="p-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          value={source}
+          onChange={e => setSource(e.target.value as AuditSource | 'ALL')}
+        >
+          <option value="ALL">Semua Sumber</option>
+          {(Object.keys(AUDIT_SOURCE_LABELS) as AuditSource[]).map(key => <option key={key} value={key}>{AUDIT_SOURCE_LABELS[key]}</option>)}
+        </select>
+      </div>
+
+      {filtered.length === 0 && (
+        <div className="text-center py-8 text-slate-400 text-sm">
+          <ScrollText size={32} className="mx-auto mb-2 opacity-40" />
+          {entries.length === 0 ? 'Belum ada perubahan yang tercatat.' : 'Tidak ada catatan yang cocok.'}
+        </div>
+      )}
+
+      <div className="grid gap-2">
+        {filtered.slice(0, limit).map(entry => (
+          <div key={entry.id} className="rounded-xl border border-slate-100 bg-slate-50">
+            <button
+              onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+              className="w-full flex items-start justify-between gap-3 p-3 text-left"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                  <span className="text-xs font-bold text-slate-500">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+                </div>
+                <p className="text-sm font-medium text-slate-700 truncate">{entry.summary}</p>
+                <p className="text-xs text-slate-400">{formatTime(entry.at)} • {entry.actor} • {AUDIT_SOURCE_LABELS[entry.source]}</p>
+              </div>
+              <ChevronDown size={16} className={`text-slate-400 flex-shrink-0 mt-1 transition-transform ${expandedId === entry.id ? 'rotate-180' : ''}`} />
+            </button>
+            {expandedId === entry.id && (
+              <div className="flex flex-col md:flex-row gap-3 px-3 pb-3">
+                <Snapshot label="Sebelum" value={entry.before} />
+                <Snapshot label="Sesudah" value={entry.after} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {filtered.length > limit && (
+        <button
+          onClick={() => setLimit(limit + PAGE_SIZE)}
+          className="w-full py-2.5 bg-slate-100 text-slate-700 rounded-lg font-bold hover:bg-slate-200 transition-colors text-sm"
+        >
+          Tampilkan lebih banyak ({filtered.length - limit} lagi)
+        </button>
+      )}
+    </div>
+  );
+};
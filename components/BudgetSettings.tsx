@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { Budget, CategoryRecord } from '../types';
+import { Target, Save, ChevronLeft, ChevronRight } from 'lucide-react';
+import { getEffectiveBudget, monthKey, shiftMonth } from '../services/budgetService';
+import { getCategoryName } from '../services/categoryService';
+
+interface BudgetSettingsProps {
+  budgets: Budget[];
+  setBudgets: (budgets: Budget[]) => void;
+  categories: CategoryRecord[];
+  expenseCategories: string[]; // Ids
+}
+
+const formatMonth = (month: string) =>
+  new Date(month + '-01T00:00:00').toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+
+export const BudgetSettings: React.FC<BudgetSettingsProps> = ({ budgets, setBudgets, categories, expenseCategories }) => {
+  const [month, setMonth] = useState(monthKey(new Date()));
+  const [draft, setDraft] = useState<Record<string, { amount: string; rollover: boolean }>>({});
+
+  // Load the limits in effect for the selected month into the editable draft
+  useEffect(() => {
+    const next: Record<string, { amount: string; rollover: boolean }> = {};
+    expenseCategories.forEach(cat => {
+      const budget = getEffectiveBudget(budgets, cat, month);
+      next[cat] = { amount: budget && budget.amount > 0 ? String(budget.amount) : '', rollover: budget?.rollover || false };
+    });
+    setDraft(next);
+  }, [budgets, expenseCategories, month]);
+
+  const updateDraft = (cat: string, changes: Partial<{ amount: string; rollover: boolean }>) => {
+    setDraft(prev => ({ ...prev, [cat]: { ...prev[cat], ...changes } }));
+  };
+
+  // Only categories whose limit differs from what is already in effect get a new entry for this month
+  const saveMonth = () => {
+    let next = [...budgets];
+    let changed = 0;
+
+    for (const cat of expenseCategories) {
+      const row = draft[cat];
+      if (!row) continue;
+      const amount = row.amount === '' ? 0 : Number(row.amount);
+      if (isNaN(amount) || amount < 0) {
+        alert(`Nominal anggaran untuk ${getCategoryName(categories, cat)} tidak valid.`);
+        return;
+      }
+      const current = getEffectiveBudget(budgets, cat, month);
+      if ((current?.amount || 0) === amount && (current?.rollover || false) === row.rollover) continue;
+      if (!current && amount === 0) continue;
+
+      next = next.filter(b => !(b.categoryId === cat && b.month === month));
+      next.push({ id: `${Date.now()}-${cat}`, month, categoryId: cat, amount, rollover: row.rollover });
+      changed++;
+    }
+
+    setBudgets(next);
+    alert(changed > 0 ? `Anggaran ${formatMonth(month)} disimpan.` : "Tidak ada perubahan.");
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between bg-slate-50 border border-slate-200 rounded-xl px-2 py-1.5">
+        <button onClick={() => setMonth(shiftMonth(month, -1))} className="p-2 hover:bg-white rounded-full text-slate-500">
+          <ChevronLeft size={18} />
+        </button>
+        <span className="font-bold text-slate-700 text-sm">{formatMonth(month)}</span>
+        <button onClick={() => setMonth(shiftMonth(month, 1))} className="p-2 hover:bg-white rounded-full text-slate-500">
+          <ChevronRight size={18} />
+        </button>
+      </div>
+
+      <div className="grid gap-2">
+        {expenseCategories.map(cat => {
+          const effective = getEffectiveBudget(budgets, cat, month);
+          const inherited = effective && effective.month !== month && effective.amount > 0;
+          return (
+            <div key={cat} className="flex items-center gap-3 p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-sm text-slate-700 truncate">{getCategoryName(categories, cat)}</p>
+                {inherited && <p className="text-[10px] text-slate-400">Berlaku sejak {formatMonth(effective.month)}</p>}
+              </div>
+              <label className="flex items-center gap-1 text-xs text-slate-500 whitespace-nowrap" title="Sisa anggaran dibawa ke bulan berikutnya">
+                <input
+                  type="checkbox"
+                  checked={draft[cat]?.rollover || false}
+                  onChange={e => updateDraft(cat, { rollover: e.target.checked })}
+                />
+                Rollover
+              </label>
+              <input
+                type="number"
+                min="0"
+                placeholder="Tanpa batas"
+                className="w-36 p-2 bg-white border border-slate-200 rounded-lg text-sm text-right outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-slate-700"
+                value={draft[cat]?.amount ?? ''}
+                onChange={e => updateDraft(cat, { amount: e.target.value })}
+              />
+            </div>
+          );
+        })}
+        {expenseCategories.length === 0 && (
+          <div className="text-center py-8 text-slate-400 text-sm">
+            <Target size={32} className="mx-auto mb-2 opacity-40" />
+            Tambahkan kategori pengeluaran terlebih dahulu.
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-400">
+        Anggaran berlaku untuk bulan ini dan bulan-bulan berikutnya sampai diubah lagi. Kosongkan untuk menghapus batas.
+      </p>
+
+      <button
+        onClick={saveMonth}
+        className="w-full bg-indigo-600 text-white py-3.5 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 active:scale-[0.98]"
+      >
+        <Save size={18} /> Simpan Anggaran
+      </button>
+    </div>
+  );
+};
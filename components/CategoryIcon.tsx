@@ -0,0 +1,45 @@
+import React from 'react';
+import { Tag, ShoppingCart, Utensils, Car, Zap, Package, Users, Megaphone, House, Wallet, TrendingUp, Gift, Briefcase, Wrench, HeartPulse, Receipt, Landmark, Coffee, Smartphone, Truck } from 'lucide-react';
+
+// Icons a category can pick, stored by key so the books don't depend on the icon library
+export const CATEGORY_ICONS: Record<string, React.FC<{ size?: number }>> = {
+  'tag': Tag,
+  'shopping-cart': ShoppingCart,
+  'utensils': Utensils,
+  'coffee': Coffee,
+  'car': Car,
+  'truck': Truck,
+  'zap': Zap,
+  'package': Package,
+  'users': Users,
+  'megaphone': Megaphone,
+  'house': House,
+  'wallet': Wallet,
+  'trending-up': TrendingUp,
+  'gift': Gift,
+  'briefcase': Briefcase,
+  'wrench': Wrench,
+  'heart-pulse': HeartPulse,
+  'receipt': Receipt,
+  'landmark': Landmark,
+  'smartphone': Smartphone,
+};
+
+interface CategoryIconProps {
+  icon: string;
+  color: string;
+  size?: number;
+}
+
+// The icon on a circle tinted with the category color
+export const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, color, size = 12 }) => {
+  const Icon = CATEGORY_ICONS[icon] || Tag;
+  return (
+    <span
+      className="inline-flex items-center justify-center rounded-full flex-shrink-0"
+      style={{ backgroundColor: `${color}26`, color, width: size + 10, height: size + 10 }}
+    >
+      <Icon size={size} />
+    </span>
+  );
+};
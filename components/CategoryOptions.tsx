@@ -0,0 +1,25 @@
+import React from 'react';
+import { CategoryRecord } from '../types';
+import { ParentMap, buildCategoryTree, flattenCategoryTree, getCategoryName } from '../services/categoryService';
+
+interface CategoryOptionsProps {
+  categoryIds: string[];
+  records: CategoryRecord[]; // For the names
+  parentMap: ParentMap;
+}
+
+// <option>s for a category <select>, valued by id: every top-level category with subcategories
+// becomes a group holding itself and everything below it, indented by depth
+export const CategoryOptions: React.FC<CategoryOptionsProps> = ({ categoryIds, records, parentMap }) => (
+  <>
+    {buildCategoryTree(categoryIds, parentMap).map(root => root.children.length === 0 ? (
+      <option key={root.id} value={root.id}>{getCategoryName(records, root.id)}</option>
+    ) : (
+      <optgroup key={root.id} label={getCategoryName(records, root.id)}>
+        {flattenCategoryTree([root]).map(node => (
+          <option key={node.id} value={node.id}>{'\u00A0\u00A0\u00A0'.repeat(node.depth)}{getCategoryName(records, node.id)}</option>
+        ))}
+      </optgroup>
+    ))}
+  </>
+);
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { CategoryRule, Account, Transaction, TransactionType, CategoryRecord } from '../types';
+import { Wand2, Plus, Trash2, PlusCircle, Pause, Play, ChevronUp, ChevronDown, FlaskConical, X } from 'lucide-react';
+import { describeRule, testRuleAgainstHistory, RuleTestResult } from '../services/categoryRuleService';
+import { getCategoryName } from '../services/categoryService';
+
+interface CategoryRuleSettingsProps {
+  rules: CategoryRule[];
+  setRules: (rules: CategoryRule[]) => void;
+  transactions: Transaction[];
+  accounts: Account[];
+  categories: CategoryRecord[];
+  expenseCategories: string[]; // Ids
+  incomeCategories: string[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700";
+
+export const CategoryRuleSettings: React.FC<CategoryRuleSettingsProps> = ({
+  rules, setRules, transactions, accounts, categories, expenseCategories, incomeCategories
+}) => {
+  const emptyForm = {
+    name: '',
+    merchantContains: '',
+    descriptionContains: '',
+    minAmount: '',
+    maxAmount: '',
+    type: TransactionType.EXPENSE as TransactionType.INCOME | TransactionType.EXPENSE,
+    accountId: '',
+    categoryId: expenseCategories[0] || '',
+    setAccountId: ''
+  };
+  const [form, setForm] = useState(emptyForm);
+  const [test, setTest] = useState<{ label: string; categoryId: string; result: RuleTestResult } | null>(null);
+
+  const categoryIds = form.type === TransactionType.EXPENSE ? expenseCategories : incomeCategories;
+
+  const changeType = (type: TransactionType.INCOME | TransactionType.EXPENSE) => {
+    const list = type === TransactionType.EXPENSE ? expenseCategories : incomeCategories;
+    setForm({ ...form, type, categoryId: list[0] || '' });
+  };
+
+  const buildRule = (): CategoryRule | null => {
+    const minAmount = form.minAmount === '' ? undefined : Number(form.minAmount);
+    const maxAmount = form.maxAmount === '' ? undefined : Number(form.maxAmount);
+    if (!form.merchantContains.trim() && !form.descriptionContains.trim() && minAmount === undefined && maxAmount === undefined && !form.accountId) {
+      alert("Isi minimal satu kondisi (merchant, catatan, nominal, atau akun).");
+      return null;
+    }
+    if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+      alert("Nominal minimum tidak boleh lebih besar dari maksimum.");
+      return null;
+    }
+    if (!form.categoryId) {
+      alert("Pilih kategori terlebih dahulu.");
+      return null;
+    }
+    return {
+      id: Date.now().toString(),
+      name: form.name.trim() || form.merchantContains.trim() || form.descriptionContains.trim() || getCategoryName(categories, form.categoryId),
+      conditions: {
+        merchantContains: form.merchantContains.trim() || undefined,
+        descriptionContains: form.descriptionContains.trim() || undefined,
+        minAmount,
+        maxAmount,
+        type: form.type,
+        accountId: form.accountId || undefined,
+      },
+      categoryId: form.categoryId,
+      setAccountId: form.setAccountId || undefined,
+      active: true
+    };
+  };
+
+  const addRule = () => {
+    const rule = buildRule();
+    if (!rule) return;
+    setRules([...rules, rule]);
+    setForm(emptyForm);
+    setTest(null);
+  };
+
+  const runTest = (rule: CategoryRule | null) => {
+    if (!rule) return;
+    setTest({ label: rule.name, categoryId: rule.categoryId, result: testRuleAgainstHistory(rule, transactions) });
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const toggleRule = (id: string) => {
+    setRules(rules.map(r => r.id === id ? { ...r, active: !r.active } : r));
+  };
+
+  const removeRule = (id: string) => {
+    if (confirm("Hapus aturan ini? Kategori transaksi yang sudah tercatat tidak berubah.")) {
+      setRules(rules.filter(r => r.id !== id));
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="grid gap-3">
+        {rules.length === 0 && (
+          <div className="text-center py-8 text-slate-400 text-sm">
+            <Wand2 size={32} className="mx-auto mb-2 opacity-40" />
+            Belum ada aturan. Contoh: merchant mengandung "PLN" → Listrik & Air.
+          </div>
+        )}
+        {rules.map((rule, index) => (
+          <div key={rule.id} className={`flex justify-between items-center p-3 rounded-xl border border-slate-100 bg-slate-50 transition-all hover:shadow-sm ${rule.active ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-2 min-w-0">
+              <div className="flex flex-col">
+                <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Naikkan prioritas">
+                  <ChevronUp size={16} />
+                </button>
+                <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Turunkan prioritas">
+                  <ChevronDown size={16} />
+                </button>
+              </div>
+              <div className="min-w-0">
+                <p className="font-bold text-slate-700 truncate"><span className="text-slate-400 mr-1">#{index + 1}</span>{rule.name}</p>
+                <p className="text-xs text-slate-500">{describeRule(rule, accounts, categories)}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => runTest(rule)}
+                className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                title="Uji ke Riwayat"
+              >
+                <FlaskConical size={16} />
+              </button>
+              <button
+                onClick={() => toggleRule(rule.id)}
+                className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                title={rule.active ? 'Nonaktifkan' : 'Aktifkan'}
+              >
+                {rule.active ? <Pause size={16} /> : <Play size={16} />}
+              </button>
+              <button
+                onClick={() => removeRule(rule.id)}
+                className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                title="Hapus Aturan"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {test && (
+        <div className="p-4 rounded-2xl border border-indigo-100 bg-indigo-50/50 space-y-2 animate-fade-in">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="text-sm font-bold text-slate-800">Hasil uji: {test.label}</p>
+              <p className="text-xs text-slate-500">
+                {test.result.matches.length} transaksi cocok, {test.result.changed} akan berpindah ke {getCategoryName(categories, test.categoryId)}
+              </p>
+            </div>
+            <button onClick={() => setTest(null)} className="p-1 hover:bg-white rounded-full text-slate-400"><X size={16} /></button>
+          </div>
+          <div className="max-h-48 overflow-y-auto divide-y divide-indigo-100">
+            {test.result.matches.slice(0, 20).map(t => (
+              <div key={t.id} className="flex justify-between py-1.5 text-xs">
+                <span className="text-slate-600 truncate pr-2">
+                  {new Date(t.date).toLocaleDateString('id-ID')} • {t.merchant || t.description} • <span className={t.categoryId === test.categoryId ? 'text-slate-400' : 'text-amber-600 font-bold'}>{getCategoryName(categories, t.categoryId)}</span>
+                </span>
+                <span className="font-bold text-slate-700 whitespace-nowrap">{formatCurrency(t.amount)}</span>
+              </div>
+            ))}
+            {test.result.matches.length > 20 && <p className="text-xs text-slate-400 py-1.5">…dan {test.result.matches.length - 20} lainnya</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="pt-6 mt-4 border-t border-slate-100">
+        <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <PlusCircle size={18} className="text-indigo-600" /> Tambah Aturan Baru
+        </h4>
+
+        <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 space-y-4">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            <button
+              onClick={() => changeType(TransactionType.EXPENSE)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${form.type === TransactionType.EXPENSE ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              Pengeluaran
+            </button>
+            <button
+              onClick={() => changeType(TransactionType.INCOME)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${form.type === TransactionType.INCOME ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              Pemasukan
+            </button>
+          </div>
+
+          <p className="text-xs font-bold text-slate-500 uppercase">Jika</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Merchant Mengandung</label>
+              <input type="text" placeholder="Contoh: PLN" className={inputClass} value={form.merchantContains} onChange={e => setForm({ ...form, merchantContains: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Catatan Mengandung</label>
+              <input type="text" placeholder="Contoh: token listrik" className={inputClass} value={form.descriptionContains} onChange={e => setForm({ ...form, descriptionContains: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nominal Min</label>
+              <input type="number" min="0" placeholder="Opsional" className={inputClass} value={form.minAmount} onChange={e => setForm({ ...form, minAmount: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nominal Maks</label>
+              <input type="number" min="0" placeholder="Opsional" className={inputClass} value={form.maxAmount} onChange={e => setForm({ ...form, maxAmount: e.target.value })} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Dari Akun</label>
+              <select className={inputClass} value={form.accountId} onChange={e => setForm({ ...form, accountId: e.target.value })}>
+                <option value="">Semua Akun</option>
+                {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs font-bold text-slate-500 uppercase">Maka</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Kategori</label>
+              <select className={inputClass} value={form.categoryId} onChange={e => setForm({ ...form, categoryId: e.target.value })}>
+                {categoryIds.map(id => <option key={id} value={id}>{getCategoryName(categories, id)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Pindahkan ke Akun</label>
+              <select className={inputClass} value={form.setAccountId} onChange={e => setForm({ ...form, setAccountId: e.target.value })}>
+                <option value="">Tidak diubah</option>
+                {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nama Aturan (Opsional)</label>
+              <input type="text" placeholder="Contoh: Tagihan Listrik" className={inputClass} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            Aturan dijalankan dari urutan teratas. Aturan pertama yang cocok dipakai saat mengisi form, impor mutasi, dan scan struk.
+          </p>
+
+          <div className="flex gap-3">
+            <button
+              onClick={() => runTest(buildRule())}
+              className="px-4 py-3.5 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-slate-100 transition-all"
+            >
+              <FlaskConical size={18} /> Uji
+            </button>
+            <button
+              onClick={addRule}
+              className="flex-1 bg-indigo-600 text-white py-3.5 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 active:scale-[0.98]"
+            >
+              <Plus size={18} /> Simpan Aturan
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { CategoryRecord, CategoryType } from '../types';
+import { GripVertical, CornerDownRight, X, Pencil, Merge, Check } from 'lucide-react';
+import {
+  ParentMap, CategoryStyle, buildCategoryTree, flattenCategoryTree, canReparent, getCategoryColor, getCategoryIcon, getCategoryName,
+  getAccountingClassMap, resolveAccountingClass, CATEGORY_COLORS, ACCOUNTING_CLASSES, ACCOUNTING_CLASS_LABELS,
+} from '../services/categoryService';
+import { CategoryIcon, CATEGORY_ICONS } from './CategoryIcon';
+
+interface CategoryTreeEditorProps {
+  type: CategoryType;
+  categoryIds: string[];
+  records: CategoryRecord[]; // For name, color, icon and class
+  parentMap: ParentMap;
+  onMove: (id: string, parentId: string | null) => void; // null moves it to the top level
+  onRemove: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onMerge: (id: string, targetId: string) => void;
+  onUpdate: (id: string, patch: CategoryStyle) => void;
+}
+
+// Row that is being renamed or merged, the other rows keep their usual controls
+type RowAction = { id: string; mode: 'RENAME' | 'MERGE'; value: string };
+
+// Drag a category onto another one to nest it there. The parent picker does the same on touch screens,
+// where dragging isn't available. Renaming and merging happen in place on the row, the icon opens
+// color, icon and accounting class below it.
+export const CategoryTreeEditor: React.FC<CategoryTreeEditorProps> = ({ type, categoryIds, records, parentMap, onMove, onRemove, onRename, onMerge, onUpdate }) => {
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [action, setAction] = useState<RowAction | null>(null);
+  const [styling, setStyling] = useState<string | null>(null);
+
+  const classes = useMemo(() => getAccountingClassMap(records, type), [records, type]);
+
+  const rows = useMemo(() => flattenCategoryTree(buildCategoryTree(categoryIds, parentMap)), [categoryIds, parentMap]);
+
+  const nameOf = (id: string) => getCategoryName(records, id);
+
+  const tone = type === 'EXPENSE'
+    ? { row: 'bg-rose-50 text-rose-700 border-rose-100', target: 'ring-2 ring-rose-400' }
+    : { row: 'bg-emerald-50 text-emerald-700 border-emerald-100', target: 'ring-2 ring-emerald-400' };
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const drop = (parent: string | null) => {
+    if (dragged && canReparent(parentMap, dragged, parent) && (parentMap.get(dragged) ?? null) !== parent) onMove(dragged, parent);
+    endDrag();
+  };
+
+  // Dragging over a row only shows it as a target when the move is allowed
+  const allowDrop = (e: React.DragEvent, parent: string | null) => {
+    if (!dragged || dragged === parent || !canReparent(parentMap, dragged, parent)) return;
+    e.preventDefault();
+    setDropTarget(parent ?? '');
+  };
+
+  const submitAction = () => {
+    if (!action) return;
+    if (action.mode === 'RENAME' && action.value.trim() && action.value.trim() !== nameOf(action.id)) onRename(action.id, action.value.trim());
+    if (action.mode === 'MERGE' && action.value) onMerge(action.id, action.value);
+    setAction(null);
+  };
+
+  return (
+    <div className="space-y-1.5 mb-6 min-h-[100px]">
+      {dragged && parentMap.has(dragged) && (
+        <div
+          onDragOver={e => allowDrop(e, null)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={() => drop(null)}
+          className={`p-2 rounded-lg border-2 border-dashed border-slate-300 text-center text-xs font-bold text-slate-400 ${dropTarget === '' ? tone.target : ''}`}
+        >
+          Lepas di sini untuk menjadikan kategori utama
+        </div>
+      )}
+
+      {rows.map(node => (
+        <React.Fragment key={node.id}>
+          <div
+            draggable={action?.id !== node.id}
+            onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; setDragged(node.id); }}
+            onDragEnd={endDrag}
+            onDragOver={e => allowDrop(e, node.id)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={() => drop(node.id)}
+            style={{ marginLeft: node.depth * 20 }}
+            className={`flex items-center gap-2 pl-2 pr-2 py-1.5 rounded-lg border text-sm font-medium cursor-grab ${tone.row} ${dropTarget === node.id ? tone.target : ''} ${dragged === node.id ? 'opacity-50' : ''}`}
+          >
+            <GripVertical size={14} className="opacity-40 flex-shrink-0" />
+            {node.depth > 0 && <CornerDownRight size={14} className="opacity-50 flex-shrink-0" />}
+            <button onClick={() => setStyling(styling === node.id ? null : node.id)} className="flex-shrink-0" title="Warna, ikon & klasifikasi">
+              <CategoryIcon icon={getCategoryIcon(records, node.id)} color={getCategoryColor(records, node.id)} />
+            </button>
+            {action?.id === node.id ? (
+              <>
+                {action.mode === 'RENAME' ? (
+                  <input
+                    className="flex-1 min-w-0 bg-white border border-black/10 rounded px-2 py-1 text-sm text-slate-700 outline-none"
+                    value={action.value}
+                    onChange={e => setAction({ ...action, value: e.target.value })}
+                    onKeyDown={e => { if (e.key === 'Enter') submitAction(); if (e.key === 'Escape') setAction(null); }}
+                    autoFocus
+                  />
+                ) : (
+                  <select
+                    className="flex-1 min-w-0 bg-white border border-black/10 rounded p-1 text-xs text-slate-600 outline-none"
+                    value={action.value}
+                    onChange={e => setAction({ ...action, value: e.target.value })}
+                    autoFocus
+                  >
+                    <option value="">Gabungkan {nameOf(node.id)} ke...</option>
+                    {categoryIds.filter(c => c !== node.id).map(c => <option key={c} value={c}>{nameOf(c)}</option>)}
+                  </select>
+                )}
+                <button onClick={submitAction} className="hover:bg-black/5 rounded p-0.5 transition-colors flex-shrink-0" title="Simpan">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setAction(null)} className="hover:bg-black/5 rounded p-0.5 transition-colors flex-shrink-0" title="Batal">
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 min-w-0 truncate">{nameOf(node.id)}</span>
+                <select
+                  className="max-w-[40%] bg-white/70 border border-black/5 rounded p-1 text-xs text-slate-600 outline-none"
+                  value={parentMap.get(node.id) ?? ''}
+                  onChange={e => onMove(node.id, e.target.value || null)}
+                  title="Induk kategori"
+                >
+                  <option value="">Kategori utama</option>
+                  {categoryIds.filter(c => c !== node.id && canReparent(parentMap, node.id, c)).map(c => (
+                    <option key={c} value={c}>Di bawah {nameOf(c)}</option>
+                  ))}
+                </select>
+                <button onClick={() => setAction({ id: node.id, mode: 'RENAME', value: nameOf(node.id) })} className="hover:bg-black/5 rounded p-0.5 transition-colors flex-shrink-0" title="Ganti nama">
+                  <Pencil size={14} />
+                </button>
+                {categoryIds.length > 1 && (
+                  <button onClick={() => setAction({ id: node.id, mode: 'MERGE', value: '' })} className="hover:bg-black/5 rounded p-0.5 transition-colors flex-shrink-0" title="Gabungkan ke kategori lain">
+                    <Merge size={14} />
+                  </button>
+                )}
+                <button onClick={() => onRemove(node.id)} className="hover:bg-black/5 rounded p-0.5 transition-colors flex-shrink-0" title="Hapus">
+                  <X size={14} />
+                </button>
+              </>
+            )}
+          </div>
+          {styling === node.id && (
+            <div style={{ marginLeft: node.depth * 20 }} className="p-3 rounded-lg border border-slate-200 bg-white space-y-3">
+              <div className="flex flex-wrap gap-1.5">
+                {CATEGORY_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => onUpdate(node.id, { color })}
+                    className={`w-6 h-6 rounded-full ${getCategoryColor(records, node.id) === color ? 'ring-2 ring-offset-1 ring-slate-400' : ''}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                  <button
+                    key={key}
+                    onClick={() => onUpdate(node.id, { icon: key })}
+                    className={`p-1.5 rounded-md text-slate-500 hover:bg-slate-100 ${getCategoryIcon(records, node.id) === key ? 'bg-slate-100 text-slate-800' : ''}`}
+                  >
+                    <Icon size={16} />
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-500">
+                Laba Rugi
+                <select
+                  className="flex-1 bg-slate-50 border border-slate-200 rounded p-1.5 text-xs text-slate-700 outline-none"
+                  value={records.find(c => c.id === node.id)?.accountingClass ?? ''}
+                  onChange={e => onUpdate(node.id, { accountingClass: (e.target.value || undefined) as CategoryStyle['accountingClass'] })}
+                >
+                  <option value="">Otomatis ({ACCOUNTING_CLASS_LABELS[resolveAccountingClass(classes, type, node.id)]})</option>
+                  {ACCOUNTING_CLASSES[type].map(c => <option key={c} value={c}>{ACCOUNTING_CLASS_LABELS[c]}</option>)}
+                </select>
+              </label>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
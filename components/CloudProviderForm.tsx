@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { WebDavConfig, S3Config } from '../types';
+import { loadValue, saveValue } from '../services/storageRepository';
+import { createCloudProvider, isWebDavConfigComplete, isS3ConfigComplete } from '../services/cloudProviders';
+import { PlugZap, RefreshCw } from 'lucide-react';
+
+interface CloudProviderFormProps {
+  providerId: 'WEBDAV' | 'S3';
+  onSaved: (complete: boolean) => void;
+}
+
+const EMPTY_WEBDAV: WebDavConfig = { url: '', username: '', password: '' };
+const EMPTY_S3: S3Config = { endpoint: '', region: '', bucket: '', accessKeyId: '', secretAccessKey: '', prefix: '' };
+
+const WEBDAV_FIELDS: { key: keyof WebDavConfig; label: string; placeholder?: string; secret?: boolean }[] = [
+  { key: 'url', label: 'URL WebDAV', placeholder: 'https://cloud.example.com/remote.php/dav/files/nama' },
+  { key: 'username', label: 'Username' },
+  { key: 'password', label: 'Password / App Password', secret: true },
+];
+
+const S3_FIELDS: { key: keyof S3Config; label: string; placeholder?: string; secret?: boolean }[] = [
+  { key: 'endpoint', label: 'Endpoint', placeholder: 'https://minio.example.com' },
+  { key: 'region', label: 'Region', placeholder: 'us-east-1' },
+  { key: 'bucket', label: 'Bucket' },
+  { key: 'prefix', label: 'Folder (opsional)', placeholder: 'letsfinance' },
+  { key: 'accessKeyId', label: 'Access Key' },
+  { key: 'secretAccessKey', label: 'Secret Key', secret: true },
+];
+
+export const CloudProviderForm: React.FC<CloudProviderFormProps> = ({ providerId, onSaved }) => {
+  const [webdav, setWebdav] = useState<WebDavConfig>(EMPTY_WEBDAV);
+  const [s3, setS3] = useState<S3Config>(EMPTY_S3);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    loadValue('webdavConfig').then(saved => { if (saved) setWebdav(saved); });
+    loadValue('s3Config').then(saved => { if (saved) setS3(saved); });
+  }, []);
+
+  const isWebDav = providerId === 'WEBDAV';
+  const fields = isWebDav ? WEBDAV_FIELDS : S3_FIELDS;
+  const values: Record<string, string> = isWebDav ? { ...webdav } : { ...s3 };
+  const isComplete = isWebDav ? isWebDavConfigComplete(webdav) : isS3ConfigComplete(s3);
+
+  const setField = (key: string, value: string) => {
+    if (isWebDav) setWebdav({ ...webdav, [key]: value });
+    else setS3({ ...s3, [key]: value });
+  };
+
+  const save = async () => {
+    if (isWebDav) await saveValue('webdavConfig', { ...webdav, url: webdav.url.trim() });
+    else await saveValue('s3Config', { ...s3, endpoint: s3.endpoint.trim(), bucket: s3.bucket.trim() });
+    onSaved(isComplete);
+    alert(isComplete ? "Konfigurasi disimpan." : "Konfigurasi disimpan, tetapi belum lengkap.");
+  };
+
+  // Tests what is in the form, so a configuration can be checked before saving it
+  const testConnection = async () => {
+    const provider = createCloudProvider(providerId, { webdav, s3 });
+    if (!provider) { alert("Lengkapi konfigurasi terlebih dahulu."); return; }
+    setIsTesting(true);
+    try {
+      await provider.testConnection();
+      alert(`Koneksi ${provider.label} berhasil.`);
+    } catch (err) {
+      console.error("Connection test failed", err);
+      // fetch only says "Failed to fetch" when CORS blocks the request or the host is unreachable
+      alert(err instanceof TypeError
+        ? "Server tidak dapat dihubungi. Periksa URL dan pastikan server mengizinkan CORS dari aplikasi ini."
+        : (err as Error).message);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 text-sm space-y-3">
+      <p className="font-bold text-slate-700">Konfigurasi {isWebDav ? 'WebDAV (Nextcloud, ownCloud)' : 'S3-Compatible (AWS, MinIO)'}</p>
+      <div className="grid md:grid-cols-2 gap-3">
+        {fields.map(field => (
+          <div key={field.key} className={field.key === 'url' ? 'md:col-span-2' : ''}>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">{field.label}</label>
+            <input
+              type={field.secret ? 'password' : 'text'}
+              className="w-full p-2 border rounded"
+              placeholder={field.placeholder}
+              value={values[field.key]}
+              onChange={e => setField(field.key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-400">
+        {isWebDav
+          ? 'Server harus mengizinkan CORS dari aplikasi ini dan mengekspos header ETag. Data disimpan di folder letsfinance.'
+          : 'Bucket harus punya aturan CORS untuk aplikasi ini (GET, PUT, DELETE, HEAD) yang mengekspos header ETag.'}
+      </p>
+      <div className="flex gap-2">
+        <button onClick={save} className="bg-slate-800 text-white px-3 py-1.5 rounded text-xs font-medium">Simpan Konfigurasi</button>
+        <button
+          onClick={testConnection}
+          disabled={isTesting}
+          className="flex items-center gap-1.5 bg-white border border-slate-200 text-slate-600 px-3 py-1.5 rounded text-xs font-medium hover:bg-slate-100 disabled:opacity-50"
+        >
+          {isTesting ? <RefreshCw size={12} className="animate-spin" /> : <PlugZap size={12} />} Tes Koneksi
+        </button>
+      </div>
+    </div>
+  );
+};
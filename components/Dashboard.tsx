@@ -1,23 +1,30 @@
 import React, { useState, useMemo } from 'react';
-import { Transaction, TransactionType, Account } from '../types';
+import { Transaction, TransactionType, Account, Budget, Debt, CategoryRecord } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { Wallet, TrendingUp, TrendingDown, DollarSign, CreditCard, Calendar, Filter } from 'lucide-react';
+import { Wallet, TrendingUp, TrendingDown, DollarSign, CreditCard, Calendar, Filter, Target, TriangleAlert, HandCoins, ChevronRight } from 'lucide-react';
+import { getAccountDelta, getCategoryLines, excludeTransfers } from '../services/transactionService';
+import { getMonthlyBudgetStatus, monthKey, shiftMonth } from '../services/budgetService';
+import { getDebtSummary } from '../services/debtService';
+import { getCategoryColor, getCategoryName } from '../services/categoryService';
 
 interface DashboardProps {
   transactions: Transaction[];
   accounts: Account[];
+  budgets: Budget[];
+  expenseCategories: string[];
+  categories: CategoryRecord[];
+  debts: Debt[];
   onNavigateToReports?: () => void;
+  onNavigateToDebts?: () => void;
 }
 
-const COLORS = ['#10B981', '#F59E0B', '#3B82F6', '#EF4444', '#8B5CF6', '#EC4899'];
-
 type DashboardPeriod = 'TODAY' | 'THIS_WEEK' | 'THIS_MONTH' | 'LAST_MONTH' | 'THIS_YEAR' | 'ALL';
 
 const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
 };
 
-export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, accounts, onNavigateToReports }) => {
+export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, accounts, budgets, expenseCategories, categories, debts, onNavigateToReports, onNavigateToDebts }) => {
   const [period, setPeriod] = useState<DashboardPeriod>('THIS_MONTH');
 
   // 1. Filter Transactions based on selected period
@@ -58,36 +65,36 @@ export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, a
     let expense = 0;
     const categoryMap: Record<string, number> = {};
 
-    filteredTransactions.forEach(t => {
+    // Transfers don't change the business' income or expense, only their fee does
+    excludeTransfers(filteredTransactions).forEach(t => {
       if (t.type === TransactionType.INCOME) {
         income += t.amount;
       } else {
         expense += t.amount;
-        categoryMap[t.category] = (categoryMap[t.category] || 0) + t.amount;
+        // Split transactions count each line under its own category
+        getCategoryLines(t).forEach(line => {
+          categoryMap[line.categoryId] = (categoryMap[line.categoryId] || 0) + line.amount;
+        });
       }
     });
 
-    const categoryData = Object.keys(categoryMap).map(key => ({
-      name: key,
-      value: categoryMap[key]
+    const categoryData = Object.keys(categoryMap).map(id => ({
+      id,
+      name: getCategoryName(categories, id),
+      value: categoryMap[id]
     })).sort((a, b) => b.value - a.value);
 
     return { income, expense, balance: income - expense, categoryData };
-  }, [filteredTransactions]);
+  }, [filteredTransactions, categories]);
 
   // 3. Calculate Account Balances based on ALL transactions (Balances are always absolute)
   const accountBalances = useMemo(() => {
     return accounts.map(acc => {
-        const accIncome = transactions
-            .filter(t => t.accountId === acc.id && t.type === TransactionType.INCOME)
-            .reduce((sum, t) => sum + t.amount, 0);
-        const accExpense = transactions
-            .filter(t => t.accountId === acc.id && t.type === TransactionType.EXPENSE)
-            .reduce((sum, t) => sum + t.amount, 0);
+        const netMovement = transactions.reduce((sum, t) => sum + getAccountDelta(t, acc.id), 0);
         
         return {
             ...acc,
-            currentBalance: (acc.initialBalance || 0) + accIncome - accExpense
+            currentBalance: (acc.initialBalance || 0) + netMovement
         };
     });
   }, [transactions, accounts]);
@@ -125,7 +132,7 @@ export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, a
        }
     }
 
-    filteredTransactions.forEach(t => {
+    excludeTransfers(filteredTransactions).forEach(t => {
         const tDate = new Date(t.date);
         let key = '';
         let order = 0;
@@ -157,6 +164,19 @@ export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, a
     return Object.values(data).sort((a, b) => a.order - b.order);
   }, [filteredTransactions, period]);
 
+  // 6. Budget progress. Budgets are monthly, so every period except "Bulan Lalu" shows the current month
+  const budgetMonth = period === 'LAST_MONTH' ? shiftMonth(monthKey(new Date()), -1) : monthKey(new Date());
+  const budgetStatus = useMemo(() => {
+    return getMonthlyBudgetStatus(budgets, transactions, expenseCategories, budgetMonth);
+  }, [budgets, transactions, expenseCategories, budgetMonth]);
+  const budgetAlerts = budgetStatus.filter(b => b.level !== 'OK');
+
+  // 7. Receivables / payables outstanding today (not tied to the selected period)
+  const debtSummary = useMemo(() => ({
+    receivable: getDebtSummary(debts, transactions, 'RECEIVABLE'),
+    payable: getDebtSummary(debts, transactions, 'PAYABLE')
+  }), [debts, transactions]);
+
   const getPeriodLabel = () => {
       switch(period) {
           case 'TODAY': return 'Hari Ini';
@@ -205,6 +225,23 @@ export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, a
          </div>
       </div>
 
+      {/* Budget Alerts */}
+      {budgetAlerts.length > 0 && (
+        <div className={`p-4 rounded-2xl border flex items-start gap-3 ${budgetAlerts.some(b => b.level === 'OVER') ? 'bg-rose-50 border-rose-200 text-rose-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          <TriangleAlert size={20} className="flex-shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-bold mb-1">Peringatan Anggaran</p>
+            {budgetAlerts.map(b => (
+              <p key={b.categoryId}>
+                {b.level === 'OVER'
+                  ? `${getCategoryName(categories, b.categoryId)} melebihi anggaran ${formatCurrency(-b.remaining)}`
+                  : `${getCategoryName(categories, b.categoryId)} sudah terpakai ${Math.round(b.ratio * 100)}%`}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6">
         <div className="bg-white p-5 md:p-6 rounded-2xl shadow-sm border border-slate-100 flex items-center space-x-4">
           <div className="p-3 bg-emerald-100 rounded-full text-emerald-600">
@@ -261,6 +298,74 @@ export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, a
         </div>
       </div>
 
+      {/* Receivables & Payables */}
+      {(debtSummary.receivable.openCount > 0 || debtSummary.payable.openCount > 0) && (
+        <div className="bg-white p-5 md:p-6 rounded-2xl shadow-sm border border-slate-100">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <HandCoins className="text-indigo-500" size={20} /> Hutang & Piutang
+            </h3>
+            {onNavigateToDebts && (
+              <button onClick={onNavigateToDebts} className="text-sm font-bold text-indigo-600 flex items-center hover:underline">
+                Detail <ChevronRight size={16} />
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="p-4 rounded-xl bg-emerald-50 border border-emerald-100">
+              <p className="text-xs font-bold text-emerald-700 uppercase tracking-wider">Piutang (Akan Diterima)</p>
+              <p className="text-xl font-bold text-slate-800">{formatCurrency(debtSummary.receivable.outstanding)}</p>
+              <p className="text-xs text-slate-500">
+                {debtSummary.receivable.openCount} pelanggan
+                {debtSummary.receivable.overdueCount > 0 && <span className="text-rose-600 font-bold"> • {formatCurrency(debtSummary.receivable.overdue)} lewat jatuh tempo</span>}
+              </p>
+            </div>
+            <div className="p-4 rounded-xl bg-rose-50 border border-rose-100">
+              <p className="text-xs font-bold text-rose-700 uppercase tracking-wider">Hutang (Harus Dibayar)</p>
+              <p className="text-xl font-bold text-slate-800">{formatCurrency(debtSummary.payable.outstanding)}</p>
+              <p className="text-xs text-slate-500">
+                {debtSummary.payable.openCount} pemasok
+                {debtSummary.payable.overdueCount > 0 && <span className="text-rose-600 font-bold"> • {formatCurrency(debtSummary.payable.overdue)} lewat jatuh tempo</span>}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Budget Progress */}
+      {budgetStatus.length > 0 && (
+        <div className="bg-white p-5 md:p-6 rounded-2xl shadow-sm border border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+            <Target className="text-indigo-500" size={20} /> Anggaran
+            <span className="text-sm font-normal text-slate-400">
+              ({new Date(budgetMonth + '-01T00:00:00').toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })})
+            </span>
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            {budgetStatus.map(b => (
+              <div key={b.categoryId}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-bold text-slate-700 truncate pr-2">{getCategoryName(categories, b.categoryId)}</span>
+                  <span className={`font-medium whitespace-nowrap ${b.level === 'OVER' ? 'text-rose-600' : 'text-slate-500'}`}>
+                    {formatCurrency(b.spent)} / {formatCurrency(b.available)}
+                  </span>
+                </div>
+                <div className="h-2.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full transition-all ${b.level === 'OVER' ? 'bg-rose-500' : b.level === 'WARNING' ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${Math.min(100, b.ratio * 100)}%` }}
+                  />
+                </div>
+                <p className="text-[11px] text-slate-400 mt-1">
+                  {b.remaining >= 0 ? `Sisa ${formatCurrency(b.remaining)}` : `Lebih ${formatCurrency(-b.remaining)}`}
+                  {b.carriedOver > 0 && ` • termasuk rollover ${formatCurrency(b.carriedOver)}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Trend Chart */}
         <div className="bg-white p-5 md:p-6 rounded-2xl shadow-sm border border-slate-100 h-80">
@@ -293,7 +398,7 @@ export const Dashboard: React.FC<DashboardProps> = React.memo(({ transactions, a
                   dataKey="value"
                 >
                   {stats.categoryData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    <Cell key={`cell-${index}`} fill={getCategoryColor(categories, entry.id)} />
                   ))}
                 </Pie>
                 <RechartsTooltip formatter={(value: number) => formatCurrency(value)} />
@@ -0,0 +1,327 @@
+import React, { useState, useMemo } from 'react';
+import { Debt, DebtDirection, Transaction, Account, CategoryRecord } from '../types';
+import { HandCoins, Plus, X, Trash2, Wallet, CalendarClock, CheckCircle, TriangleAlert, ChevronDown, ChevronUp, Save } from 'lucide-react';
+import {
+  AGING_BUCKETS, DEBT_LABELS, getAgingReport, getDebtSummary, getDebtPayments, getDebtPaid,
+  getDebtOutstanding, getDebtStatus, getDaysOverdue, getRepaymentType
+} from '../services/debtService';
+import { todayString } from '../services/recurringService';
+import { getActiveAccounts } from '../services/accountService';
+import { getCategoryName } from '../services/categoryService';
+
+interface DebtLedgerProps {
+  debts: Debt[];
+  setDebts: (debts: Debt[]) => void;
+  transactions: Transaction[];
+  accounts: Account[];
+  categories: CategoryRecord[];
+  expenseCategories: string[]; // Ids
+  incomeCategories: string[];
+  onAddTransaction: (t: Omit<Transaction, 'id'>) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date + 'T00:00:00').toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const inputClass = "w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700";
+
+export const DebtLedger: React.FC<DebtLedgerProps> = React.memo(({
+  debts, setDebts, transactions, accounts, categories, expenseCategories, incomeCategories, onAddTransaction
+}) => {
+  const [direction, setDirection] = useState<DebtDirection>('RECEIVABLE');
+  const [showPaid, setShowPaid] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+
+  const today = todayString();
+  const isReceivable = direction === 'RECEIVABLE';
+  const repaymentCategories = isReceivable ? incomeCategories : expenseCategories;
+
+  const emptyDebt = { counterparty: '', amount: '', issueDate: today, dueDate: today, description: '' };
+  const [debtForm, setDebtForm] = useState(emptyDebt);
+  const emptyPayment = { amount: '', date: today, accountId: getActiveAccounts(accounts)[0]?.id || '', categoryId: repaymentCategories[0] || '' };
+  const [paymentForm, setPaymentForm] = useState(emptyPayment);
+
+  const summary = useMemo(() => getDebtSummary(debts, transactions, direction, today), [debts, transactions, direction, today]);
+  const aging = useMemo(() => getAgingReport(debts, transactions, direction, today), [debts, transactions, direction, today]);
+
+  const visibleDebts = useMemo(() => {
+    return debts
+      .filter(d => d.direction === direction)
+      .filter(d => showPaid || getDebtStatus(d, transactions, today) !== 'PAID')
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  }, [debts, transactions, direction, showPaid, today]);
+
+  const switchDirection = (next: DebtDirection) => {
+    setDirection(next);
+    setPayingId(null);
+    setExpandedId(null);
+  };
+
+  const addDebt = () => {
+    const amount = Number(debtForm.amount);
+    if (!debtForm.counterparty.trim() || !amount || amount <= 0) {
+      alert(`Mohon isi nama ${isReceivable ? 'pelanggan' : 'pemasok'} dan nominal.`);
+      return;
+    }
+    if (debtForm.dueDate < debtForm.issueDate) {
+      alert("Jatuh tempo tidak boleh sebelum tanggal transaksi.");
+      return;
+    }
+    const debt: Debt = {
+      id: Date.now().toString(),
+      direction,
+      counterparty: debtForm.counterparty.trim(),
+      amount,
+      issueDate: debtForm.issueDate,
+      dueDate: debtForm.dueDate,
+      description: debtForm.description.trim() || undefined
+    };
+    setDebts([debt, ...debts]);
+    setDebtForm(emptyDebt);
+    setShowAddForm(false);
+  };
+
+  const removeDebt = (id: string) => {
+    if (confirm(`Hapus catatan ${DEBT_LABELS[direction].toLowerCase()} ini? Pembayaran yang sudah dicatat tetap ada di riwayat transaksi.`)) {
+      setDebts(debts.filter(d => d.id !== id));
+    }
+  };
+
+  const startPayment = (debt: Debt) => {
+    setPayingId(debt.id);
+    setPaymentForm({ ...emptyPayment, amount: String(getDebtOutstanding(debt, transactions)) });
+  };
+
+  // A repayment is a normal transaction on the chosen account, linked back through debtId
+  const recordPayment = (debt: Debt) => {
+    const amount = Number(paymentForm.amount);
+    const outstanding = getDebtOutstanding(debt, transactions);
+    if (!amount || amount <= 0) {
+      alert("Nominal pembayaran harus lebih dari 0.");
+      return;
+    }
+    if (!paymentForm.categoryId) {
+      alert("Pilih kategori terlebih dahulu.");
+      return;
+    }
+    if (amount > outstanding) {
+      alert(`Pembayaran melebihi sisa ${DEBT_LABELS[debt.direction].toLowerCase()} (${formatCurrency(outstanding)}).`);
+      return;
+    }
+    onAddTransaction({
+      date: paymentForm.date,
+      amount,
+      type: getRepaymentType(debt.direction),
+      categoryId: paymentForm.categoryId,
+      description: `${isReceivable ? 'Pelunasan piutang dari' : 'Pembayaran hutang ke'} ${debt.counterparty}`,
+      merchant: debt.counterparty,
+      accountId: paymentForm.accountId,
+      debtId: debt.id
+    });
+    setPayingId(null);
+  };
+
+  const getAccountName = (accountId?: string) => accounts.find(a => a.id === accountId)?.name || '-';
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20 md:pb-0">
+      {/* Direction Tabs */}
+      <div className="bg-white p-2 rounded-2xl shadow-sm border border-slate-100 flex gap-2">
+        {(['RECEIVABLE', 'PAYABLE'] as DebtDirection[]).map(d => (
+          <button
+            key={d}
+            onClick={() => switchDirection(d)}
+            className={`flex-1 py-3 text-sm font-bold rounded-xl transition-all ${
+              direction === d
+                ? d === 'RECEIVABLE' ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {d === 'RECEIVABLE' ? 'Piutang (Uang Kita di Pelanggan)' : 'Hutang (Kewajiban ke Pemasok)'}
+          </button>
+        ))}
+      </div>
+
+      {/* Summary & Aging */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-wider">Total {DEBT_LABELS[direction]}</p>
+          <p className={`text-2xl font-bold ${isReceivable ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(summary.outstanding)}</p>
+          <p className="text-xs text-slate-500 mt-1">{summary.openCount} belum lunas</p>
+          {summary.overdueCount > 0 && (
+            <p className="text-xs text-rose-600 font-bold mt-2 flex items-center gap-1">
+              <TriangleAlert size={12} /> {summary.overdueCount} lewat jatuh tempo • {formatCurrency(summary.overdue)}
+            </p>
+          )}
+        </div>
+        <div className="lg:col-span-2 bg-white p-5 rounded-2xl shadow-sm border border-slate-100">
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-wider mb-3">Umur {DEBT_LABELS[direction]}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {aging.map((bucket, idx) => (
+              <div key={bucket.key} className={`p-3 rounded-xl border ${idx === AGING_BUCKETS.length - 1 && bucket.total > 0 ? 'border-rose-200 bg-rose-50' : 'border-slate-100 bg-slate-50'}`}>
+                <p className="text-[11px] font-bold text-slate-500">{bucket.label}</p>
+                <p className="font-bold text-slate-800 text-sm">{formatCurrency(bucket.total)}</p>
+                <p className="text-[10px] text-slate-400">{bucket.count} catatan</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center gap-3">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <HandCoins size={20} className="text-indigo-600" /> Daftar {DEBT_LABELS[direction]}
+          </h2>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+              <input type="checkbox" checked={showPaid} onChange={e => setShowPaid(e.target.checked)} /> Tampilkan lunas
+            </label>
+            <button
+              onClick={() => setShowAddForm(!showAddForm)}
+              className="flex items-center gap-1 px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700 transition-colors"
+            >
+              {showAddForm ? <X size={16} /> : <Plus size={16} />} {showAddForm ? 'Batal' : 'Tambah'}
+            </button>
+          </div>
+        </div>
+
+        {showAddForm && (
+          <div className="p-4 bg-slate-50 border-b border-slate-100 space-y-3 animate-fade-in">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">{isReceivable ? 'Pelanggan' : 'Pemasok'}</label>
+                <input type="text" className={inputClass} placeholder={isReceivable ? 'Contoh: Toko Makmur' : 'Contoh: CV Sumber Jaya'}
+                  value={debtForm.counterparty} onChange={e => setDebtForm({ ...debtForm, counterparty: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nominal</label>
+                <input type="number" min="0" className={inputClass} placeholder="0"
+                  value={debtForm.amount} onChange={e => setDebtForm({ ...debtForm, amount: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Tanggal</label>
+                <input type="date" className={inputClass} value={debtForm.issueDate} onChange={e => setDebtForm({ ...debtForm, issueDate: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Jatuh Tempo</label>
+                <input type="date" className={inputClass} value={debtForm.dueDate} onChange={e => setDebtForm({ ...debtForm, dueDate: e.target.value })} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Keterangan (Opsional)</label>
+                <input type="text" className={inputClass} placeholder={isReceivable ? 'Contoh: Penjualan tempo 20 karton' : 'Contoh: Stok bahan baku Juni'}
+                  value={debtForm.description} onChange={e => setDebtForm({ ...debtForm, description: e.target.value })} />
+              </div>
+            </div>
+            <button onClick={addDebt} className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition-all">
+              <Save size={18} /> Simpan {DEBT_LABELS[direction]}
+            </button>
+          </div>
+        )}
+
+        <div className="divide-y divide-slate-100">
+          {visibleDebts.length === 0 && (
+            <div className="p-10 text-center text-slate-400 text-sm">
+              <HandCoins size={32} className="mx-auto mb-2 opacity-40" />
+              Tidak ada {DEBT_LABELS[direction].toLowerCase()} {showPaid ? '' : 'yang belum lunas'}.
+            </div>
+          )}
+          {visibleDebts.map(debt => {
+            const paid = getDebtPaid(debt, transactions);
+            const outstanding = getDebtOutstanding(debt, transactions);
+            const status = getDebtStatus(debt, transactions, today);
+            const payments = getDebtPayments(debt, transactions);
+            const isExpanded = expandedId === debt.id;
+
+            return (
+              <div key={debt.id} className="p-4 hover:bg-slate-50/50 transition-colors">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-800 truncate">{debt.counterparty}</p>
+                    {debt.description && <p className="text-xs text-slate-500 truncate">{debt.description}</p>}
+                    <p className="text-xs text-slate-400 flex items-center gap-1 mt-0.5">
+                      <CalendarClock size={12} /> {formatDate(debt.issueDate)} • Jatuh tempo {formatDate(debt.dueDate)}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="font-bold text-slate-800">{formatCurrency(outstanding)}</p>
+                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${
+                      status === 'PAID' ? 'bg-emerald-100 text-emerald-700'
+                      : status === 'OVERDUE' ? 'bg-rose-100 text-rose-700'
+                      : 'bg-slate-100 text-slate-600'
+                    }`}>
+                      {status === 'PAID' ? 'Lunas' : status === 'OVERDUE' ? `Telat ${getDaysOverdue(debt, today)} hari` : 'Belum Lunas'}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="mt-3 h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500 rounded-full" style={{ width: `${Math.min(100, (paid / debt.amount) * 100)}%` }} />
+                </div>
+                <div className="flex justify-between items-center mt-2">
+                  <p className="text-xs text-slate-500">Terbayar {formatCurrency(paid)} dari {formatCurrency(debt.amount)}</p>
+                  <div className="flex items-center gap-1">
+                    {payments.length > 0 && (
+                      <button onClick={() => setExpandedId(isExpanded ? null : debt.id)} className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-indigo-600">
+                        {payments.length} pembayaran {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                      </button>
+                    )}
+                    {status !== 'PAID' && (
+                      <button onClick={() => startPayment(debt)} className="px-3 py-1 text-xs font-bold bg-indigo-50 text-indigo-600 rounded-lg hover:bg-indigo-100">
+                        Catat Pembayaran
+                      </button>
+                    )}
+                    <button onClick={() => removeDebt(debt.id)} className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors" title="Hapus">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 p-3 bg-slate-50 rounded-xl space-y-1.5 animate-fade-in">
+                    {payments.map(p => (
+                      <div key={p.id} className="flex justify-between text-xs">
+                        <span className="text-slate-600 flex items-center gap-1">
+                          <CheckCircle size={12} className="text-emerald-500" /> {formatDate(p.date)} • {getAccountName(p.accountId)}
+                        </span>
+                        <span className="font-bold text-slate-700">{formatCurrency(p.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {payingId === debt.id && (
+                  <div className="mt-3 p-3 bg-indigo-50/50 border border-indigo-100 rounded-xl space-y-3 animate-fade-in">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                      <input type="number" min="0" className={inputClass} placeholder="Nominal"
+                        value={paymentForm.amount} onChange={e => setPaymentForm({ ...paymentForm, amount: e.target.value })} />
+                      <input type="date" className={inputClass} value={paymentForm.date} onChange={e => setPaymentForm({ ...paymentForm, date: e.target.value })} />
+                      <select className={inputClass} value={paymentForm.accountId} onChange={e => setPaymentForm({ ...paymentForm, accountId: e.target.value })}>
+                        {getActiveAccounts(accounts).map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                      </select>
+                      <select className={inputClass} value={paymentForm.categoryId} onChange={e => setPaymentForm({ ...paymentForm, categoryId: e.target.value })}>
+                        {repaymentCategories.map(id => <option key={id} value={id}>{getCategoryName(categories, id)}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => setPayingId(null)} className="px-4 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg text-sm font-bold">Batal</button>
+                      <button onClick={() => recordPayment(debt)} className="flex-1 flex items-center justify-center gap-1 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-700">
+                        <Wallet size={16} /> {isReceivable ? 'Terima ke' : 'Bayar dari'} {getAccountName(paymentForm.accountId)}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { SnapshotInfo } from '../services/snapshotService';
+import { History, X, Lock, Download, RefreshCw } from 'lucide-react';
+
+interface DriveSnapshotPickerProps {
+  snapshots: SnapshotInfo[];
+  restoringId: string | null;
+  sourceLabel: string;
+  onRestore: (snapshot: SnapshotInfo) => void;
+  onClose: () => void;
+}
+
+const describeCounts = (counts: SnapshotInfo['counts']) => [
+  counts.transactions !== undefined ? `${counts.transactions} transaksi` : '',
+  counts.invoices !== undefined ? `${counts.invoices} invoice` : '',
+  counts.accounts !== undefined ? `${counts.accounts} akun` : '',
+  counts.debts ? `${counts.debts} hutang/piutang` : '',
+].filter(Boolean).join(' • ');
+
+export const DriveSnapshotPicker: React.FC<DriveSnapshotPickerProps> = ({ snapshots, restoringId, sourceLabel, onRestore, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] overflow-hidden flex flex-col animate-fade-in-up">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white rounded-lg shadow-sm text-indigo-600">
+              <History size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Pilih Snapshot</h3>
+              <p className="text-xs text-slate-500">{snapshots.length} snapshot di {sourceLabel}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full text-slate-500"><X size={18} /></button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-2 flex-1">
+          {snapshots.map((snapshot, index) => (
+            <div key={snapshot.id} className="flex justify-between items-center p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="min-w-0">
+                <p className="font-bold text-sm text-slate-800 flex items-center gap-1.5">
+                  {new Date(snapshot.createdAt).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}
+                  {snapshot.encrypted && <Lock size={12} className="text-emerald-600" />}
+                  {index === 0 && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700">Terbaru</span>}
+                  {snapshot.legacy && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-200 text-slate-600">Backup lama</span>}
+                </p>
+                <p className="text-xs text-slate-500 truncate">{describeCounts(snapshot.counts) || 'Jumlah data tidak tercatat'}</p>
+              </div>
+              <button
+                onClick={() => onRestore(snapshot)}
+                disabled={restoringId !== null}
+                className="ml-2 px-3 py-2 text-xs font-bold text-indigo-600 bg-white border border-indigo-100 hover:bg-indigo-50 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-50"
+              >
+                {restoringId === snapshot.id ? <RefreshCw size={14} className="animate-spin" /> : <Download size={14} />}
+                Pulihkan
+              </button>
+            </div>
+          ))}
+          {snapshots.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-6">Belum ada snapshot di {sourceLabel}.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { InvoiceItem, Invoice } from '../types';
+import { InvoiceItem, Invoice, BusinessProfile } from '../types';
+import { loadValue, saveValue } from '../services/storageRepository';
 import { Plus, Trash, Printer, Save, History, Edit, FilePlus, Trash2, Settings, Building2, Wallet } from 'lucide-react';
 
 interface InvoiceGeneratorProps {
   invoices: Invoice[];
   onUpdateInvoices: (updatedInvoices: Invoice[]) => void;
+  onDeleteInvoice?: (id: string) => void; // Moves it to the trash. Missing when the role may not delete
 }
 
-interface BusinessProfile {
-  name: string;
-  address: string;
-  email: string;
-  phone: string;
-  bankInfo: string;
-  logoUrl?: string;
-}
-
-export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({ invoices, onUpdateInvoices }) => {
+export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({ invoices, onUpdateInvoices, onDeleteInvoice }) => {
   // View State
   const [activeTab, setActiveTab] = useState<'EDITOR' | 'HISTORY' | 'CONFIG'>('EDITOR');
   
@@ -29,23 +22,22 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({ invoices, on
     bankInfo: ''
   });
 
-  // Load Profile from Local Storage
+  // Load Profile from storage
   useEffect(() => {
-    const savedProfile = localStorage.getItem('letsfinance_invoice_profile');
-    if (savedProfile) {
-      try {
-        setProfile(JSON.parse(savedProfile));
-      } catch (e) { console.error("Failed to load invoice profile"); }
-    } else {
+    loadValue('invoiceProfile').then(savedProfile => {
+      if (savedProfile) {
+        setProfile(savedProfile);
+      } else {
         // Default filler if empty
         setProfile({
-            name: 'Nama Bisnis Anda',
-            address: 'Alamat Bisnis, Kota, Negara',
-            email: 'email@bisnis.com',
-            phone: '0812-3456-7890',
-            bankInfo: 'Bank BCA 1234567890 a.n Nama Pemilik'
+          name: 'Nama Bisnis Anda',
+          address: 'Alamat Bisnis, Kota, Negara',
+          email: 'email@bisnis.com',
+          phone: '0812-3456-7890',
+          bankInfo: 'Bank BCA 1234567890 a.n Nama Pemilik'
         });
-    }
+      }
+    }).catch(() => console.error("Failed to load invoice profile"));
   }, []);
 
   // Form State
@@ -58,8 +50,13 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({ invoices, on
   ]);
 
   // Actions
-  const handleSaveProfile = () => {
-    localStorage.setItem('letsfinance_invoice_profile', JSON.stringify(profile));
+  const handleSaveProfile = async () => {
+    try {
+      await saveValue('invoiceProfile', profile);
+    } catch (e) {
+      alert("Gagal menyimpan profil bisnis.");
+      return;
+    }
     alert("Profil bisnis berhasil disimpan! Invoice akan menggunakan data ini.");
     setActiveTab('EDITOR');
   };
@@ -105,9 +102,9 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({ invoices, on
 
   const handleDelete = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm("Yakin ingin menghapus invoice ini?")) {
-      const updated = invoices.filter(inv => inv.id !== id);
-      onUpdateInvoices(updated);
+    if (!onDeleteInvoice) return;
+    if (confirm("Pindahkan invoice ini ke Tempat Sampah? Invoice bisa dipulihkan selama 30 hari.")) {
+      onDeleteInvoice(id);
       if (currentId === id) handleNew();
     }
   };
@@ -323,13 +320,15 @@ export const InvoiceGenerator: React.FC<InvoiceGeneratorProps> = ({ invoices, on
                             >
                               <Edit size={14} /> Edit
                             </button>
-                            <button 
-                              onClick={(e) => handleDelete(inv.id, e)}
-                              className="p-1.5 text-slate-400 hover:text-rose-500 rounded-lg transition-colors"
-                              title="Hapus"
-                            >
-                              <Trash2 size={16} />
-                            </button>
+                            {onDeleteInvoice && (
+                              <button 
+                                onClick={(e) => handleDelete(inv.id, e)}
+                                className="p-1.5 text-slate-400 hover:text-rose-500 rounded-lg transition-colors"
+                                title="Hapus"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
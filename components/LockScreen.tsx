@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { UserProfile } from '../types';
+import { LockKeyhole, ArrowRight, RefreshCw } from 'lucide-react';
+import { ROLE_LABELS, verifyPin } from '../services/accessService';
+
+interface LockScreenProps {
+  users: UserProfile[];
+  workspaceName: string;
+  lastUserId?: string;
+  onUnlock: (user: UserProfile) => void;
+}
+
+// Slows down guessing: after this many wrong PINs the form waits before accepting another
+const MAX_ATTEMPTS = 5;
+const COOLDOWN_SECONDS = 30;
+
+export const LockScreen: React.FC<LockScreenProps> = ({ users, workspaceName, lastUserId, onUnlock }) => {
+  const [userId, setUserId] = useState(() => (users.some(u => u.id === lastUserId) ? lastUserId! : users[0]?.id));
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [cooldownUntil, setCooldownUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [isChecking, setIsChecking] = useState(false);
+
+  const cooldownLeft = Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const unlock = async () => {
+    const user = users.find(u => u.id === userId);
+    if (!user || !pin || cooldownLeft > 0 || isChecking) return;
+    setIsChecking(true);
+    try {
+      if (await verifyPin(user, pin)) {
+        onUnlock(user);
+        return;
+      }
+      const attempts = failedAttempts + 1;
+      setPin('');
+      if (attempts >= MAX_ATTEMPTS) {
+        setFailedAttempts(0);
+        setCooldownUntil(Date.now() + COOLDOWN_SECONDS * 1000);
+        setNow(Date.now());
+        setError(`Terlalu banyak percobaan. Coba lagi dalam ${COOLDOWN_SECONDS} detik.`);
+      } else {
+        setFailedAttempts(attempts);
+        setError(`PIN salah. Sisa ${MAX_ATTEMPTS - attempts} percobaan.`);
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-slate-100 p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-fade-in-up">
+        <div className="p-6 text-center bg-indigo-50">
+          <div className="w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 bg-white text-indigo-600 shadow-sm">
+            <LockKeyhole size={32} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-800">LetsFinance Terkunci</h3>
+          <p className="text-sm text-slate-500">{workspaceName}</p>
+        </div>
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Pengguna</label>
+            <select
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+              value={userId}
+              onChange={e => { setUserId(e.target.value); setPin(''); setError(''); }}
+            >
+              {users.map(u => <option key={u.id} value={u.id}>{u.name} ({ROLE_LABELS[u.role]})</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">PIN</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              disabled={cooldownLeft > 0}
+              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-center text-2xl tracking-[0.5em] outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-slate-700 disabled:opacity-50"
+              value={pin}
+              onChange={e => { setPin(e.target.value.replace(/\D/g, '')); setError(''); }}
+              onKeyDown={e => e.key === 'Enter' && unlock()}
+            />
+          </div>
+          {(error || cooldownLeft > 0) && (
+            <p className="text-xs font-medium text-rose-600 text-center">
+              {cooldownLeft > 0 ? `Terlalu banyak percobaan. Coba lagi dalam ${cooldownLeft} detik.` : error}
+            </p>
+          )}
+          <button
+            onClick={unlock}
+            disabled={!pin || cooldownLeft > 0 || isChecking}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isChecking ? <RefreshCw size={18} className="animate-spin" /> : <ArrowRight size={18} />} Buka
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Transaction, Account, TransactionType, CategoryRecord } from '../types';
+import { Repeat, X, Trash2, CheckCircle } from 'lucide-react';
+import { getCategoryName } from '../services/categoryService';
+
+interface RecurringReviewProps {
+  posted: Transaction[];
+  accounts: Account[];
+  categories: CategoryRecord[];
+  onDiscard: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+export const RecurringReview: React.FC<RecurringReviewProps> = ({ posted, accounts, categories, onDiscard, onClose }) => {
+  const getAccountName = (accountId?: string) => accounts.find(a => a.id === accountId)?.name || '';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] overflow-hidden flex flex-col animate-fade-in-up">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white rounded-lg shadow-sm text-indigo-600">
+              <Repeat size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Transaksi Berulang Dicatat</h3>
+              <p className="text-xs text-slate-500">{posted.length} transaksi otomatis sejak kunjungan terakhir</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full text-slate-500"><X size={18} /></button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-2 flex-1">
+          {posted.map(t => (
+            <div key={t.id} className="flex justify-between items-center p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="min-w-0">
+                <p className="font-bold text-sm text-slate-800 truncate">{t.description || getCategoryName(categories, t.categoryId)}</p>
+                <p className="text-xs text-slate-500">
+                  {new Date(t.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })} • {getCategoryName(categories, t.categoryId)} • {getAccountName(t.accountId)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 pl-2">
+                <span className={`font-bold text-sm whitespace-nowrap ${t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-slate-800'}`}>
+                  {formatCurrency(t.amount)}
+                </span>
+                <button
+                  onClick={() => onDiscard(t.id)}
+                  className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                  title="Batalkan transaksi ini"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {posted.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-6">Tidak ada transaksi yang dicatat.</p>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100">
+          <button
+            onClick={onClose}
+            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl transition-colors text-sm shadow-lg shadow-indigo-200 flex items-center justify-center gap-2"
+          >
+            <CheckCircle size={16} /> Sudah Sesuai
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { RecurringTransaction, RecurringFrequency, Account, TransactionType, CategoryRecord } from '../types';
+import { Repeat, Plus, Trash2, PlusCircle, Pause, Play, CalendarClock } from 'lucide-react';
+import { FREQUENCY_LABELS, getNextOccurrence, todayString } from '../services/recurringService';
+import { getActiveAccounts } from '../services/accountService';
+import { getCategoryName } from '../services/categoryService';
+
+interface RecurringSettingsProps {
+  recurring: RecurringTransaction[];
+  setRecurring: (rules: RecurringTransaction[]) => void;
+  accounts: Account[];
+  categories: CategoryRecord[];
+  expenseCategories: string[]; // Ids
+  incomeCategories: string[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date + 'T00:00:00').toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const RecurringSettings: React.FC<RecurringSettingsProps> = ({
+  recurring, setRecurring, accounts, categories, expenseCategories, incomeCategories
+}) => {
+  const emptyForm = {
+    description: '',
+    amount: '',
+    type: TransactionType.EXPENSE,
+    categoryId: expenseCategories[0] || '',
+    accountId: getActiveAccounts(accounts)[0]?.id || '',
+    frequency: 'MONTHLY' as RecurringFrequency,
+    dayOfMonth: '1',
+    startDate: todayString(),
+    endDate: ''
+  };
+  const [form, setForm] = useState(emptyForm);
+
+  const categoryIds = form.type === TransactionType.EXPENSE ? expenseCategories : incomeCategories;
+  const today = todayString();
+
+  const changeType = (type: TransactionType) => {
+    const list = type === TransactionType.EXPENSE ? expenseCategories : incomeCategories;
+    setForm({ ...form, type, categoryId: list[0] || '' });
+  };
+
+  const addRule = () => {
+    const amount = Number(form.amount);
+    if (!form.description.trim() || !amount || amount <= 0) {
+      alert("Mohon isi nama dan nominal transaksi berulang.");
+      return;
+    }
+    if (!form.categoryId) {
+      alert("Pilih kategori terlebih dahulu.");
+      return;
+    }
+    const dayOfMonth = Number(form.dayOfMonth);
+    if (form.frequency === 'DAY_OF_MONTH' && (!dayOfMonth || dayOfMonth < 1 || dayOfMonth > 31)) {
+      alert("Tanggal harus di antara 1 dan 31.");
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      alert("Tanggal berakhir tidak boleh sebelum tanggal mulai.");
+      return;
+    }
+
+    const rule: RecurringTransaction = {
+      id: Date.now().toString(),
+      template: {
+        amount,
+        type: form.type,
+        categoryId: form.categoryId,
+        description: form.description,
+        accountId: form.accountId,
+      },
+      frequency: form.frequency,
+      dayOfMonth: form.frequency === 'DAY_OF_MONTH' ? dayOfMonth : undefined,
+      startDate: form.startDate,
+      endDate: form.endDate || undefined,
+      active: true
+    };
+    setRecurring([...recurring, rule]);
+    setForm(emptyForm);
+  };
+
+  const toggleRule = (id: string) => {
+    setRecurring(recurring.map(r => r.id === id ? { ...r, active: !r.active } : r));
+  };
+
+  const removeRule = (id: string) => {
+    if (confirm("Hapus jadwal ini? Transaksi yang sudah tercatat tidak akan terhapus.")) {
+      setRecurring(recurring.filter(r => r.id !== id));
+    }
+  };
+
+  const describeSchedule = (rule: RecurringTransaction) => {
+    if (rule.frequency === 'DAY_OF_MONTH') return `Setiap tanggal ${rule.dayOfMonth}`;
+    return FREQUENCY_LABELS[rule.frequency];
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="grid gap-3">
+        {recurring.length === 0 && (
+          <div className="text-center py-8 text-slate-400 text-sm">
+            <Repeat size={32} className="mx-auto mb-2 opacity-40" />
+            Belum ada transaksi berulang. Tambahkan sewa, gaji, atau tagihan rutin di bawah.
+          </div>
+        )}
+        {recurring.map(rule => {
+          const next = rule.active ? getNextOccurrence(rule, today) : null;
+          return (
+            <div key={rule.id} className={`flex justify-between items-center p-3 rounded-xl border border-slate-100 bg-slate-50 transition-all hover:shadow-sm ${rule.active ? '' : 'opacity-60'}`}>
+              <div className="min-w-0">
+                <p className="font-bold text-slate-700 truncate">{rule.template.description}</p>
+                <p className="text-xs text-slate-500">
+                  {describeSchedule(rule)} • {formatCurrency(rule.template.amount)} • {getCategoryName(categories, rule.template.categoryId)}
+                </p>
+                <p className="text-xs text-slate-400 flex items-center gap-1 mt-0.5">
+                  <CalendarClock size={12} />
+                  {!rule.active ? 'Dijeda' : next ? `Berikutnya ${formatDate(next)}` : 'Selesai'}
+                  {rule.endDate && ` • s/d ${formatDate(rule.endDate)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => toggleRule(rule.id)}
+                  className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                  title={rule.active ? 'Jeda' : 'Aktifkan'}
+                >
+                  {rule.active ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                  title="Hapus Jadwal"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="pt-6 mt-4 border-t border-slate-100">
+        <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <PlusCircle size={18} className="text-indigo-600" /> Tambah Jadwal Baru
+        </h4>
+
+        <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 space-y-4">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            <button
+              onClick={() => changeType(TransactionType.EXPENSE)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${form.type === TransactionType.EXPENSE ? 'bg-white text-rose-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              Pengeluaran
+            </button>
+            <button
+              onClick={() => changeType(TransactionType.INCOME)}
+              className={`flex-1 py-2 text-sm font-bold rounded-lg transition-all ${form.type === TransactionType.INCOME ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              Pemasukan
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nama</label>
+              <input
+                type="text"
+                placeholder="Contoh: Sewa Ruko"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.description}
+                onChange={e => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nominal</label>
+              <input
+                type="number"
+                min="0"
+                placeholder="0"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-slate-700"
+                value={form.amount}
+                onChange={e => setForm({ ...form, amount: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Kategori</label>
+              <select
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.categoryId}
+                onChange={e => setForm({ ...form, categoryId: e.target.value })}
+              >
+                {categoryIds.map(id => <option key={id} value={id}>{getCategoryName(categories, id)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Akun</label>
+              <select
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.accountId}
+                onChange={e => setForm({ ...form, accountId: e.target.value })}
+              >
+                {getActiveAccounts(accounts).map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Frekuensi</label>
+              <select
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.frequency}
+                onChange={e => setForm({ ...form, frequency: e.target.value as RecurringFrequency })}
+              >
+                {(Object.keys(FREQUENCY_LABELS) as RecurringFrequency[]).map(f => (
+                  <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+                ))}
+              </select>
+            </div>
+            {form.frequency === 'DAY_OF_MONTH' && (
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Setiap Tanggal</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="31"
+                  className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-slate-700"
+                  value={form.dayOfMonth}
+                  onChange={e => setForm({ ...form, dayOfMonth: e.target.value })}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Mulai</label>
+              <input
+                type="date"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.startDate}
+                onChange={e => setForm({ ...form, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Berakhir (Opsional)</label>
+              <input
+                type="date"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.endDate}
+                onChange={e => setForm({ ...form, endDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            Transaksi yang jatuh tempo akan dicatat otomatis saat aplikasi dibuka, lalu ditampilkan untuk Anda tinjau.
+          </p>
+
+          <button
+            onClick={addRule}
+            className="w-full bg-indigo-600 text-white py-3.5 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 active:scale-[0.98]"
+          >
+            <Plus size={18} /> Simpan Jadwal
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,32 @@
-import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Transaction, TransactionType, Category } from '../types';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { Transaction, TransactionType, Budget, CategoryRecord, AccountingClass } from '../types';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, Legend, ResponsiveContainer, 
   PieChart, Pie, Cell 
 } from 'recharts';
-import { Download, Printer, ChevronLeft, ChevronRight, Calendar, Filter, Check, RefreshCw, FileText, Sparkles, Loader2, PieChart as PieChartIcon, TableProperties } from 'lucide-react';
-import { getReportAnalysis } from '../services/geminiService';
+import { Download, Printer, ChevronLeft, ChevronRight, ChevronDown, Calendar, Filter, Check, RefreshCw, FileText, Sparkles, Loader2, PieChart as PieChartIcon, TableProperties, Target } from 'lucide-react';
+import { getReportAnalysis, OfflineError } from '../services/geminiService';
+import { excludeTransfers, getCategoryLines, getCategoryIds as getTransactionCategoryIds } from '../services/transactionService';
+import { getBudgetVsActual } from '../services/budgetService';
+import { formatDate } from '../services/recurringService';
+import {
+  CategoryRollup, getParentMap, getCategoryPath, getCategoryIds, getCategoryName, formatCategoryPath, buildCategoryRollup, getRollupLevel,
+  flattenCategoryRollup, getCategoryColor, ACCOUNTING_CLASS_LABELS,
+} from '../services/categoryService';
+import { buildIncomeStatement } from '../services/incomeStatementService';
 
 interface ReportsProps {
   transactions: Transaction[];
+  budgets: Budget[];
+  expenseCategories: string[]; // Ids
+  categories: CategoryRecord[];
+  isOnline: boolean;
 }
 
 type Period = 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'CUSTOM';
-type ReportView = 'VISUAL' | 'ACCOUNTING';
+type ReportView = 'VISUAL' | 'ACCOUNTING' | 'BUDGET';
 
-const COLORS = ['#10B981', '#F59E0B', '#3B82F6', '#EF4444', '#8B5CF6', '#EC4899', '#6366F1', '#14B8A6'];
-
-export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) => {
+export const Reports: React.FC<ReportsProps> = React.memo(({ transactions, budgets, expenseCategories, categories, isOnline }) => {
   const [period, setPeriod] = useState<Period>('MONTHLY');
   const [viewMode, setViewMode] = useState<ReportView>('VISUAL');
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -29,9 +39,16 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
   
   // Category Filter State
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]); // Empty = All
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]); // Ids, empty = All
   const filterRef = useRef<HTMLDivElement>(null);
 
+  // Subcategories roll up into their parents. Charts drill into one parent at a time,
+  // the Laba Rugi rows expand in place.
+  const [chartDrill, setChartDrill] = useState<string | null>(null);
+  const [expandedRows, setExpandedRows] = useState<string[]>([]);
+  const expenseParentMap = useMemo(() => getParentMap(categories, 'EXPENSE'), [categories]);
+  const incomeParentMap = useMemo(() => getParentMap(categories, 'INCOME'), [categories]);
+
   // AI Analysis State
   const [analysisPoints, setAnalysisPoints] = useState<string[] | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -78,6 +95,12 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
 
   const clearFilter = () => setSelectedCategories([]);
 
+  // Expense categories first, each shown with its parents so same-named subcategories can be told apart
+  const filterOptions = useMemo(() => [
+    ...getCategoryIds(categories, 'EXPENSE').map(id => ({ id, label: formatCategoryPath(categories, expenseParentMap, id) })),
+    ...getCategoryIds(categories, 'INCOME').map(id => ({ id, label: formatCategoryPath(categories, incomeParentMap, id) })),
+  ], [categories, expenseParentMap, incomeParentMap]);
+
   // Helper formatting text periode
   const getPeriodLabel = () => {
     if (period === 'WEEKLY') {
@@ -128,45 +151,82 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
     });
   }, [transactions, period, currentDate, customRange]);
 
+  // 1a. Same period as an inclusive YYYY-MM-DD range, used for pro-rating budgets
+  const periodRange = useMemo(() => {
+    if (period === 'CUSTOM') return { start: customRange.start, end: customRange.end };
+    if (period === 'WEEKLY') {
+      const startOfWeek = new Date(currentDate);
+      const day = startOfWeek.getDay() || 7;
+      if (day !== 1) startOfWeek.setHours(-24 * (day - 1));
+      const endOfWeek = new Date(startOfWeek);
+      endOfWeek.setDate(endOfWeek.getDate() + 6);
+      return { start: formatDate(startOfWeek), end: formatDate(endOfWeek) };
+    }
+    if (period === 'MONTHLY') {
+      return {
+        start: formatDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)),
+        end: formatDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0))
+      };
+    }
+    return { start: `${currentDate.getFullYear()}-01-01`, end: `${currentDate.getFullYear()}-12-31` };
+  }, [period, currentDate, customRange]);
+
+  // 1b. Transfers between accounts are not income or expense, keep them out of every aggregation
+  const cashflowData = useMemo(() => excludeTransfers(filteredData), [filteredData]);
+
+  // Category filter is applied per split line, so a split transaction only contributes its selected lines.
+  // Selecting a parent also selects its subcategories.
+  const isCategorySelected = useCallback((id: string) => {
+    if (selectedCategories.length === 0) return true;
+    return [...getCategoryPath(expenseParentMap, id), ...getCategoryPath(incomeParentMap, id)]
+      .some(c => selectedCategories.includes(c));
+  }, [selectedCategories, expenseParentMap, incomeParentMap]);
+
   // 2. Aggregation for Stats
   const stats = useMemo(() => {
     let income = 0;
     let expense = 0;
-    filteredData.forEach(t => {
+    cashflowData.forEach(t => {
       if (t.type === TransactionType.INCOME) income += t.amount;
       else expense += t.amount;
     });
     return { income, expense, profit: income - expense };
-  }, [filteredData]);
+  }, [cashflowData]);
 
-  // 2b. Aggregation for Accounting Report
+  // 2b. Aggregation for Accounting Report, rolled up along the category tree and split by accounting class
   const accountingData = useMemo(() => {
     const incomeGroups: Record<string, number> = {};
     const expenseGroups: Record<string, number> = {};
     
-    let dataToUse = filteredData;
-    if (selectedCategories.length > 0) {
-        dataToUse = filteredData.filter(t => selectedCategories.includes(t.category));
-    }
-
-    dataToUse.forEach(t => {
-        if (t.type === TransactionType.INCOME) {
-            incomeGroups[t.category] = (incomeGroups[t.category] || 0) + t.amount;
-        } else {
-            expenseGroups[t.category] = (expenseGroups[t.category] || 0) + t.amount;
-        }
+    cashflowData.forEach(t => {
+        const groups = t.type === TransactionType.INCOME ? incomeGroups : expenseGroups;
+        getCategoryLines(t).forEach(line => {
+            if (!isCategorySelected(line.categoryId)) return;
+            groups[line.categoryId] = (groups[line.categoryId] || 0) + line.amount;
+        });
     });
 
-    const incomeList = Object.entries(incomeGroups)
-        .map(([name, amount]) => ({ name, amount }))
-        .sort((a, b) => b.amount - a.amount);
-        
-    const expenseList = Object.entries(expenseGroups)
-        .map(([name, amount]) => ({ name, amount }))
-        .sort((a, b) => b.amount - a.amount);
+    return {
+      incomeList: buildCategoryRollup(incomeGroups, incomeParentMap),
+      expenseList: buildCategoryRollup(expenseGroups, expenseParentMap),
+      statement: buildIncomeStatement(incomeGroups, expenseGroups, categories),
+    };
+  }, [cashflowData, isCategorySelected, incomeParentMap, expenseParentMap, categories]);
 
-    return { incomeList, expenseList };
-  }, [filteredData, selectedCategories]);
+  // Breadcrumb of the parent the charts are drilled into
+  const chartDrillPath = useMemo(() => {
+    if (!chartDrill) return [];
+    const type = categories.find(c => c.id === chartDrill)?.type;
+    return getCategoryPath(type === 'INCOME' ? incomeParentMap : expenseParentMap, chartDrill);
+  }, [chartDrill, categories, expenseParentMap, incomeParentMap]);
+
+  const drillInto = (id: string, hasChildren: boolean) => {
+    if (hasChildren && id !== chartDrill) setChartDrill(id);
+  };
+
+  const toggleRow = (id: string) => {
+    setExpandedRows(prev => (prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]));
+  };
 
   // 3. Data for Time Series Bar Chart (Global - unaffected by category filter)
   const chartData = useMemo(() => {
@@ -181,7 +241,7 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
        }
     }
 
-    filteredData.forEach(t => {
+    cashflowData.forEach(t => {
       const dateObj = new Date(t.date);
       let key = '';
       let sortDate = 0;
@@ -208,48 +268,36 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
 
     // Sort chronologically
     return Object.values(grouped).sort((a, b) => a.sortDate - b.sortDate);
-  }, [filteredData, period, currentDate]);
+  }, [cashflowData, period, currentDate]);
 
-  // 4. Data for Category Comparison Bar Chart
+  // 4. Data for Category Comparison Bar Chart, at the drilled level of the tree. An income and an expense
+  // category with the same name share a bar; clicking it drills into the one that has subcategories.
   const categoryComparisonData = useMemo(() => {
-    const grouped: Record<string, { name: string; income: number; expense: number }> = {};
-    
-    let dataToProcess = filteredData;
-    if (selectedCategories.length > 0) {
-      dataToProcess = filteredData.filter(t => selectedCategories.includes(t.category));
-    }
-
-    dataToProcess.forEach(t => {
-      if (!grouped[t.category]) {
-        grouped[t.category] = { name: t.category, income: 0, expense: 0 };
-      }
-      
-      if (t.type === TransactionType.INCOME) {
-        grouped[t.category].income += t.amount;
-      } else {
-        grouped[t.category].expense += t.amount;
-      }
+    const grouped: Record<string, { id: string; name: string; income: number; expense: number; hasChildren: boolean }> = {};
+    const add = (rows: CategoryRollup[], field: 'income' | 'expense') => rows.forEach(row => {
+      const name = getCategoryName(categories, row.id);
+      if (!grouped[name]) grouped[name] = { id: row.id, name, income: 0, expense: 0, hasChildren: false };
+      grouped[name][field] += row.total;
+      if (row.children.length > 0 && !grouped[name].hasChildren) grouped[name] = { ...grouped[name], id: row.id, hasChildren: true };
     });
+    add(getRollupLevel(accountingData.incomeList, chartDrill), 'income');
+    add(getRollupLevel(accountingData.expenseList, chartDrill), 'expense');
 
     return Object.values(grouped).sort((a, b) => (b.income + b.expense) - (a.income + a.expense));
-  }, [filteredData, selectedCategories]);
+  }, [accountingData, chartDrill, categories]);
 
   // 5. --- FILTERED EXPENSE DATA FOR PIE CHART & TABLE ---
   const filteredExpenseData = useMemo(() => {
-    let expenses = filteredData.filter(t => t.type === TransactionType.EXPENSE);
-    if (selectedCategories.length > 0) {
-      expenses = expenses.filter(t => selectedCategories.includes(t.category));
-    }
-    return expenses;
-  }, [filteredData, selectedCategories]);
+    return cashflowData.filter(t => 
+      t.type === TransactionType.EXPENSE && getTransactionCategoryIds(t).some(isCategorySelected)
+    );
+  }, [cashflowData, isCategorySelected]);
 
   const categoryData = useMemo(() => {
-    const map: Record<string, number> = {};
-    filteredExpenseData.forEach(t => {
-      map[t.category] = (map[t.category] || 0) + t.amount;
-    });
-    return Object.keys(map).map(key => ({ name: key, value: map[key] })).sort((a, b) => b.value - a.value);
-  }, [filteredExpenseData]);
+    return getRollupLevel(accountingData.expenseList, chartDrill)
+      .map(row => ({ id: row.id, name: getCategoryName(categories, row.id), value: row.total, hasChildren: row.children.length > 0 }))
+      .sort((a, b) => b.value - a.value);
+  }, [accountingData, chartDrill, categories]);
 
   const topExpenses = useMemo(() => {
     return filteredExpenseData
@@ -257,8 +305,75 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
       .slice(0, 5);
   }, [filteredExpenseData]);
 
+  // 6. Budget vs actual for the selected period
+  const budgetData = useMemo(() => {
+    const rows = getBudgetVsActual(budgets, transactions, expenseCategories, periodRange.start, periodRange.end)
+      .filter(row => isCategorySelected(row.categoryId));
+    const totals = rows.reduce((acc, row) => ({ budget: acc.budget + row.available, spent: acc.spent + row.spent }), { budget: 0, spent: 0 });
+    return { rows, totals };
+  }, [budgets, transactions, expenseCategories, periodRange, isCategorySelected]);
+
   const formatCurrency = (val: number) => new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(val);
 
+  // Laba Rugi lines: a parent shows its rolled-up total and expands into its subcategories
+  const renderRollupRows = (rows: CategoryRollup[], section: AccountingClass, format: (val: number) => string, depth = 0): React.ReactNode =>
+    rows.map(row => {
+      const id = `${section}:${row.id}`;
+      const name = getCategoryName(categories, row.id);
+      const hasChildren = row.children.length > 0;
+      const isOpen = hasChildren && expandedRows.includes(id);
+      return (
+        <React.Fragment key={id}>
+          <div className="flex justify-between" style={{ paddingLeft: depth * 20 }}>
+            <button
+              onClick={() => hasChildren && toggleRow(id)}
+              className={`flex items-center gap-1 text-left text-slate-600 ${hasChildren ? 'hover:text-indigo-600' : 'cursor-default'}`}
+            >
+              {hasChildren && (isOpen ? <ChevronDown size={14} className="print:hidden" /> : <ChevronRight size={14} className="print:hidden" />)}
+              {name}
+            </button>
+            <span className="font-medium text-slate-800">{format(row.total)}</span>
+          </div>
+          {isOpen && renderRollupRows(row.children, section, format, depth + 1)}
+          {isOpen && row.own > 0 && (
+            <div className="flex justify-between text-slate-400 italic" style={{ paddingLeft: (depth + 1) * 20 }}>
+              <span>{name} (langsung)</span>
+              <span>{format(row.own)}</span>
+            </div>
+          )}
+        </React.Fragment>
+      );
+    });
+
+  // Expense sections are shown in parentheses, as they are subtracted
+  const isExpenseSection = (section: AccountingClass) => section === 'COGS' || section === 'OPERATING_EXPENSE' || section === 'NON_OPERATING';
+
+  const renderStatementSection = (section: AccountingClass) => {
+    const { rows, total } = accountingData.statement.sections[section];
+    const format = isExpenseSection(section) ? (val: number) => `(${formatCurrency(val)})` : formatCurrency;
+    return (
+      <div>
+        <h3 className="font-bold text-slate-800 mb-4 border-b border-slate-200 pb-1 uppercase">{ACCOUNTING_CLASS_LABELS[section]}</h3>
+        <div className="space-y-2 pl-4">
+          {renderRollupRows(rows, section, format)}
+          {rows.length === 0 && <div className="text-slate-400 italic">Tidak ada</div>}
+        </div>
+        <div className="flex justify-between mt-4 pt-2 border-t border-slate-300 font-bold">
+          <span className="text-slate-900">Total {ACCOUNTING_CLASS_LABELS[section]}</span>
+          <span className={isExpenseSection(section) ? 'text-rose-700' : 'text-emerald-700'}>{format(total)}</span>
+        </div>
+      </div>
+    );
+  };
+
+  // Subtotal lines between the steps, e.g. Laba Kotor
+  const renderStatementResult = (label: string, value: number) => (
+    <div className="flex justify-between items-center pt-3 border-t-2 border-slate-800 text-lg font-bold">
+      <span className="text-slate-900 uppercase">{label}</span>
+      <span className={value >= 0 ? 'text-emerald-700' : 'text-rose-700'}>{formatCurrency(value)}</span>
+    </div>
+  );
+
   const downloadCSV = () => {
     const safeLabel = getPeriodLabel().replace(/[^a-z0-9]/gi, '_').toLowerCase();
 
@@ -268,36 +383,58 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
         return `"${String(str).replace(/"/g, '""')}"`;
     };
 
-    if (viewMode === 'ACCOUNTING') {
+    if (viewMode === 'BUDGET') {
+      // --- Download Anggaran vs Realisasi ---
+      const headers = ["Kategori", "Anggaran", "Rollover", "Realisasi", "Selisih", "Persentase"];
+      const rows = budgetData.rows.map(row => [
+        escapeCsv(getCategoryName(categories, row.categoryId)),
+        row.limit,
+        row.carriedOver,
+        row.spent,
+        row.remaining,
+        row.available > 0 ? Math.round(row.ratio * 100) : escapeCsv('-')
+      ]);
+      rows.push([escapeCsv("TOTAL"), budgetData.totals.budget, "", budgetData.totals.spent, budgetData.totals.budget - budgetData.totals.spent, ""]);
+      const csvContent = "data:text/csv;charset=utf-8," + [escapeCsv(`Periode: ${getPeriodLabel()}`), headers.join(','), ...rows.map(e => e.join(','))].join("\n");
+      const encodedUri = encodeURI(csvContent);
+      const link = document.createElement("a");
+      link.setAttribute("href", encodedUri);
+      link.setAttribute("download", `Laporan_Anggaran_${safeLabel}.csv`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+    } else if (viewMode === 'ACCOUNTING') {
       // --- Download Laporan Laba Rugi (Summary) ---
       const rows = [];
       rows.push([escapeCsv("LAPORAN LABA RUGI")]);
       rows.push([escapeCsv(`Periode: ${getPeriodLabel()}`)]);
       rows.push([]);
       
-      rows.push([escapeCsv("PENDAPATAN USAHA"), ""]);
-      if (accountingData.incomeList.length > 0) {
-        accountingData.incomeList.forEach(item => {
-          rows.push([escapeCsv(item.name), item.amount]);
-        });
-      } else {
-        rows.push([escapeCsv("(Tidak ada pendapatan)"), 0]);
-      }
-      rows.push([escapeCsv("TOTAL PENDAPATAN"), stats.income]);
-      rows.push([]);
+      const { sections, grossProfit, operatingProfit, netProfit } = accountingData.statement;
+      const pushSection = (section: AccountingClass) => {
+        rows.push([escapeCsv(ACCOUNTING_CLASS_LABELS[section].toUpperCase()), ""]);
+        if (sections[section].rows.length > 0) {
+          flattenCategoryRollup(sections[section].rows, categories).forEach(item => {
+            rows.push([escapeCsv(`${'  '.repeat(item.depth)}${item.name}`), item.amount]);
+          });
+        } else {
+          rows.push([escapeCsv("(Tidak ada)"), 0]);
+        }
+        rows.push([escapeCsv(`TOTAL ${ACCOUNTING_CLASS_LABELS[section].toUpperCase()}`), sections[section].total]);
+        rows.push([]);
+      };
 
-      rows.push([escapeCsv("BEBAN USAHA"), ""]);
-      if (accountingData.expenseList.length > 0) {
-        accountingData.expenseList.forEach(item => {
-          rows.push([escapeCsv(item.name), item.amount]);
-        });
-      } else {
-         rows.push([escapeCsv("(Tidak ada beban)"), 0]);
-      }
-      rows.push([escapeCsv("TOTAL BEBAN"), stats.expense]);
+      pushSection('OPERATING_REVENUE');
+      pushSection('COGS');
+      rows.push([escapeCsv("LABA KOTOR"), grossProfit]);
       rows.push([]);
-      
-      rows.push([escapeCsv("LABA BERSIH"), stats.profit]);
+      pushSection('OPERATING_EXPENSE');
+      rows.push([escapeCsv("LABA OPERASIONAL"), operatingProfit]);
+      rows.push([]);
+      pushSection('OTHER_INCOME');
+      pushSection('NON_OPERATING');
+      rows.push([escapeCsv("LABA BERSIH"), netProfit]);
 
       const csvContent = "data:text/csv;charset=utf-8," + rows.map(e => e.join(',')).join("\n");
       const encodedUri = encodeURI(csvContent);
@@ -314,7 +451,7 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
       const rows = filteredData.map(t => [
         escapeCsv(t.date),
         escapeCsv(t.type),
-        escapeCsv(t.category),
+        escapeCsv(getTransactionCategoryIds(t).map(id => getCategoryName(categories, id)).join(' + ')),
         escapeCsv(t.description),
         escapeCsv(t.merchant || ''),
         t.amount
@@ -331,15 +468,15 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
   };
 
   const handleAnalyze = async () => {
-    if (filteredData.length === 0) return;
+    if (cashflowData.length === 0) return;
     setIsAnalyzing(true);
     try {
-        const result = await getReportAnalysis(filteredData, getPeriodLabel());
+        const result = await getReportAnalysis(cashflowData, getPeriodLabel(), categories);
         if (result.summary) {
             setAnalysisPoints(result.summary);
         }
     } catch (e) {
-        alert("Gagal menganalisis laporan. Coba lagi nanti.");
+        alert(e instanceof OfflineError ? e.message : "Gagal menganalisis laporan. Coba lagi nanti.");
     } finally {
         setIsAnalyzing(false);
     }
@@ -419,6 +556,13 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
              >
                 <TableProperties size={18} />
              </button>
+             <button 
+                onClick={() => setViewMode('BUDGET')}
+                className={`p-2 rounded-md transition-all ${viewMode === 'BUDGET' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                title="Anggaran vs Realisasi"
+             >
+                <Target size={18} />
+             </button>
            </div>
 
            <div className="relative" ref={filterRef}>
@@ -441,14 +585,14 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
                   )}
                 </div>
                 <div className="max-h-60 overflow-y-auto space-y-1 custom-scrollbar">
-                  {Object.values(Category).map((cat) => (
+                  {filterOptions.map(({ id, label }) => (
                     <button
-                      key={cat}
-                      onClick={() => toggleCategory(cat)}
+                      key={id}
+                      onClick={() => toggleCategory(id)}
                       className="w-full flex items-center justify-between px-3 py-2 text-sm rounded-lg hover:bg-slate-50 transition-colors text-left"
                     >
-                      <span className="text-slate-700">{cat}</span>
-                      {selectedCategories.includes(cat) && <Check size={16} className="text-indigo-600" />}
+                      <span className="text-slate-700">{label}</span>
+                      {selectedCategories.includes(id) && <Check size={16} className="text-indigo-600" />}
                     </button>
                   ))}
                 </div>
@@ -482,8 +626,71 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
         </div>
       </div>
 
-      {/* --- ACCOUNTING VIEW --- */}
-      {viewMode === 'ACCOUNTING' ? (
+      {/* --- BUDGET VIEW --- */}
+      {viewMode === 'BUDGET' ? (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden print:shadow-none print:border-none">
+          <div className="p-6 border-b border-slate-100">
+            <h3 className="text-lg font-bold text-slate-800">Anggaran vs Realisasi</h3>
+            <p className="text-sm text-slate-500">{getPeriodLabel()}{period !== 'MONTHLY' && ' • anggaran dihitung proporsional terhadap jumlah hari'}</p>
+          </div>
+          {budgetData.rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left whitespace-nowrap">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="p-4 text-xs font-semibold text-slate-500 uppercase">Kategori</th>
+                  <th className="p-4 text-xs font-semibold text-slate-500 uppercase text-right">Anggaran</th>
+                  <th className="p-4 text-xs font-semibold text-slate-500 uppercase text-right">Realisasi</th>
+                  <th className="p-4 text-xs font-semibold text-slate-500 uppercase text-right">Selisih</th>
+                  <th className="p-4 text-xs font-semibold text-slate-500 uppercase">Terpakai</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {budgetData.rows.map(row => (
+                  <tr key={row.categoryId}>
+                    <td className="p-4 font-medium text-slate-800">{getCategoryName(categories, row.categoryId)}</td>
+                    <td className="p-4 text-sm text-right text-slate-600">
+                      {row.available > 0 ? formatCurrency(row.available) : <span className="text-slate-400 italic">Tanpa anggaran</span>}
+                      {row.carriedOver > 0 && <p className="text-[10px] text-slate-400">rollover {formatCurrency(row.carriedOver)}</p>}
+                    </td>
+                    <td className="p-4 text-sm text-right font-bold text-slate-800">{formatCurrency(row.spent)}</td>
+                    <td className={`p-4 text-sm text-right font-bold ${row.remaining >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(row.remaining)}</td>
+                    <td className="p-4 w-48">
+                      {row.available > 0 && (
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full rounded-full ${row.level === 'OVER' ? 'bg-rose-500' : row.level === 'WARNING' ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                              style={{ width: `${Math.min(100, row.ratio * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs font-bold text-slate-500 w-10 text-right">{Math.round(row.ratio * 100)}%</span>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-slate-50 font-bold">
+                  <td className="p-4 text-slate-900">Total</td>
+                  <td className="p-4 text-right text-slate-800">{formatCurrency(budgetData.totals.budget)}</td>
+                  <td className="p-4 text-right text-slate-800">{formatCurrency(budgetData.totals.spent)}</td>
+                  <td className={`p-4 text-right ${budgetData.totals.budget - budgetData.totals.spent >= 0 ? 'text-emerald-700' : 'text-rose-700'}`}>
+                    {formatCurrency(budgetData.totals.budget - budgetData.totals.spent)}
+                  </td>
+                  <td className="p-4"></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          ) : (
+            <div className="p-12 text-center text-slate-400">
+              <Target className="mx-auto h-12 w-12 mb-4 opacity-30" />
+              <p>Belum ada anggaran atau pengeluaran di periode ini.</p>
+              <p className="text-xs mt-1">Atur anggaran di menu Pengaturan.</p>
+            </div>
+          )}
+        </div>
+      ) : viewMode === 'ACCOUNTING' ? (
         <div className="bg-white p-8 md:p-12 rounded-2xl shadow-sm border border-slate-100 min-h-[600px] print:shadow-none print:border-none print:p-0">
             <div className="text-center mb-8 border-b-2 border-slate-800 pb-6">
                 <h1 className="text-2xl font-bold text-slate-900 uppercase tracking-widest mb-1">Laporan Laba Rugi</h1>
@@ -491,52 +698,22 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
             </div>
 
             <div className="max-w-3xl mx-auto space-y-8 font-mono text-sm md:text-base">
-                {/* Revenue Section */}
-                <div>
-                    <h3 className="font-bold text-slate-800 mb-4 border-b border-slate-200 pb-1">PENDAPATAN USAHA</h3>
-                    <div className="space-y-2 pl-4">
-                        {accountingData.incomeList.map(item => (
-                            <div key={item.name} className="flex justify-between">
-                                <span className="text-slate-600">{item.name}</span>
-                                <span className="font-medium text-slate-800">{formatCurrency(item.amount)}</span>
-                            </div>
-                        ))}
-                        {accountingData.incomeList.length === 0 && (
-                             <div className="text-slate-400 italic">Tidak ada pendapatan</div>
-                        )}
-                    </div>
-                    <div className="flex justify-between mt-4 pt-2 border-t border-slate-300 font-bold text-lg">
-                        <span className="text-slate-900">Total Pendapatan</span>
-                        <span className="text-emerald-700">{formatCurrency(stats.income)}</span>
-                    </div>
-                </div>
+                {renderStatementSection('OPERATING_REVENUE')}
+                {renderStatementSection('COGS')}
+                {renderStatementResult('Laba Kotor', accountingData.statement.grossProfit)}
 
-                {/* Expense Section */}
-                <div>
-                    <h3 className="font-bold text-slate-800 mb-4 border-b border-slate-200 pb-1">BEBAN USAHA</h3>
-                    <div className="space-y-2 pl-4">
-                        {accountingData.expenseList.map(item => (
-                            <div key={item.name} className="flex justify-between">
-                                <span className="text-slate-600">{item.name}</span>
-                                <span className="font-medium text-slate-800">({formatCurrency(item.amount)})</span>
-                            </div>
-                        ))}
-                         {accountingData.expenseList.length === 0 && (
-                             <div className="text-slate-400 italic">Tidak ada beban</div>
-                        )}
-                    </div>
-                    <div className="flex justify-between mt-4 pt-2 border-t border-slate-300 font-bold text-lg">
-                        <span className="text-slate-900">Total Beban</span>
-                        <span className="text-rose-700">({formatCurrency(stats.expense)})</span>
-                    </div>
-                </div>
+                {renderStatementSection('OPERATING_EXPENSE')}
+                {renderStatementResult('Laba Operasional', accountingData.statement.operatingProfit)}
+
+                {renderStatementSection('OTHER_INCOME')}
+                {renderStatementSection('NON_OPERATING')}
 
                 {/* Net Income */}
                 <div className="mt-8 pt-4 border-t-2 border-slate-800">
                     <div className="flex justify-between items-center text-xl font-bold">
                         <span className="text-slate-900 uppercase">Laba Bersih</span>
-                        <span className={`px-4 py-1 border-b-4 double-border ${stats.profit >= 0 ? 'border-emerald-600 text-emerald-700' : 'border-rose-600 text-rose-700'}`}>
-                            {formatCurrency(stats.profit)}
+                        <span className={`px-4 py-1 border-b-4 double-border ${accountingData.statement.netProfit >= 0 ? 'border-emerald-600 text-emerald-700' : 'border-rose-600 text-rose-700'}`}>
+                            {formatCurrency(accountingData.statement.netProfit)}
                         </span>
                     </div>
                 </div>
@@ -573,8 +750,23 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
         </div>
       </div>
 
+      {/* Drill-down trail for the category charts */}
+      {chartDrill && (
+        <div className="flex flex-wrap items-center gap-1 text-sm bg-white px-4 py-2 rounded-xl border border-slate-100 print:border-slate-300">
+          <button onClick={() => setChartDrill(null)} className="font-bold text-indigo-600 hover:underline print:hidden">Semua Kategori</button>
+          {chartDrillPath.map((id, i) => (
+            <React.Fragment key={id}>
+              <ChevronRight size={14} className="text-slate-400 print:hidden" />
+              {i === chartDrillPath.length - 1
+                ? <span className="font-bold text-slate-700">{getCategoryName(categories, id)}</span>
+                : <button onClick={() => setChartDrill(id)} className="font-bold text-indigo-600 hover:underline">{getCategoryName(categories, id)}</button>}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
       {/* Charts Area */}
-      {filteredData.length > 0 ? (
+      {cashflowData.length > 0 ? (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 print:block print:space-y-6">
           {/* Main Time Series Bar Chart */}
           <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-slate-100 print:break-inside-avoid print:border-slate-300">
@@ -617,9 +809,10 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
                       outerRadius={80}
                       paddingAngle={5}
                       dataKey="value"
+                      onClick={(_: unknown, index: number) => drillInto(categoryData[index].id, categoryData[index].hasChildren)}
                     >
                       {categoryData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell key={`cell-${index}`} fill={getCategoryColor(categories, entry.id)} cursor={entry.hasChildren ? 'pointer' : 'default'} />
                       ))}
                     </Pie>
                     <RechartsTooltip formatter={(val: number) => formatCurrency(val)} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
@@ -629,11 +822,14 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
               </div>
             ) : (
               <div className="h-72 flex flex-col items-center justify-center text-slate-400">
-                <PieChart size={40} className="mb-2 opacity-20" />
+                <PieChartIcon size={40} className="mb-2 opacity-20" />
                 <p>Tidak ada data pengeluaran</p>
                 {selectedCategories.length > 0 && <p className="text-xs mt-1">untuk kategori terpilih</p>}
               </div>
             )}
+            {categoryData.some(entry => entry.hasChildren) && (
+              <p className="text-xs text-slate-400 text-center print:hidden">Klik kategori untuk melihat subkategorinya</p>
+            )}
           </div>
 
           {/* Category Comparison Bar Chart */}
@@ -652,8 +848,10 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
                   <YAxis axisLine={false} tickLine={false} tickFormatter={(val) => `${val/1000}k`} tick={{fontSize: 12, fill: '#64748b'}} />
                   <RechartsTooltip formatter={(val: number) => formatCurrency(val)} cursor={{fill: 'transparent'}} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
                   <Legend verticalAlign="top" wrapperStyle={{ paddingBottom: '20px' }} />
-                  <Bar dataKey="income" name="Pemasukan" fill="#10B981" radius={[4, 4, 0, 0]} maxBarSize={40} />
-                  <Bar dataKey="expense" name="Pengeluaran" fill="#EF4444" radius={[4, 4, 0, 0]} maxBarSize={40} />
+                  <Bar dataKey="income" name="Pemasukan" fill="#10B981" radius={[4, 4, 0, 0]} maxBarSize={40}
+                    onClick={(_: unknown, index: number) => drillInto(categoryComparisonData[index].id, categoryComparisonData[index].hasChildren)} />
+                  <Bar dataKey="expense" name="Pengeluaran" fill="#EF4444" radius={[4, 4, 0, 0]} maxBarSize={40}
+                    onClick={(_: unknown, index: number) => drillInto(categoryComparisonData[index].id, categoryComparisonData[index].hasChildren)} />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -701,7 +899,7 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
                     </td>
                     <td className="p-4 text-sm text-slate-500">
                       <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700">
-                        {t.category}
+                        {getTransactionCategoryIds(t).map(id => getCategoryName(categories, id)).join(' + ')}
                       </span>
                     </td>
                     <td className="p-4 text-right font-bold text-rose-600">
@@ -736,7 +934,8 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
             {!analysisPoints && !isAnalyzing && (
               <button 
                 onClick={handleAnalyze}
-                className="px-4 py-2 bg-white text-indigo-900 rounded-lg font-bold text-sm hover:bg-indigo-50 transition-colors shadow-lg active:scale-95"
+                disabled={!isOnline}
+                className="px-4 py-2 bg-white text-indigo-900 rounded-lg font-bold text-sm hover:bg-indigo-50 transition-colors shadow-lg active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Analisis Sekarang
               </button>
@@ -766,7 +965,7 @@ export const Reports: React.FC<ReportsProps> = React.memo(({ transactions }) =>
             </div>
           ) : (
             <div className="py-4 text-center text-indigo-200 text-sm bg-white/5 rounded-xl border border-white/5 border-dashed">
-                <p>Klik tombol di atas untuk melihat tren dan anomali pada laporan ini.</p>
+                <p>{isOnline ? 'Klik tombol di atas untuk melihat tren dan anomali pada laporan ini.' : 'Analisis AI membutuhkan koneksi internet.'}</p>
             </div>
           )}
         </div>
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { AppData } from '../types';
+import { ParsedBackup, RestoreMode, getRestoreDiff } from '../services/backupService';
+import { DatabaseBackup, X, TriangleAlert, CheckCircle, GitMerge, Replace } from 'lucide-react';
+
+interface RestorePreviewProps {
+  fileName: string;
+  backup: ParsedBackup;
+  current: AppData;
+  workspaceName: string;
+  onRestore: (mode: RestoreMode) => void;
+  onClose: () => void;
+}
+
+export const RestorePreview: React.FC<RestorePreviewProps> = ({ fileName, backup, current, workspaceName, onRestore, onClose }) => {
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const diff = useMemo(() => (backup.data ? getRestoreDiff(current, backup.data) : []), [backup, current]);
+  const isValid = backup.errors.length === 0 && !!backup.data;
+  const lostOnReplace = diff.reduce((sum, d) => sum + d.localOnly, 0);
+
+  const confirmRestore = () => {
+    if (mode === 'REPLACE' && lostOnReplace > 0 &&
+      !confirm(`${lostOnReplace} data lokal yang tidak ada di backup akan dihapus. Lanjutkan?`)) return;
+    onRestore(mode);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] overflow-hidden flex flex-col animate-fade-in-up">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-white rounded-lg shadow-sm text-indigo-600">
+              <DatabaseBackup size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="font-bold text-slate-800">Pulihkan Backup</h3>
+              <p className="text-xs text-slate-500 truncate">
+                {fileName}
+                {backup.exportDate && ` • dibuat ${new Date(backup.exportDate).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}`}
+                {backup.schemaVersion !== undefined && ` • skema v${backup.schemaVersion}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full text-slate-500"><X size={18} /></button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4 flex-1">
+          {!isValid ? (
+            <div className="p-4 rounded-xl bg-rose-50 border border-rose-200 text-rose-800">
+              <div className="flex items-center gap-2 font-bold text-sm mb-2">
+                <TriangleAlert size={16} /> File backup tidak valid, tidak ada data yang diubah.
+              </div>
+              <ul className="space-y-1 text-xs font-mono">
+                {backup.errors.map((error, i) => <li key={i}>• {error}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <>
+              {backup.workspaceName && backup.workspaceName !== workspaceName && (
+                <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-xs flex items-center gap-2">
+                  <TriangleAlert size={14} className="flex-shrink-0" />
+                  Backup ini dibuat di workspace "{backup.workspaceName}", bukan "{workspaceName}" yang sedang aktif.
+                </div>
+              )}
+              <div className="overflow-x-auto rounded-xl border border-slate-100">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-500 text-xs">
+                    <tr>
+                      <th className="text-left p-2 font-bold">Data</th>
+                      <th className="text-right p-2 font-bold">Lokal</th>
+                      <th className="text-right p-2 font-bold">Backup</th>
+                      <th className="text-right p-2 font-bold">Baru</th>
+                      <th className="text-right p-2 font-bold" title="ID sama, isi berbeda">Berbeda</th>
+                      <th className="text-right p-2 font-bold">Sama</th>
+                      <th className="text-right p-2 font-bold" title="Hanya ada di perangkat ini">Hanya Lokal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.map(d => (
+                      <tr key={d.key} className="border-t border-slate-100">
+                        <td className="p-2 font-medium text-slate-700">{d.label}</td>
+                        <td className="p-2 text-right text-slate-500">{d.local}</td>
+                        <td className="p-2 text-right text-slate-500">{d.backup}</td>
+                        <td className="p-2 text-right font-bold text-emerald-600">{d.added || '-'}</td>
+                        <td className="p-2 text-right font-bold text-amber-600">{d.changed || '-'}</td>
+                        <td className="p-2 text-right text-slate-400">{d.unchanged || '-'}</td>
+                        <td className={`p-2 text-right font-bold ${mode === 'REPLACE' && d.localOnly > 0 ? 'text-rose-600' : 'text-slate-400'}`}>{d.localOnly || '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-3">
+                <button
+                  onClick={() => setMode('MERGE')}
+                  className={`text-left p-4 rounded-xl border-2 transition-all ${mode === 'MERGE' ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-slate-300'}`}
+                >
+                  <div className="flex items-center gap-2 font-bold text-slate-800 text-sm"><GitMerge size={16} /> Gabungkan</div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Tambahkan data baru dari backup. Data yang sudah ada (ID atau isi sama) dilewati, versi lokal dipertahankan.
+                  </p>
+                </button>
+                <button
+                  onClick={() => setMode('REPLACE')}
+                  className={`text-left p-4 rounded-xl border-2 transition-all ${mode === 'REPLACE' ? 'border-rose-500 bg-rose-50' : 'border-slate-200 hover:border-slate-300'}`}
+                >
+                  <div className="flex items-center gap-2 font-bold text-slate-800 text-sm"><Replace size={16} /> Ganti Semua</div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Setiap jenis data yang ada di backup menggantikan data lokal sepenuhnya, termasuk menghapus yang hanya ada di perangkat ini.
+                  </p>
+                </button>
+              </div>
+
+              <p className="text-xs text-slate-400">
+                Akun dan kategori yang dipakai data backup tetapi belum ada akan ditambahkan otomatis.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 bg-white border border-slate-200 hover:bg-slate-100 text-slate-600 font-bold rounded-xl transition-colors text-sm"
+          >
+            {isValid ? 'Batal' : 'Tutup'}
+          </button>
+          {isValid && (
+            <button
+              onClick={confirmRestore}
+              className={`flex-1 py-2.5 text-white font-bold rounded-xl transition-colors text-sm shadow-lg flex items-center justify-center gap-2 ${
+                mode === 'REPLACE' ? 'bg-rose-600 hover:bg-rose-700 shadow-rose-200' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200'
+              }`}
+            >
+              <CheckCircle size={16} /> Pulihkan
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
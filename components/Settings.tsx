@@ -1,18 +1,61 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Download, Upload, Trash2, Cloud, Database, RefreshCw, Key, LogIn, CheckCircle, Clock, Settings as SettingsIcon, Wallet, Plus, X, ArrowLeft, Tag, CreditCard, ChevronRight, Building2, PlusCircle, Edit2, Check, XCircle } from 'lucide-react';
-import { Transaction, Invoice, Account } from '../types';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
+import { Download, Upload, Trash2, Cloud, Database, RefreshCw, Key, LogIn, CheckCircle, Clock, Settings as SettingsIcon, Wallet, Plus, X, ArrowLeft, Tag, CreditCard, ChevronRight, Building2, PlusCircle, Edit2, Check, XCircle, Repeat, Wand2, Target, Lock, LockOpen, PlugZap, WifiOff, Users, ScrollText, ArchiveRestore, Archive } from 'lucide-react';
+import { Transaction, Invoice, Account, RecurringTransaction, CategoryRule, Budget, Debt, RetentionPolicy, CloudProviderId, UserProfile, TrashItem, CategoryRecord } from '../types';
+import { RecurringSettings } from './RecurringSettings';
+import { CategoryRuleSettings } from './CategoryRuleSettings';
+import { BudgetSettings } from './BudgetSettings';
+import { UserSettings } from './UserSettings';
+import { AuditLog } from './AuditLog';
+import { TrashBin } from './TrashBin';
+import { CategoryTreeEditor } from './CategoryTreeEditor';
+import { loadValue, saveValue } from '../services/storageRepository';
+import { CURRENT_SCHEMA_VERSION } from '../services/migrationService';
+import { encryptBackup } from '../services/backupCrypto';
+import { SnapshotInfo, DEFAULT_RETENTION } from '../services/snapshotService';
+import { CLOUD_PROVIDER_LABELS, loadCloudProvider, getActiveProviderId, getLastCloudSync, recordCloudSync, pruneSnapshots } from '../services/cloudProviders';
+import { SyncStatus } from '../services/syncService';
+import { getActiveWorkspace, toCloudFolder } from '../services/workspaceService';
+import { loadAuditLog } from '../services/auditService';
+import { getAccountUsage, hasAccountHistory, describeAccountHistory, getActiveAccounts } from '../services/accountService';
+import { getParentMap, getCategoryIds, getCategoryName, setCategoryParent, updateCategory, removeCategory as removeCategoryRecord, createCategory, validateCategoryName, getCategoryUsage, describeCategoryUsage } from '../services/categoryService';
+import { DriveSnapshotPicker } from './DriveSnapshotPicker';
+import { CloudProviderForm } from './CloudProviderForm';
 
 interface SettingsProps {
   transactions: Transaction[];
   invoices: Invoice[];
   accounts: Account[];
   setAccounts: (acc: Account[]) => void;
-  expenseCategories: string[];
-  setExpenseCategories: (cats: string[]) => void;
-  incomeCategories: string[];
-  setIncomeCategories: (cats: string[]) => void;
-  onImport: (file: File) => void;
-  onReset: () => void;
+  categories: CategoryRecord[];
+  setCategories: (categories: CategoryRecord[]) => void;
+  // Records hold the id, so renaming only touches the category itself
+  onRenameCategory: (id: string, name: string) => void;
+  onMergeCategory: (sourceId: string, targetId: string) => void;
+  // Null deletes an account without history, otherwise its records move to the target first
+  onDeleteAccount: (id: string, targetId: string | null) => void;
+  recurring: RecurringTransaction[];
+  setRecurring: (rules: RecurringTransaction[]) => void;
+  categoryRules: CategoryRule[];
+  setCategoryRules: (rules: CategoryRule[]) => void;
+  budgets: Budget[];
+  setBudgets: (budgets: Budget[]) => void;
+  debts: Debt[];
+  // Left out when the current user may not restore or reset, which hides those controls
+  onImport?: (file: File) => void;
+  onReset?: () => void;
+  syncEnabled: boolean;
+  syncStatus: SyncStatus;
+  onToggleSync: (enabled: boolean) => void;
+  onSyncNow: () => void;
+  isOnline: boolean;
+  users: UserProfile[];
+  setUsers?: (users: UserProfile[]) => void; // Left out for users who may not manage profiles
+  currentUserId: string | null;
+  autoLockMinutes: number;
+  setAutoLockMinutes: (minutes: number) => void;
+  trash: TrashItem[];
+  onRestoreTrash: (ids: string[]) => void;
+  onPurgeTrash?: (ids: string[]) => void; // Left out for users who may not delete for good
 }
 
 // Global declaration for Google API
@@ -23,19 +66,34 @@ declare global {
   }
 }
 
+const describeSyncStatus = (status: SyncStatus) => {
+  switch (status.state) {
+    case 'SYNCING': return 'Menyinkronkan...';
+    case 'OFFLINE': return 'Menunggu koneksi penyimpanan cloud';
+    case 'ERROR': return status.message;
+    case 'CONFLICT': return 'Ada konflik yang perlu dipilih';
+    case 'OK': return `Tersinkron ${new Date(status.at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} • ${status.pushed} dikirim, ${status.pulled} diterima`;
+    default: return 'Belum disinkronkan';
+  }
+};
+
 const SCOPES = 'https://www.googleapis.com/auth/drive.file';
 const DISCOVERY_DOC = 'https://www.googleapis.com/discovery/v1/apis/drive/v3/rest';
-const BACKUP_FILENAME = 'letsfinance_backup_auto.json';
-
 export const Settings: React.FC<SettingsProps> = ({ 
   transactions, invoices, 
   accounts, setAccounts,
-  expenseCategories, setExpenseCategories,
-  incomeCategories, setIncomeCategories,
-  onImport, onReset 
+  categories, setCategories, onRenameCategory, onMergeCategory, onDeleteAccount,
+  recurring, setRecurring,
+  categoryRules, setCategoryRules,
+  budgets, setBudgets,
+  debts,
+  onImport, onReset,
+  syncEnabled, syncStatus, onToggleSync, onSyncNow, isOnline,
+  users, setUsers, currentUserId, autoLockMinutes, setAutoLockMinutes,
+  trash, onRestoreTrash, onPurgeTrash
 }) => {
   const [activeTab, setActiveTab] = useState<'CONFIG' | 'DATA'>('CONFIG');
-  const [configSection, setConfigSection] = useState<'MENU' | 'ACCOUNTS' | 'CATEGORIES'>('MENU');
+  const [configSection, setConfigSection] = useState<'MENU' | 'ACCOUNTS' | 'CATEGORIES' | 'RECURRING' | 'RULES' | 'BUDGETS' | 'USERS' | 'AUDIT' | 'TRASH'>('MENU');
   const [categoryType, setCategoryType] = useState<'EXPENSE' | 'INCOME'>('EXPENSE');
   
   // -- Setup State --
@@ -45,6 +103,8 @@ export const Settings: React.FC<SettingsProps> = ({
   // -- Edit State --
   const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
   const [editingAccountName, setEditingAccountName] = useState('');
+  // Account with history the user tried to delete, and where its transactions should go
+  const [deletingAccount, setDeletingAccount] = useState<{ id: string; targetId: string } | null>(null);
 
   // -- Data Management State --
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -54,9 +114,17 @@ export const Settings: React.FC<SettingsProps> = ({
   const [isConnected, setIsConnected] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
-  const [clientId, setClientId] = useState(localStorage.getItem('gdrive_client_id') || '');
-  const [apiKey, setApiKey] = useState(localStorage.getItem('gdrive_api_key') || '');
+  const [clientId, setClientId] = useState('');
+  const [apiKey, setApiKey] = useState('');
   const [showConfig, setShowConfig] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [passphraseDraft, setPassphraseDraft] = useState({ passphrase: '', confirm: '' });
+  const [retention, setRetention] = useState<RetentionPolicy>(DEFAULT_RETENTION);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<CloudProviderId>('GDRIVE');
+  const [providerConfigured, setProviderConfigured] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
 
   // Initialize Google Scripts
   useEffect(() => {
@@ -74,8 +142,11 @@ export const Settings: React.FC<SettingsProps> = ({
     script2.onload = () => setGisInited(true);
     document.body.appendChild(script2);
 
-    const savedSync = localStorage.getItem('letsfinance_last_sync');
-    if(savedSync) setLastSyncTime(savedSync);
+    getActiveProviderId().then(showProvider);
+    loadValue('gdriveClientId').then(saved => { if (saved) setClientId(saved); });
+    loadValue('gdriveApiKey').then(saved => { if (saved) setApiKey(saved); });
+    loadValue('backupPassphrase').then(saved => { if (saved) setBackupPassphrase(saved); });
+    loadValue('snapshotRetention').then(saved => { if (saved) setRetention(saved); });
 
     return () => {
       document.body.removeChild(script1);
@@ -83,9 +154,9 @@ export const Settings: React.FC<SettingsProps> = ({
     };
   }, []);
 
-  const saveConfig = () => {
-    localStorage.setItem('gdrive_client_id', clientId);
-    localStorage.setItem('gdrive_api_key', apiKey);
+  const saveConfig = async () => {
+    await saveValue('gdriveClientId', clientId);
+    await saveValue('gdriveApiKey', apiKey);
     alert("Konfigurasi disimpan. Silakan refresh halaman.");
     window.location.reload();
   };
@@ -132,102 +203,154 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
-  const prepareBackupData = () => {
+  const prepareBackupData = async () => {
     return JSON.stringify({
       transactions,
       invoices,
       accounts,
-      expenseCategories,
-      incomeCategories,
+      categories,
+      recurring,
+      categoryRules,
+      budgets,
+      debts,
+      auditLog: await loadAuditLog(),
       exportDate: new Date().toISOString(),
-      appVersion: '1.0.0'
+      workspaceName: getActiveWorkspace().name,
+      schemaVersion: CURRENT_SCHEMA_VERSION
     }, null, 2);
   };
 
-  const uploadToDrive = async () => {
-    if (!isConnected) { alert("Mohon login ke Google Drive terlebih dahulu."); return; }
+  // Same content as prepareBackupData, wrapped in an encrypted envelope when a passphrase is set
+  const prepareBackupFile = async () => {
+    const plaintext = await prepareBackupData();
+    return backupPassphrase ? encryptBackup(plaintext, backupPassphrase) : plaintext;
+  };
+
+  const saveBackupPassphrase = async () => {
+    if (passphraseDraft.passphrase.length < 8) { alert("Passphrase minimal 8 karakter."); return; }
+    if (passphraseDraft.passphrase !== passphraseDraft.confirm) { alert("Konfirmasi passphrase tidak sama."); return; }
+    await saveValue('backupPassphrase', passphraseDraft.passphrase);
+    setBackupPassphrase(passphraseDraft.passphrase);
+    setPassphraseDraft({ passphrase: '', confirm: '' });
+    alert("Enkripsi backup aktif. Simpan passphrase Anda di tempat aman, backup tidak bisa dipulihkan tanpanya.");
+  };
+
+  const disableBackupEncryption = async () => {
+    if (!confirm("Matikan enkripsi? Backup berikutnya akan disimpan tanpa enkripsi.")) return;
+    await saveValue('backupPassphrase', '');
+    setBackupPassphrase('');
+  };
+
+  // --- Cloud provider ---
+  const providerLabel = CLOUD_PROVIDER_LABELS[providerId];
+  // Drive needs a sign-in every session, WebDAV and S3 only a complete saved configuration
+  const providerReady = providerId === 'GDRIVE' ? isConnected : providerConfigured;
+
+  const showProvider = async (id: CloudProviderId) => {
+    setProviderId(id);
+    setProviderConfigured(!!(await loadCloudProvider(id)));
+    const lastSync = await getLastCloudSync(id);
+    setLastSyncTime(lastSync ? new Date(lastSync).toLocaleString('id-ID') : null);
+  };
+
+  const selectProvider = async (id: CloudProviderId) => {
+    await saveValue('cloudProvider', id);
+    setShowConfig(false);
+    await showProvider(id);
+  };
+
+  const getReadyProvider = async () => {
+    const provider = await loadCloudProvider(providerId);
+    if (!provider || !providerReady) {
+      alert(providerId === 'GDRIVE' ? "Mohon login ke Google Drive terlebih dahulu." : `Lengkapi konfigurasi ${providerLabel} terlebih dahulu.`);
+      return null;
+    }
+    return provider;
+  };
+
+  const testConnection = async () => {
+    const provider = await getReadyProvider();
+    if (!provider) return;
+    setIsTesting(true);
+    try {
+      await provider.testConnection();
+      alert(`Koneksi ${provider.label} berhasil.`);
+    } catch (err) {
+      console.error("Connection test failed", err);
+      alert(`Koneksi ${provider.label} gagal. ${err instanceof TypeError ? 'Server tidak dapat dihubungi.' : (err as Error).message}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  // Every upload is a new timestamped snapshot, older ones are pruned by the retention policy
+  const uploadToCloud = async () => {
+    const provider = await getReadyProvider();
+    if (!provider) return;
     setIsSyncing(true);
     try {
-      const response = await window.gapi.client.drive.files.list({
-        q: `name = '${BACKUP_FILENAME}' and trashed = false`,
-        fields: 'files(id, name)',
+      await provider.uploadSnapshot(await prepareBackupFile(), {
+        counts: { transactions: transactions.length, invoices: invoices.length, accounts: accounts.length, debts: debts.length },
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        encrypted: !!backupPassphrase,
       });
-      const files = response.result.files;
-      const fileContent = prepareBackupData();
-      const fileMetadata = { name: BACKUP_FILENAME, mimeType: 'application/json' };
-      const boundary = '-------314159265358979323846';
-      const delimiter = "\r\n--" + boundary + "\r\n";
-      const close_delim = "\r\n--" + boundary + "--";
-      const contentType = 'application/json';
-      const multipartRequestBody = delimiter + 'Content-Type: application/json\r\n\r\n' + JSON.stringify(fileMetadata) + delimiter + 'Content-Type: ' + contentType + '\r\n\r\n' + fileContent + close_delim;
-
-      if (files && files.length > 0) {
-        const fileId = files[0].id;
-        await window.gapi.client.request({
-          path: `/upload/drive/v3/files/${fileId}`,
-          method: 'PATCH',
-          params: { uploadType: 'multipart' },
-          headers: { 'Content-Type': 'multipart/related; boundary="' + boundary + '"' },
-          body: multipartRequestBody
-        });
-        alert("Backup berhasil diperbarui di Google Drive!");
-      } else {
-        await window.gapi.client.request({
-          path: '/upload/drive/v3/files',
-          method: 'POST',
-          params: { uploadType: 'multipart' },
-          headers: { 'Content-Type': 'multipart/related; boundary="' + boundary + '"' },
-          body: multipartRequestBody
-        });
-        alert("Backup baru berhasil dibuat di Google Drive!");
-      }
-      
-      const now = new Date();
-      const nowStr = now.toLocaleString('id-ID');
-      setLastSyncTime(nowStr);
-      localStorage.setItem('letsfinance_last_sync', nowStr);
-      localStorage.setItem('letsfinance_last_sync_ts', now.getTime().toString());
+      const pruned = await pruneSnapshots(provider, retention);
+      alert(`Snapshot berhasil dibuat di ${provider.label}!${pruned > 0 ? ` ${pruned} snapshot lama dihapus sesuai retensi.` : ''}`);
+
+      const now = Date.now();
+      await recordCloudSync(provider.id, now);
+      setLastSyncTime(new Date(now).toLocaleString('id-ID'));
 
     } catch (err) {
       console.error("Upload Error", err);
-      alert("Gagal upload ke Google Drive.");
+      alert(`Gagal upload ke ${provider.label}.`);
     } finally {
       setIsSyncing(false);
     }
   };
 
-  const restoreFromDrive = async () => {
-    if (!isConnected) { alert("Mohon login ke Google Drive terlebih dahulu."); return; }
+  const restoreFromCloud = async () => {
+    const provider = await getReadyProvider();
+    if (!provider) return;
     setIsSyncing(true);
     try {
-       const response = await window.gapi.client.drive.files.list({
-        q: `name = '${BACKUP_FILENAME}' and trashed = false`,
-        fields: 'files(id, name)',
-      });
-      const files = response.result.files;
-      if (files && files.length > 0) {
-        const fileId = files[0].id;
-        const result = await window.gapi.client.drive.files.get({ fileId: fileId, alt: 'media' });
-        const json = result.result;
-        const blob = new Blob([JSON.stringify(json)], {type: 'application/json'});
-        const file = new File([blob], BACKUP_FILENAME, {type: 'application/json'});
-        if (confirm(`Backup ditemukan. Pulihkan data? Data saat ini akan ditimpa.`)) {
-           onImport(file);
-        }
-      } else {
-        alert("File backup tidak ditemukan.");
-      }
+      setSnapshots(await provider.listSnapshots());
     } catch (err) {
-      alert("Gagal mengambil data dari Google Drive.");
+      alert(`Gagal mengambil daftar snapshot dari ${provider.label}.`);
     } finally {
       setIsSyncing(false);
     }
   };
 
-  const handleExport = () => {
-    const dataStr = prepareBackupData();
+  const restoreSnapshot = async (snapshot: SnapshotInfo) => {
+    if (!onImport) return;
+    const provider = await getReadyProvider();
+    if (!provider) return;
+    setRestoringId(snapshot.id);
+    try {
+      const content = await provider.downloadSnapshot(snapshot.id);
+      // Opens the restore preview, nothing is changed before the user confirms there
+      onImport(new File([content], snapshot.name, { type: 'application/json' }));
+      setSnapshots(null);
+    } catch (err) {
+      alert(`Gagal mengambil data dari ${provider.label}.`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const saveRetention = async () => {
+    const values = [retention.daily, retention.weekly, retention.monthly];
+    if (values.some(v => !Number.isInteger(v) || v < 0)) { alert("Jumlah retensi harus bilangan bulat 0 atau lebih."); return; }
+    await saveValue('snapshotRetention', retention);
+    alert("Pengaturan retensi disimpan. Berlaku pada backup berikutnya.");
+  };
+
+  const handleExport = async () => {
+    const dataStr = await prepareBackupFile();
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    const exportFileDefaultName = `letsfinance_backup_${new Date().toISOString().split('T')[0]}.json`;
+    const workspaceSlug = toCloudFolder(getActiveWorkspace().name) || 'workspace';
+    const exportFileDefaultName = `letsfinance_backup_${workspaceSlug}_${new Date().toISOString().split('T')[0]}${backupPassphrase ? '.encrypted' : ''}.json`;
     const linkElement = document.createElement('a');
     linkElement.setAttribute('href', dataUri);
     linkElement.setAttribute('download', exportFileDefaultName);
@@ -236,10 +359,8 @@ export const Settings: React.FC<SettingsProps> = ({
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (confirm("Data saat ini akan ditimpa dengan data dari file backup. Lanjutkan?")) {
-        onImport(file);
-      }
+    if (file && onImport) {
+      onImport(file);
       if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
@@ -281,37 +402,118 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const accountUsage = (id: string) => getAccountUsage({ transactions, recurring, categoryRules, trash }, id);
+
+  // Accounts with history can't just disappear, the user picks between moving and archiving
   const removeAccount = (id: string) => {
       if (accounts.length <= 1) {
           alert("Anda harus menyisakan setidaknya satu akun agar sistem berjalan dengan baik.");
           return;
       }
-      if (confirm("Hapus akun ini? Transaksi yang terkait mungkin akan kehilangan referensi nama akun.")) {
-          setAccounts(accounts.filter(a => a.id !== id));
+      const account = accounts.find(a => a.id === id);
+      if (!account) return;
+      if (hasAccountHistory(account, accountUsage(id))) {
+          setDeletingAccount({ id, targetId: getActiveAccounts(accounts).find(a => a.id !== id)?.id || '' });
+          return;
+      }
+      if (confirm("Hapus akun ini?")) {
+          onDeleteAccount(id, null);
+      }
+  };
+
+  const reassignAndRemoveAccount = () => {
+      if (!deletingAccount) return;
+      const source = accounts.find(a => a.id === deletingAccount.id);
+      const target = accounts.find(a => a.id === deletingAccount.targetId);
+      if (!source || !target) {
+          alert("Pilih akun tujuan terlebih dahulu.");
+          return;
+      }
+      const usage = describeAccountHistory(source, accountUsage(source.id));
+      if (confirm(`Pindahkan ${usage} dari ${source.name} ke ${target.name}, lalu hapus ${source.name}?`)) {
+          onDeleteAccount(source.id, target.id);
+          setDeletingAccount(null);
       }
   };
 
+  // Archived accounts keep their history in reports and balances, they only leave the pickers
+  const toggleArchiveAccount = (id: string) => {
+      const account = accounts.find(a => a.id === id);
+      if (!account) return;
+      if (!account.archived && getActiveAccounts(accounts).length <= 1) {
+          alert("Anda harus menyisakan setidaknya satu akun aktif.");
+          return;
+      }
+      setAccounts(accounts.map(a => {
+          if (a.id !== id) return a;
+          const { archived, ...rest } = a;
+          return archived ? rest : { ...rest, archived: true };
+      }));
+      if (deletingAccount?.id === id) setDeletingAccount(null);
+  };
+
+  const expenseCategories = useMemo(() => getCategoryIds(categories, 'EXPENSE'), [categories]);
+  const incomeCategories = useMemo(() => getCategoryIds(categories, 'INCOME'), [categories]);
+  const visibleCategories = categoryType === 'EXPENSE' ? expenseCategories : incomeCategories;
+  const parentMap = useMemo(() => getParentMap(categories, categoryType), [categories, categoryType]);
+  const nameOf = (id: string) => getCategoryName(categories, id);
+
   const addCategory = () => {
     if (!newCategory.trim()) return;
-    
-    if (categoryType === 'EXPENSE') {
-        if (!expenseCategories.includes(newCategory)) {
-            setExpenseCategories([...expenseCategories, newCategory]);
-        }
-    } else {
-        if (!incomeCategories.includes(newCategory)) {
-            setIncomeCategories([...incomeCategories, newCategory]);
-        }
+    const error = validateCategoryName(categories, categoryType, newCategory);
+    if (error) {
+        alert(error);
+        return;
     }
+    setCategories([...categories, createCategory(categoryType, newCategory.trim())]);
     setNewCategory('');
   };
 
-  const removeCategory = (cat: string) => {
-      if (categoryType === 'EXPENSE') {
-          setExpenseCategories(expenseCategories.filter(c => c !== cat));
-      } else {
-          setIncomeCategories(incomeCategories.filter(c => c !== cat));
+  const usageOf = (id: string) =>
+      describeCategoryUsage(getCategoryUsage({ transactions, recurring, categoryRules, budgets, trash }, id));
+
+  // A category still in use would leave its records pointing at an id that's nowhere in the list
+  const removeCategory = (id: string) => {
+      const usage = usageOf(id);
+      if (usage) {
+          alert(`Kategori "${nameOf(id)}" masih dipakai oleh ${usage}. Gabungkan ke kategori lain agar data tersebut tetap berkategori.`);
+          return;
       }
+      setCategories(removeCategoryRecord(categories, id));
+  };
+
+  const renameCategory = (id: string, name: string) => {
+      const category = categories.find(c => c.id === id);
+      if (!category) return;
+      const error = validateCategoryName(categories, categoryType, name, category.parentId, id);
+      if (error) {
+          alert(error);
+          return;
+      }
+      if (confirm(`Ganti nama "${category.name}" menjadi "${name}"?`)) {
+          onRenameCategory(id, name);
+      }
+  };
+
+  const mergeCategory = (id: string, targetId: string) => {
+      const usage = usageOf(id);
+      const details = [
+          usage && `${usage} dipindahkan ke "${nameOf(targetId)}".`,
+          visibleCategories.some(c => parentMap.get(c) === id) ? `Subkategori "${nameOf(id)}" pindah ke bawah "${nameOf(targetId)}".` : '',
+      ].filter(Boolean).join('\n');
+      if (confirm(`Gabungkan "${nameOf(id)}" ke "${nameOf(targetId)}"? Kategori "${nameOf(id)}" akan dihapus.${details ? `\n\n${details}` : ''}`)) {
+          onMergeCategory(id, targetId);
+      }
+  };
+
+  // Names only have to be unique among siblings, so the new parent must not have one with the same name
+  const moveCategory = (id: string, parentId: string | null) => {
+      const error = validateCategoryName(categories, categoryType, nameOf(id), parentId ?? undefined, id);
+      if (error) {
+          alert(error);
+          return;
+      }
+      setCategories(setCategoryParent(categories, id, parentId));
   };
 
   return (
@@ -370,6 +572,92 @@ export const Settings: React.FC<SettingsProps> = ({
                       Atur Kategori <ChevronRight size={16} />
                    </div>
                 </button>
+
+                <button 
+                  onClick={() => setConfigSection('RECURRING')}
+                  className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all text-left group"
+                >
+                   <div className="w-12 h-12 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                      <Repeat size={28} />
+                   </div>
+                   <h3 className="text-lg font-bold text-slate-800 mb-1">Transaksi Berulang</h3>
+                   <p className="text-sm text-slate-500">Jadwalkan sewa, gaji, dan tagihan rutin.</p>
+                   <div className="mt-4 flex items-center text-indigo-600 text-sm font-bold">
+                      Atur Jadwal <ChevronRight size={16} />
+                   </div>
+                </button>
+
+                <button 
+                  onClick={() => setConfigSection('RULES')}
+                  className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all text-left group"
+                >
+                   <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                      <Wand2 size={28} />
+                   </div>
+                   <h3 className="text-lg font-bold text-slate-800 mb-1">Aturan Kategori</h3>
+                   <p className="text-sm text-slate-500">Kategorikan transaksi otomatis berdasarkan merchant, nominal, atau akun.</p>
+                   <div className="mt-4 flex items-center text-amber-600 text-sm font-bold">
+                      Atur Aturan <ChevronRight size={16} />
+                   </div>
+                </button>
+
+                <button 
+                  onClick={() => setConfigSection('BUDGETS')}
+                  className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all text-left group"
+                >
+                   <div className="w-12 h-12 bg-rose-100 text-rose-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                      <Target size={28} />
+                   </div>
+                   <h3 className="text-lg font-bold text-slate-800 mb-1">Anggaran Bulanan</h3>
+                   <p className="text-sm text-slate-500">Batasi pengeluaran per kategori setiap bulan.</p>
+                   <div className="mt-4 flex items-center text-rose-600 text-sm font-bold">
+                      Atur Anggaran <ChevronRight size={16} />
+                   </div>
+                </button>
+
+                <button 
+                  onClick={() => setConfigSection('AUDIT')}
+                  className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all text-left group"
+                >
+                   <div className="w-12 h-12 bg-violet-100 text-violet-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                      <ScrollText size={28} />
+                   </div>
+                   <h3 className="text-lg font-bold text-slate-800 mb-1">Log Audit</h3>
+                   <p className="text-sm text-slate-500">Lihat siapa menambah, mengubah, atau menghapus data dan kapan.</p>
+                   <div className="mt-4 flex items-center text-violet-600 text-sm font-bold">
+                      Lihat Log <ChevronRight size={16} />
+                   </div>
+                </button>
+
+                <button 
+                  onClick={() => setConfigSection('TRASH')}
+                  className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all text-left group"
+                >
+                   <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                      <ArchiveRestore size={28} />
+                   </div>
+                   <h3 className="text-lg font-bold text-slate-800 mb-1">Tempat Sampah</h3>
+                   <p className="text-sm text-slate-500">Pulihkan transaksi dan invoice yang terhapus dalam 30 hari terakhir.</p>
+                   <div className="mt-4 flex items-center text-amber-600 text-sm font-bold">
+                      {trash.length} Data <ChevronRight size={16} />
+                   </div>
+                </button>
+
+                {setUsers && (
+                  <button 
+                    onClick={() => setConfigSection('USERS')}
+                    className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 hover:border-indigo-300 hover:shadow-md transition-all text-left group"
+                  >
+                     <div className="w-12 h-12 bg-slate-100 text-slate-600 rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+                        <Users size={28} />
+                     </div>
+                     <h3 className="text-lg font-bold text-slate-800 mb-1">Pengguna & PIN</h3>
+                     <p className="text-sm text-slate-500">Buat profil staf, atur peran, dan kunci aplikasi dengan PIN.</p>
+                     <div className="mt-4 flex items-center text-slate-600 text-sm font-bold">
+                        Atur Pengguna <ChevronRight size={16} />
+                     </div>
+                  </button>
+                )}
              </div>
            )}
 
@@ -389,59 +677,98 @@ export const Settings: React.FC<SettingsProps> = ({
                 <div className="p-6 space-y-4">
                    <div className="grid gap-3">
                       {accounts.map(acc => (
-                        <div key={acc.id} className="flex justify-between items-center p-3 rounded-xl border border-slate-100 bg-slate-50 transition-all hover:shadow-sm">
-                           <div className="flex items-center gap-3 flex-1">
-                              <div className={`w-10 h-10 rounded-lg flex items-center justify-center text-white shadow-sm flex-shrink-0 ${
-                                acc.type === 'CASH' ? 'bg-emerald-500' : acc.type === 'BANK' ? 'bg-blue-500' : 'bg-purple-500'
-                              }`}>
-                                 {acc.type === 'CASH' ? <Wallet size={20}/> : acc.type === 'BANK' ? <Building2 size={20}/> : <CreditCard size={20}/>}
-                              </div>
+                        <React.Fragment key={acc.id}>
+                          <div className={`flex justify-between items-center p-3 rounded-xl border border-slate-100 bg-slate-50 transition-all hover:shadow-sm ${acc.archived ? 'opacity-60' : ''}`}>
+                             <div className="flex items-center gap-3 flex-1">
+                                <div className={`w-10 h-10 rounded-lg flex items-center justify-center text-white shadow-sm flex-shrink-0 ${
+                                  acc.type === 'CASH' ? 'bg-emerald-500' : acc.type === 'BANK' ? 'bg-blue-500' : 'bg-purple-500'
+                                }`}>
+                                   {acc.type === 'CASH' ? <Wallet size={20}/> : acc.type === 'BANK' ? <Building2 size={20}/> : <CreditCard size={20}/>}
+                                </div>
                               
-                              <div className="flex-1">
-                                 {editingAccountId === acc.id ? (
-                                   <div className="flex items-center gap-2">
-                                      <input 
-                                        type="text" 
-                                        className="border border-indigo-300 rounded px-2 py-1 text-sm font-bold text-slate-700 outline-none w-full"
-                                        value={editingAccountName}
-                                        onChange={(e) => setEditingAccountName(e.target.value)}
-                                        autoFocus
-                                      />
-                                      <button onClick={saveEditAccount} className="p-1 bg-indigo-100 text-indigo-600 rounded hover:bg-indigo-200"><Check size={16} /></button>
-                                      <button onClick={() => setEditingAccountId(null)} className="p-1 bg-slate-100 text-slate-500 rounded hover:bg-slate-200"><X size={16} /></button>
-                                   </div>
-                                 ) : (
-                                   <>
-                                     <p className="font-bold text-slate-700">{acc.name}</p>
-                                     <p className="text-xs text-slate-500">
-                                        {acc.type === 'CASH' ? 'Tunai' : acc.type === 'BANK' ? 'Bank' : 'E-Wallet'} • Awal: Rp{acc.initialBalance.toLocaleString('id-ID')}
-                                     </p>
-                                   </>
-                                 )}
-                              </div>
-                           </div>
+                                <div className="flex-1">
+                                   {editingAccountId === acc.id ? (
+                                     <div className="flex items-center gap-2">
+                                        <input 
+                                          type="text" 
+                                          className="border border-indigo-300 rounded px-2 py-1 text-sm font-bold text-slate-700 outline-none w-full"
+                                          value={editingAccountName}
+                                          onChange={(e) => setEditingAccountName(e.target.value)}
+                                          autoFocus
+                                        />
+                                        <button onClick={saveEditAccount} className="p-1 bg-indigo-100 text-indigo-600 rounded hover:bg-indigo-200"><Check size={16} /></button>
+                                        <button onClick={() => setEditingAccountId(null)} className="p-1 bg-slate-100 text-slate-500 rounded hover:bg-slate-200"><X size={16} /></button>
+                                     </div>
+                                   ) : (
+                                     <>
+                                       <p className="font-bold text-slate-700">
+                                          {acc.name}
+                                          {acc.archived && <span className="ml-2 text-[10px] font-bold uppercase text-slate-500 bg-slate-200 px-1.5 py-0.5 rounded">Diarsipkan</span>}
+                                       </p>
+                                       <p className="text-xs text-slate-500">
+                                          {acc.type === 'CASH' ? 'Tunai' : acc.type === 'BANK' ? 'Bank' : 'E-Wallet'} • Awal: Rp{acc.initialBalance.toLocaleString('id-ID')}
+                                       </p>
+                                     </>
+                                   )}
+                                </div>
+                             </div>
                            
-                           {editingAccountId !== acc.id && (
-                             <div className="flex items-center gap-1">
-                               <button 
-                                  onClick={() => startEditAccount(acc)}
-                                  className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
-                                  title="Edit Nama Akun"
-                               >
-                                  <Edit2 size={16} />
-                               </button>
-                               {accounts.length > 1 && (
+                             {editingAccountId !== acc.id && (
+                               <div className="flex items-center gap-1">
                                  <button 
-                                      onClick={() => removeAccount(acc.id)} 
-                                      className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
-                                      title="Hapus Akun"
+                                    onClick={() => startEditAccount(acc)}
+                                    className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                                    title="Edit Nama Akun"
                                  >
-                                      <Trash2 size={16} />
+                                    <Edit2 size={16} />
                                  </button>
-                               )}
-                             </div>
-                           )}
-                        </div>
+                                 <button 
+                                    onClick={() => toggleArchiveAccount(acc.id)}
+                                    className="p-2 text-slate-400 hover:text-amber-500 hover:bg-amber-50 rounded-lg transition-colors"
+                                    title={acc.archived ? "Aktifkan Kembali" : "Arsipkan Akun"}
+                                 >
+                                    {acc.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                                 </button>
+                                 {accounts.length > 1 && (
+                                   <button 
+                                        onClick={() => removeAccount(acc.id)} 
+                                        className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                        title="Hapus Akun"
+                                   >
+                                        <Trash2 size={16} />
+                                   </button>
+                                 )}
+                               </div>
+                             )}
+                          </div>
+                          {deletingAccount?.id === acc.id && (
+                            <div className="p-4 rounded-xl border border-rose-100 bg-rose-50/50 space-y-3">
+                               <p className="text-sm text-slate-600">
+                                  <span className="font-bold text-slate-800">{acc.name}</span> masih memiliki {describeAccountHistory(acc, accountUsage(acc.id))}.
+                                  Pindahkan semuanya ke akun lain lalu hapus, atau arsipkan akun ini agar tetap tercatat di laporan dan saldo.
+                               </p>
+                               <select
+                                  className="w-full p-2.5 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                                  value={deletingAccount.targetId}
+                                  onChange={e => setDeletingAccount({ ...deletingAccount, targetId: e.target.value })}
+                               >
+                                  <option value="">Pindahkan ke akun...</option>
+                                  {getActiveAccounts(accounts).filter(a => a.id !== acc.id).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                               </select>
+                               <div className="flex flex-wrap gap-2 justify-end">
+                                  <button onClick={() => setDeletingAccount(null)} className="px-3 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">Batal</button>
+                                  {!acc.archived && (
+                                    <button onClick={() => toggleArchiveAccount(acc.id)} className="px-3 py-2 text-sm font-bold text-amber-700 bg-amber-100 hover:bg-amber-200 rounded-lg flex items-center gap-1.5">
+                                       <Archive size={14} /> Arsipkan
+                                    </button>
+                                  )}
+                                  <button onClick={reassignAndRemoveAccount} disabled={!deletingAccount.targetId} className="px-3 py-2 text-sm font-bold text-white bg-rose-600 hover:bg-rose-700 rounded-lg disabled:opacity-50">
+                                     Pindahkan & Hapus
+                                  </button>
+                               </div>
+                            </div>
+                          )}
+                        </React.Fragment>
                       ))}
                    </div>
 
@@ -557,20 +884,12 @@ export const Settings: React.FC<SettingsProps> = ({
                       </button>
                    </div>
 
-                   <div className="flex flex-wrap gap-2 mb-6 min-h-[100px] content-start">
-                      {(categoryType === 'EXPENSE' ? expenseCategories : incomeCategories).map(cat => (
-                        <div key={cat} className={`inline-flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-lg border text-sm font-medium ${
-                            categoryType === 'EXPENSE' 
-                            ? 'bg-rose-50 text-rose-700 border-rose-100' 
-                            : 'bg-emerald-50 text-emerald-700 border-emerald-100'
-                        }`}>
-                           {cat}
-                           <button onClick={() => removeCategory(cat)} className="hover:bg-black/5 rounded p-0.5 transition-colors">
-                              <X size={14}/>
-                           </button>
-                        </div>
-                      ))}
-                   </div>
+                   <p className="text-xs text-slate-500 mb-3">Seret kategori ke kategori lain untuk menjadikannya subkategori, misalnya Internet di bawah Operasional. Ganti nama atau gabungkan kategori lewat tombol di tiap baris; saat digabungkan, transaksi, anggaran dan aturannya pindah ke kategori tujuan. Klik ikon kategori untuk memilih warna, ikon dan posnya di Laba Rugi.</p>
+                   <CategoryTreeEditor
+                      type={categoryType} categoryIds={visibleCategories} records={categories} parentMap={parentMap}
+                      onMove={moveCategory} onRemove={removeCategory} onRename={renameCategory} onMerge={mergeCategory}
+                      onUpdate={(id, patch) => setCategories(updateCategory(categories, id, patch))}
+                   />
 
                    <div className="flex gap-2">
                       <input 
@@ -594,9 +913,121 @@ export const Settings: React.FC<SettingsProps> = ({
              </div>
            )}
 
+           {/* RECURRING TRANSACTIONS */}
+           {configSection === 'RECURRING' && (
+             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                <div className="p-4 border-b border-slate-100 flex items-center gap-3">
+                   <button onClick={() => setConfigSection('MENU')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                      <ArrowLeft size={20} />
+                   </button>
+                   <div>
+                      <h3 className="font-bold text-slate-800">Transaksi Berulang</h3>
+                      <p className="text-xs text-slate-500">{recurring.length} Jadwal terdaftar</p>
+                   </div>
+                </div>
+                <RecurringSettings 
+                  recurring={recurring} setRecurring={setRecurring} accounts={accounts} categories={categories}
+                  expenseCategories={expenseCategories} incomeCategories={incomeCategories}
+                />
+             </div>
+           )}
+
+           {/* CATEGORY RULES */}
+           {configSection === 'RULES' && (
+             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                <div className="p-4 border-b border-slate-100 flex items-center gap-3">
+                   <button onClick={() => setConfigSection('MENU')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                      <ArrowLeft size={20} />
+                   </button>
+                   <div>
+                      <h3 className="font-bold text-slate-800">Aturan Kategori</h3>
+                      <p className="text-xs text-slate-500">{categoryRules.length} Aturan terdaftar</p>
+                   </div>
+                </div>
+                <CategoryRuleSettings 
+                  rules={categoryRules} setRules={setCategoryRules} transactions={transactions} accounts={accounts} categories={categories}
+                  expenseCategories={expenseCategories} incomeCategories={incomeCategories}
+                />
+             </div>
+           )}
+
+           {/* MONTHLY BUDGETS */}
+           {configSection === 'BUDGETS' && (
+             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                <div className="p-4 border-b border-slate-100 flex items-center gap-3">
+                   <button onClick={() => setConfigSection('MENU')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                      <ArrowLeft size={20} />
+                   </button>
+                   <div>
+                      <h3 className="font-bold text-slate-800">Anggaran Bulanan</h3>
+                      <p className="text-xs text-slate-500">Batas pengeluaran per kategori</p>
+                   </div>
+                </div>
+                <BudgetSettings budgets={budgets} setBudgets={setBudgets} categories={categories} expenseCategories={expenseCategories} />
+             </div>
+           )}
+
+           {/* AUDIT LOG */}
+           {configSection === 'AUDIT' && (
+             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                <div className="p-4 border-b border-slate-100 flex items-center gap-3">
+                   <button onClick={() => setConfigSection('MENU')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                      <ArrowLeft size={20} />
+                   </button>
+                   <div>
+                      <h3 className="font-bold text-slate-800">Log Audit</h3>
+                      <p className="text-xs text-slate-500">Catatan setiap perubahan data, tidak dapat diubah</p>
+                   </div>
+                </div>
+                <AuditLog />
+             </div>
+           )}
+
+           {/* TRASH BIN */}
+           {configSection === 'TRASH' && (
+             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                <div className="p-4 border-b border-slate-100 flex items-center gap-3">
+                   <button onClick={() => setConfigSection('MENU')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                      <ArrowLeft size={20} />
+                   </button>
+                   <div>
+                      <h3 className="font-bold text-slate-800">Tempat Sampah</h3>
+                      <p className="text-xs text-slate-500">{trash.length} Data menunggu dihapus permanen</p>
+                   </div>
+                </div>
+                <TrashBin trash={trash} categories={categories} onRestore={onRestoreTrash} onPurge={onPurgeTrash} />
+             </div>
+           )}
+
+           {/* USERS & PIN LOCK */}
+           {configSection === 'USERS' && setUsers && (
+             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 animate-fade-in">
+                <div className="p-4 border-b border-slate-100 flex items-center gap-3">
+                   <button onClick={() => setConfigSection('MENU')} className="p-2 hover:bg-slate-100 rounded-full text-slate-500">
+                      <ArrowLeft size={20} />
+                   </button>
+                   <div>
+                      <h3 className="font-bold text-slate-800">Pengguna & PIN</h3>
+                      <p className="text-xs text-slate-500">{users.length} Profil terdaftar</p>
+                   </div>
+                </div>
+                <UserSettings 
+                  users={users} setUsers={setUsers} currentUserId={currentUserId}
+                  autoLockMinutes={autoLockMinutes} setAutoLockMinutes={setAutoLockMinutes}
+                />
+             </div>
+           )}
+
         </div>
       )}
 
+      {snapshots && (
+        <DriveSnapshotPicker
+          snapshots={snapshots} restoringId={restoringId} sourceLabel={providerLabel}
+          onRestore={restoreSnapshot} onClose={() => setSnapshots(null)}
+        />
+      )}
+
       {activeTab === 'DATA' && (
         /* Data Management Tab */
         <div className="space-y-6">
@@ -605,18 +1036,61 @@ export const Settings: React.FC<SettingsProps> = ({
                 <Database className="text-indigo-500" /> 
                 Backup & Restore
                 </h2>
-                <p className="text-slate-500">Amankan data Anda ke Google Drive atau simpan file lokal.</p>
+                <p className="text-slate-500">Amankan data Anda ke penyimpanan cloud atau simpan file lokal.</p>
+            </div>
+
+            {/* Backup Encryption */}
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 md:p-6 space-y-4">
+                <div className="flex items-center gap-3">
+                    <div className={`p-2 rounded-lg ${backupPassphrase ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
+                        {backupPassphrase ? <Lock size={24} /> : <LockOpen size={24} />}
+                    </div>
+                    <div className="flex-1">
+                        <h3 className="font-bold text-slate-800">Enkripsi Backup</h3>
+                        <p className="text-xs text-slate-500">
+                            {backupPassphrase
+                                ? 'Aktif. File lokal dan backup cloud dienkripsi dengan passphrase Anda. Passphrase disimpan tanpa enkripsi di perangkat ini agar backup otomatis tetap berjalan, jadi lindungi perangkat dengan PIN.'
+                                : 'Tidak aktif. Siapa pun yang memegang file backup dapat membaca isinya.'}
+                        </p>
+                    </div>
+                    {backupPassphrase && (
+                        <button onClick={disableBackupEncryption} className="text-xs font-bold text-rose-600 hover:underline">Matikan</button>
+                    )}
+                </div>
+                <div className="grid md:grid-cols-[1fr_1fr_auto] gap-2">
+                    <input
+                        type="password"
+                        placeholder={backupPassphrase ? 'Passphrase baru' : 'Passphrase (min. 8 karakter)'}
+                        className="p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                        value={passphraseDraft.passphrase}
+                        onChange={e => setPassphraseDraft({ ...passphraseDraft, passphrase: e.target.value })}
+                    />
+                    <input
+                        type="password"
+                        placeholder="Ulangi passphrase"
+                        className="p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                        value={passphraseDraft.confirm}
+                        onChange={e => setPassphraseDraft({ ...passphraseDraft, confirm: e.target.value })}
+                    />
+                    <button onClick={saveBackupPassphrase} className="bg-slate-800 text-white px-4 py-2.5 rounded-lg text-sm font-bold hover:bg-slate-900">
+                        {backupPassphrase ? 'Ganti' : 'Aktifkan'}
+                    </button>
+                </div>
+                <p className="text-[11px] text-slate-400">
+                    Passphrase disimpan di perangkat ini agar backup bisa dienkripsi tanpa ditanya setiap kali. Saat memulihkan di perangkat lain, Anda akan diminta memasukkannya.
+                </p>
             </div>
 
-            {/* Google Drive Integration Section */}
+            {/* Cloud Sync Section */}
             <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
-                <div className="p-4 md:p-6 bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100 flex justify-between items-center">
+                <div className="p-4 md:p-6 bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100 space-y-4">
+                <div className="flex justify-between items-center">
                 <div className="flex items-center gap-3">
                     <div className="bg-white p-2 rounded-lg shadow-sm">
                         <Cloud className="text-blue-600" size={24} />
                     </div>
                     <div>
-                    <h3 className="font-bold text-slate-800">Google Drive Sync</h3>
+                    <h3 className="font-bold text-slate-800">Cloud Sync</h3>
                     <p className="text-xs text-slate-500">Backup otomatis ke cloud pribadi</p>
                     </div>
                 </div>
@@ -627,10 +1101,29 @@ export const Settings: React.FC<SettingsProps> = ({
                     <Key size={18} />
                 </button>
                 </div>
+                <div className="grid grid-cols-3 gap-1 bg-white/70 p-1 rounded-xl">
+                    {(Object.keys(CLOUD_PROVIDER_LABELS) as CloudProviderId[]).map(id => (
+                        <button
+                            key={id}
+                            onClick={() => selectProvider(id)}
+                            className={`py-2 rounded-lg text-xs font-bold transition-colors ${providerId === id ? 'bg-blue-600 text-white shadow-sm' : 'text-slate-500 hover:bg-white'}`}
+                        >
+                            {CLOUD_PROVIDER_LABELS[id]}
+                        </button>
+                    ))}
+                </div>
+                </div>
                 
                 <div className="p-4 md:p-6 space-y-6">
+                {!isOnline && (
+                    <div className="flex items-center gap-2 text-slate-600 bg-slate-100 p-3 rounded-lg border border-slate-200 text-sm">
+                        <WifiOff size={18} />
+                        <span>Perangkat offline. Backup, restore dan sinkronisasi cloud tersedia lagi saat online.</span>
+                    </div>
+                )}
+
                 {/* Config Area */}
-                {showConfig && (
+                {showConfig && providerId === 'GDRIVE' && (
                     <div className="bg-slate-50 p-4 rounded-xl border border-slate-200 text-sm mb-4 space-y-3">
                     <p className="font-bold text-slate-700">Konfigurasi API (Mode Pengembang)</p>
                     <div>
@@ -655,29 +1148,66 @@ export const Settings: React.FC<SettingsProps> = ({
                     </div>
                 )}
 
-                {!isConnected ? (
+                {providerId !== 'GDRIVE' && (showConfig || !providerConfigured) && (
+                    <CloudProviderForm providerId={providerId} onSaved={setProviderConfigured} />
+                )}
+
+                {providerId === 'GDRIVE' && !isConnected ? (
                     <div className="text-center py-6">
                     <button 
                         onClick={handleAuthClick}
-                        disabled={!gapiInited || !gisInited}
+                        disabled={!gapiInited || !gisInited || !isOnline}
                         className="inline-flex items-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-xl font-bold hover:bg-blue-700 transition-colors shadow-lg shadow-blue-200 disabled:opacity-50 disabled:cursor-not-allowed w-full md:w-auto justify-center"
                     >
                         <LogIn size={20} />
                         {(!gapiInited || !gisInited) ? 'Memuat Script...' : 'Hubungkan Google Drive'}
                     </button>
                     </div>
-                ) : (
+                ) : providerReady && (
                     <div className="space-y-6">
                     <div className="flex items-center gap-2 text-emerald-600 bg-emerald-50 p-3 rounded-lg border border-emerald-100">
                         <CheckCircle size={20} />
-                        <span className="font-medium text-sm">Terhubung ke Google Drive</span>
+                        <span className="font-medium text-sm flex-1">{providerId === 'GDRIVE' ? 'Terhubung ke Google Drive' : `${providerLabel} siap digunakan`}</span>
+                        <button
+                            onClick={testConnection}
+                            disabled={isTesting || !isOnline}
+                            className="flex items-center gap-1 text-xs font-bold text-emerald-700 hover:underline disabled:opacity-50"
+                        >
+                            {isTesting ? <RefreshCw size={12} className="animate-spin" /> : <PlugZap size={12} />} Tes Koneksi
+                        </button>
                     </div>
                     
+                    <div className="bg-slate-50 rounded-lg p-4 border border-slate-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={syncEnabled}
+                            onChange={e => onToggleSync(e.target.checked)}
+                        />
+                        <div>
+                            <p className="font-bold text-sm text-slate-700">Sinkronisasi Otomatis Antar Perangkat</p>
+                            <p className={`text-xs ${syncStatus.state === 'ERROR' || syncStatus.state === 'CONFLICT' ? 'text-rose-600' : 'text-slate-500'}`}>
+                            {syncEnabled ? describeSyncStatus(syncStatus) : `Perubahan digabung per data setiap 2 menit melalui ${providerLabel}.`}
+                            </p>
+                        </div>
+                        </label>
+                        {syncEnabled && (
+                        <button
+                            onClick={onSyncNow}
+                            disabled={syncStatus.state === 'SYNCING' || !isOnline}
+                            className="flex items-center justify-center gap-1.5 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-100 disabled:opacity-50 whitespace-nowrap"
+                        >
+                            <RefreshCw size={14} className={syncStatus.state === 'SYNCING' ? 'animate-spin' : ''} /> Sinkronkan Sekarang
+                        </button>
+                        )}
+                    </div>
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <button 
-                            onClick={uploadToDrive}
-                            disabled={isSyncing}
-                            className="flex flex-col items-center justify-center gap-2 p-6 bg-blue-50 border border-blue-100 rounded-xl hover:bg-blue-100 transition-colors group"
+                            onClick={uploadToCloud}
+                            disabled={isSyncing || !isOnline}
+                            className="flex flex-col items-center justify-center gap-2 p-6 bg-blue-50 border border-blue-100 rounded-xl hover:bg-blue-100 transition-colors group disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <div className="bg-white p-3 rounded-full shadow-sm text-blue-600 group-hover:scale-110 transition-transform">
                             {isSyncing ? <RefreshCw className="animate-spin" /> : <Upload />}
@@ -686,9 +1216,9 @@ export const Settings: React.FC<SettingsProps> = ({
                         </button>
 
                         <button 
-                            onClick={restoreFromDrive}
-                            disabled={isSyncing}
-                            className="flex flex-col items-center justify-center gap-2 p-6 bg-indigo-50 border border-indigo-100 rounded-xl hover:bg-indigo-100 transition-colors group"
+                            onClick={restoreFromCloud}
+                            disabled={isSyncing || !isOnline || !onImport}
+                            className="flex flex-col items-center justify-center gap-2 p-6 bg-indigo-50 border border-indigo-100 rounded-xl hover:bg-indigo-100 transition-colors group disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <div className="bg-white p-3 rounded-full shadow-sm text-indigo-600 group-hover:scale-110 transition-transform">
                             {isSyncing ? <RefreshCw className="animate-spin" /> : <Download />}
@@ -708,6 +1238,28 @@ export const Settings: React.FC<SettingsProps> = ({
                         </p>
                         </div>
                     </div>
+
+                    <div className="bg-slate-50 rounded-lg p-4 border border-slate-100 space-y-3">
+                        <div>
+                        <p className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Retensi Snapshot</p>
+                        <p className="text-xs text-slate-400">Snapshot terbaru per hari, minggu dan bulan yang disimpan. Sisanya dihapus setelah backup.</p>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                        {([['daily', 'Harian'], ['weekly', 'Mingguan'], ['monthly', 'Bulanan']] as const).map(([key, label]) => (
+                            <label key={key} className="text-xs font-semibold text-slate-500">
+                            {label}
+                            <input
+                                type="number"
+                                min="0"
+                                className="mt-1 w-full p-2 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                                value={retention[key]}
+                                onChange={e => setRetention({ ...retention, [key]: Number(e.target.value) })}
+                            />
+                            </label>
+                        ))}
+                        </div>
+                        <button onClick={saveRetention} className="bg-slate-800 text-white px-3 py-1.5 rounded text-xs font-medium">Simpan Retensi</button>
+                    </div>
                     </div>
                 )}
                 </div>
@@ -748,9 +1300,10 @@ export const Settings: React.FC<SettingsProps> = ({
                 </div>
                 <button 
                     onClick={() => fileInputRef.current?.click()}
-                    className="w-full bg-slate-100 text-slate-700 py-2.5 rounded-lg font-bold hover:bg-slate-200 transition-colors text-sm"
+                    disabled={!onImport}
+                    className="w-full bg-slate-100 text-slate-700 py-2.5 rounded-lg font-bold hover:bg-slate-200 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                    Pilih File
+                    {onImport ? 'Pilih File' : 'Hanya Pemilik'}
                 </button>
                 <input 
                     type="file" 
@@ -763,6 +1316,7 @@ export const Settings: React.FC<SettingsProps> = ({
             </div>
 
             {/* Danger Zone */}
+            {onReset && (
             <div className="mt-12 pt-8 border-t border-slate-200">
                 <div className="bg-rose-50 border border-rose-100 p-6 rounded-2xl flex flex-col md:flex-row items-center justify-between gap-4">
                 <div>
@@ -778,6 +1332,7 @@ export const Settings: React.FC<SettingsProps> = ({
                 </button>
                 </div>
             </div>
+            )}
         </div>
       )}
     </div>
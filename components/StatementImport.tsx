@@ -0,0 +1,350 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Transaction, TransactionType, Account, CategoryRule, CategoryRecord } from '../types';
+import { X, Upload, FileSpreadsheet, ArrowLeft, ArrowRight, TriangleAlert, Copy, CheckCircle, Wand2 } from 'lucide-react';
+import {
+  StatementFormat, StatementRow, CsvColumnMapping,
+  detectFormat, parseCsv, guessCsvMapping, parseCsvRows, parseOfx, parseQif, findLikelyDuplicate
+} from '../services/statementImportService';
+import { findMatchingRule, isRuleApplicable } from '../services/categoryRuleService';
+import { getActiveAccounts } from '../services/accountService';
+import { findCategory, getCategoryName } from '../services/categoryService';
+
+interface StatementImportProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  categoryRules: CategoryRule[];
+  categories: CategoryRecord[];
+  expenseCategories: string[]; // Ids
+  incomeCategories: string[];
+  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  onClose: () => void;
+}
+
+type Step = 'UPLOAD' | 'MAPPING' | 'PREVIEW';
+
+interface PreviewRow extends StatementRow {
+  key: string;
+  categoryId: string;
+  selected: boolean;
+  duplicateOf?: Transaction;
+  ruleName?: string;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+export const StatementImport: React.FC<StatementImportProps> = ({
+  accounts, transactions, categoryRules, categories, expenseCategories, incomeCategories, onImport, onClose
+}) => {
+  const [step, setStep] = useState<Step>('UPLOAD');
+  const [accountId, setAccountId] = useState(getActiveAccounts(accounts)[0]?.id || '');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('CSV');
+  const [csvTable, setCsvTable] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ date: 0, description: 1, amount: 2 });
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const defaultCategory = (type: TransactionType) => {
+    const list = type === TransactionType.INCOME ? incomeCategories : expenseCategories;
+    const other = findCategory(categories, type === TransactionType.INCOME ? 'INCOME' : 'EXPENSE', 'Lainnya');
+    return other ? other.id : (list[0] || '');
+  };
+
+  // Duplicates are unselected by default so only new rows are appended unless the user opts in.
+  // Categories come from the user's rules; the account is fixed by the statement, so a rule's account action is ignored.
+  const buildPreview = (parsed: StatementRow[], parseErrors: string[]) => {
+    setRows(parsed.map((row, idx) => {
+      const duplicateOf = findLikelyDuplicate(row, accountId, transactions);
+      const rule = findMatchingRule(categoryRules, { ...row, accountId });
+      const ruleCategory = rule && isRuleApplicable(rule, row.type, expenseCategories, incomeCategories) ? rule : undefined;
+      return {
+        ...row,
+        key: `${idx}`,
+        categoryId: ruleCategory ? ruleCategory.categoryId : defaultCategory(row.type),
+        selected: !duplicateOf,
+        duplicateOf,
+        ruleName: ruleCategory?.name
+      };
+    }));
+    setErrors(parseErrors);
+    setStep('PREVIEW');
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!accountId) {
+      alert("Pilih akun tujuan terlebih dahulu.");
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const content = event.target?.result as string;
+      const detected = detectFormat(file.name, content);
+      setFileName(file.name);
+      setFormat(detected);
+
+      if (detected === 'CSV') {
+        const table = parseCsv(content);
+        if (table.length === 0) {
+          alert("File CSV kosong.");
+          return;
+        }
+        setCsvTable(table);
+        setMapping(guessCsvMapping(table[0]));
+        setStep('MAPPING');
+      } else {
+        const result = detected === 'OFX' ? parseOfx(content) : parseQif(content);
+        buildPreview(result.rows, result.errors);
+      }
+    };
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const applyMapping = () => {
+    const result = parseCsvRows(csvTable, mapping, hasHeader);
+    buildPreview(result.rows, result.errors);
+  };
+
+  const updateRow = (key: string, changes: Partial<PreviewRow>) => {
+    setRows(prev => prev.map(r => r.key === key ? { ...r, ...changes } : r));
+  };
+
+  const selectedRows = useMemo(() => rows.filter(r => r.selected), [rows]);
+  const duplicateCount = useMemo(() => rows.filter(r => r.duplicateOf).length, [rows]);
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+
+  const handleConfirm = () => {
+    if (selectedRows.length === 0) return;
+    if (selectedRows.some(r => !r.categoryId)) {
+      alert("Pilih kategori untuk setiap transaksi terlebih dahulu.");
+      return;
+    }
+    onImport(selectedRows.map(r => ({
+      date: r.date,
+      amount: r.amount,
+      type: r.type,
+      categoryId: r.categoryId,
+      description: r.description,
+      merchant: r.merchant,
+      accountId
+    })));
+    alert(`${selectedRows.length} transaksi berhasil diimpor.`);
+    onClose();
+  };
+
+  const header = csvTable[0] || [];
+  const columnOptions = header.map((h, idx) => ({ idx, label: hasHeader ? h || `Kolom ${idx + 1}` : `Kolom ${idx + 1} (${h})` }));
+  const amountMode = mapping.debit !== undefined ? 'DEBIT_CREDIT' : 'SIGNED';
+
+  const ColumnSelect = ({ label, field, optional }: { label: string; field: keyof CsvColumnMapping; optional?: boolean }) => (
+    <div>
+      <label className="block text-xs font-semibold text-slate-500 mb-1 uppercase">{label}</label>
+      <select
+        className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+        value={mapping[field] ?? ''}
+        onChange={e => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+      >
+        {optional && <option value="">(Tidak ada)</option>}
+        {columnOptions.map(c => <option key={c.idx} value={c.idx}>{c.label}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col animate-fade-in-up">
+        {/* Header */}
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white rounded-lg shadow-sm text-indigo-600">
+              <FileSpreadsheet size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Impor Mutasi Rekening</h3>
+              <p className="text-xs text-slate-500">
+                {step === 'UPLOAD' ? 'CSV, OFX atau QIF dari bank / e-wallet' : `${fileName} • ${format}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-slate-200 rounded-full"><X size={18} /></button>
+        </div>
+
+        <div className="overflow-y-auto p-4 md:p-6 flex-1 space-y-4">
+          {step === 'UPLOAD' && (
+            <>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Akun untuk file ini</label>
+                <select
+                  className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={accountId}
+                  onChange={e => setAccountId(e.target.value)}
+                >
+                  {getActiveAccounts(accounts).map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                </select>
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full border-2 border-dashed border-slate-200 rounded-2xl p-10 flex flex-col items-center gap-2 text-slate-500 hover:border-indigo-300 hover:bg-indigo-50/50 transition-colors"
+              >
+                <Upload size={32} className="text-indigo-500" />
+                <span className="font-bold text-slate-700">Pilih File Mutasi</span>
+                <span className="text-xs">Format angka & tanggal Indonesia didukung (1.250.000,00 • 31/12/2025)</span>
+              </button>
+              <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.txt,.ofx,.qfx,.qif" onChange={handleFile} />
+            </>
+          )}
+
+          {step === 'MAPPING' && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+                Baris pertama adalah judul kolom
+              </label>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <ColumnSelect label="Tanggal" field="date" />
+                <ColumnSelect label="Keterangan" field="description" />
+                <ColumnSelect label="Merchant" field="merchant" optional />
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 mb-1 uppercase">Format Nominal</label>
+                  <select
+                    className="w-full p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={amountMode}
+                    onChange={e => setMapping(e.target.value === 'DEBIT_CREDIT'
+                      ? { ...mapping, amount: undefined, debit: 0, credit: 0 }
+                      : { ...mapping, amount: 0, debit: undefined, credit: undefined })}
+                  >
+                    <option value="SIGNED">Satu kolom (+/-)</option>
+                    <option value="DEBIT_CREDIT">Kolom Debet & Kredit terpisah</option>
+                  </select>
+                </div>
+                {amountMode === 'SIGNED' ? (
+                  <ColumnSelect label="Nominal" field="amount" />
+                ) : (
+                  <>
+                    <ColumnSelect label="Debet (Keluar)" field="debit" />
+                    <ColumnSelect label="Kredit (Masuk)" field="credit" />
+                  </>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-slate-100 rounded-xl">
+                <table className="w-full text-xs text-left whitespace-nowrap">
+                  <tbody className="divide-y divide-slate-100">
+                    {csvTable.slice(0, 5).map((cells, idx) => (
+                      <tr key={idx} className={idx === 0 && hasHeader ? 'bg-slate-50 font-bold text-slate-600' : 'text-slate-600'}>
+                        {cells.map((c, i) => <td key={i} className="p-2">{c}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {step === 'PREVIEW' && (
+            <>
+              {errors.length > 0 && (
+                <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-xs space-y-1">
+                  <p className="font-bold flex items-center gap-1"><TriangleAlert size={14} /> {errors.length} baris dilewati</p>
+                  {errors.slice(0, 5).map(err => <p key={err}>{err}</p>)}
+                  {errors.length > 5 && <p>…dan {errors.length - 5} lainnya</p>}
+                </div>
+              )}
+              {duplicateCount > 0 && (
+                <div className="p-3 rounded-xl bg-blue-50 border border-blue-100 text-blue-800 text-xs flex items-center gap-2">
+                  <Copy size={14} /> {duplicateCount} baris kemungkinan sudah tercatat dan tidak dipilih secara otomatis.
+                </div>
+              )}
+
+              <div className="overflow-x-auto border border-slate-100 rounded-xl">
+                <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 uppercase font-semibold">
+                    <tr>
+                      <th className="p-2">
+                        <input type="checkbox" checked={allSelected} onChange={e => setRows(rows.map(r => ({ ...r, selected: e.target.checked })))} />
+                      </th>
+                      <th className="p-2">Tanggal</th>
+                      <th className="p-2">Keterangan</th>
+                      <th className="p-2">Kategori</th>
+                      <th className="p-2 text-right">Nominal</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {rows.map(row => (
+                      <tr key={row.key} className={row.duplicateOf ? 'bg-blue-50/50' : ''}>
+                        <td className="p-2">
+                          <input type="checkbox" checked={row.selected} onChange={e => updateRow(row.key, { selected: e.target.checked })} />
+                        </td>
+                        <td className="p-2 whitespace-nowrap text-slate-600">{new Date(row.date).toLocaleDateString('id-ID')}</td>
+                        <td className="p-2 text-slate-800">
+                          <p className="font-medium">{row.description || '-'}</p>
+                          {row.duplicateOf && (
+                            <p className="text-[10px] text-blue-600 font-bold">Mungkin duplikat: {row.duplicateOf.description}</p>
+                          )}
+                        </td>
+                        <td className="p-2">
+                          <select
+                            className="bg-white border border-slate-200 rounded p-1 text-xs outline-none"
+                            value={row.categoryId}
+                            onChange={e => updateRow(row.key, { categoryId: e.target.value })}
+                          >
+                            {(row.type === TransactionType.INCOME ? incomeCategories : expenseCategories).map(cat => (
+                              <option key={cat} value={cat}>{getCategoryName(categories, cat)}</option>
+                            ))}
+                          </select>
+                          {row.ruleName && (
+                            <p className="text-[10px] text-amber-600 font-bold flex items-center gap-1 mt-0.5"><Wand2 size={10} /> {row.ruleName}</p>
+                          )}
+                        </td>
+                        <td className={`p-2 text-right font-bold whitespace-nowrap ${row.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-slate-800'}`}>
+                          {row.type === TransactionType.INCOME ? '+' : '-'}{formatCurrency(row.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                    {rows.length === 0 && (
+                      <tr><td colSpan={5} className="p-6 text-center text-slate-400">Tidak ada baris yang dapat dibaca.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {step !== 'UPLOAD' && (
+          <div className="p-4 bg-slate-50 border-t border-slate-100 flex gap-3">
+            <button
+              onClick={() => setStep(step === 'PREVIEW' && format === 'CSV' ? 'MAPPING' : 'UPLOAD')}
+              className="flex items-center justify-center gap-1 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 font-bold rounded-xl hover:bg-slate-100 transition-colors text-sm"
+            >
+              <ArrowLeft size={16} /> Kembali
+            </button>
+            {step === 'MAPPING' ? (
+              <button
+                onClick={applyMapping}
+                className="flex-1 flex items-center justify-center gap-1 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl transition-colors text-sm shadow-lg shadow-indigo-200"
+              >
+                Pratinjau <ArrowRight size={16} />
+              </button>
+            ) : (
+              <button
+                onClick={handleConfirm}
+                disabled={selectedRows.length === 0}
+                className="flex-1 flex items-center justify-center gap-1 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl transition-colors text-sm shadow-lg shadow-indigo-200 disabled:opacity-50"
+              >
+                <CheckCircle size={16} /> Impor {selectedRows.length} Transaksi
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
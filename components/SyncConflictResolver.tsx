@@ -0,0 +1,115 @@
+import React from 'react';
+import { Account, CategoryRecord } from '../types';
+import { SyncConflict, SyncEntity } from '../services/syncService';
+import { ENTITY_LABELS } from '../services/backupService';
+import { getCategoryName } from '../services/categoryService';
+import { isRecord, numberField, recordField, textField } from '../services/recordFields';
+import { GitCompare, X, Smartphone, Cloud } from 'lucide-react';
+
+interface SyncConflictResolverProps {
+  conflicts: SyncConflict[];
+  accounts: Account[];
+  categories: CategoryRecord[];
+  onResolve: (conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE') => void;
+  onClose: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+// One readable line per version, enough to tell two versions apart. The remote version comes
+// from another device, so its fields are read without trusting their types.
+const describeRecord = (entity: SyncEntity, value: unknown, accounts: Account[], categories: CategoryRecord[]): string[] => {
+  if (value === null) return ['Dihapus'];
+  if (!isRecord(value)) return [String(value)];
+  const text = (key: string) => textField(value, key);
+  const amount = (record: Record<string, unknown>) => formatCurrency(numberField(record, 'amount'));
+  const categoryName = (record: Record<string, unknown>) => {
+    const id = textField(record, 'categoryId');
+    return id && getCategoryName(categories, id);
+  };
+  const paused = value.active === false ? ' (dijeda)' : '';
+  switch (entity) {
+    case 'transactions':
+      return [
+        `${text('date')} • ${text('type')} • ${amount(value)}`,
+        [categoryName(value), text('description'), text('merchant')].filter(Boolean).join(' • '),
+        accounts.find(a => a.id === text('accountId'))?.name || '',
+      ];
+    case 'accounts':
+      return [text('name'), `Saldo awal ${formatCurrency(numberField(value, 'initialBalance'))}`];
+    case 'invoices': {
+      const items = value.items;
+      return [text('clientName'), `${text('date')} • ${text('status')} • ${Array.isArray(items) ? items.length : 0} item`];
+    }
+    case 'debts':
+      return [text('counterparty'), `${amount(value)} • jatuh tempo ${text('dueDate')}`];
+    case 'budgets':
+      return [`${categoryName(value)} • ${text('month')}`, `${amount(value)}${value.rollover === true ? ' • rollover' : ''}`];
+    case 'categories':
+      return [text('name'), text('type') === 'INCOME' ? 'Kategori pemasukan' : 'Kategori pengeluaran'];
+    case 'categoryRules':
+      return [text('name'), `→ ${categoryName(value)}${paused}`];
+    case 'recurring': {
+      const template = recordField(value, 'template');
+      return [textField(template, 'description') || categoryName(template), `${amount(template)} • ${text('frequency')}${paused}`];
+    }
+  }
+};
+
+export const SyncConflictResolver: React.FC<SyncConflictResolverProps> = ({ conflicts, accounts, categories, onResolve, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] overflow-hidden flex flex-col animate-fade-in-up">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-rose-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white rounded-lg shadow-sm text-rose-600">
+              <GitCompare size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Konflik Sinkronisasi</h3>
+              <p className="text-xs text-slate-500">{conflicts.length} data diubah di dua perangkat sejak sinkronisasi terakhir</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full text-slate-500"><X size={18} /></button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4 flex-1">
+          {conflicts.map(conflict => (
+            <div key={conflict.key} className="rounded-xl border border-slate-200 overflow-hidden">
+              <div className="px-3 py-2 bg-slate-50 text-xs font-bold text-slate-500 uppercase tracking-wide">
+                {ENTITY_LABELS[conflict.entity]}
+              </div>
+              <div className="grid sm:grid-cols-2 divide-y sm:divide-y-0 sm:divide-x divide-slate-100">
+                {([
+                  { keep: 'LOCAL', label: 'Perangkat ini', icon: Smartphone, value: conflict.local, at: conflict.localUpdatedAt },
+                  { keep: 'REMOTE', label: 'Perangkat lain', icon: Cloud, value: conflict.remote, at: conflict.remoteUpdatedAt },
+                ] as const).map(side => (
+                  <div key={side.keep} className="p-3 flex flex-col gap-2">
+                    <p className="text-xs text-slate-400 flex items-center gap-1.5">
+                      <side.icon size={12} /> {side.label} • {formatTime(side.at)}
+                    </p>
+                    <div className="flex-1 text-sm">
+                      {describeRecord(conflict.entity, side.value, accounts, categories).filter(Boolean).map((line, i) => (
+                        <p key={i} className={i === 0 ? 'font-bold text-slate-800' : 'text-xs text-slate-500'}>{line}</p>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => onResolve(conflict, side.keep)}
+                      className="w-full py-2 text-xs font-bold rounded-lg border border-indigo-100 text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    >
+                      Pakai versi ini
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,49 +1,125 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Transaction, TransactionType, Category, Account } from '../types';
-import { Camera, Loader2, X, ArrowUpRight, ArrowDownRight, Sparkles, Calendar, ChevronLeft, ChevronRight, Wallet, Upload, Store, AlignLeft, ScanLine } from 'lucide-react';
-import { scanReceiptWithGemini, fileToBase64 } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Transaction, TransactionType, Category, Account, CategoryRule, AuditSource, CategoryRecord } from '../types';
+import { Camera, Loader2, X, ArrowUpRight, ArrowDownRight, Sparkles, Calendar, ChevronLeft, ChevronRight, Wallet, Upload, Store, AlignLeft, ScanLine, ArrowLeftRight, Receipt, Split, Plus, Trash2, Wand2 } from 'lucide-react';
+import { scanReceiptWithGemini, fileToBase64, OfflineError } from '../services/geminiService';
+import { validateSplits } from '../services/transactionService';
+import { findMatchingRule, isRuleApplicable } from '../services/categoryRuleService';
+import { TRANSFER_CATEGORY_ID, findCategory, getParentMap } from '../services/categoryService';
+import { getActiveAccounts } from '../services/accountService';
+import { CategoryOptions } from './CategoryOptions';
 
 interface TransactionFormProps {
   accounts: Account[];
   expenseCategories: string[];
   incomeCategories: string[];
-  onAddTransaction: (t: Omit<Transaction, 'id'>) => void;
+  categories: CategoryRecord[]; // For names and the tree, the id lists above are what can be picked
+  categoryRules: CategoryRule[];
+  onAddTransaction: (t: Omit<Transaction, 'id'>, source?: AuditSource) => void;
+  onUpdateTransaction?: (t: Transaction) => void;
+  initialData?: Transaction | null; // When set, the form works in edit mode
+  isOnline: boolean;
   onClose: () => void;
 }
 
 export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({ 
-  accounts, expenseCategories, incomeCategories,
-  onAddTransaction, onClose 
+  accounts, expenseCategories, incomeCategories, categories, categoryRules,
+  onAddTransaction, onUpdateTransaction, initialData, isOnline, onClose 
 }) => {
   const [isScanning, setIsScanning] = useState(false);
+  const [wasScanned, setWasScanned] = useState(false); // Logged as a scan even if the user corrected fields afterwards
+  const isEditMode = !!initialData;
   
+  // Archived accounts are left out, except the ones the edited transaction already uses
+  const activeAccounts = useMemo(() => getActiveAccounts(accounts, initialData?.accountId, initialData?.toAccountId), [accounts, initialData]);
+
   // Safe defaults
-  const defaultExpense = expenseCategories.length > 0 ? expenseCategories[0] : 'Umum';
-  const defaultIncome = incomeCategories.length > 0 ? incomeCategories[0] : 'Umum';
-  const defaultAccount = accounts.length > 0 ? accounts[0].id : '';
+  const defaultExpense = expenseCategories.length > 0 ? expenseCategories[0] : '';
+  const defaultIncome = incomeCategories.length > 0 ? incomeCategories[0] : '';
+  const defaultAccount = activeAccounts.length > 0 ? activeAccounts[0].id : '';
+  const defaultToAccount = activeAccounts.length > 1 ? activeAccounts[1].id : defaultAccount;
 
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState(initialData ? {
+    date: initialData.date,
+    amount: String(initialData.amount),
+    type: initialData.type,
+    categoryId: initialData.categoryId,
+    description: initialData.description,
+    merchant: initialData.merchant || '',
+    accountId: initialData.accountId || defaultAccount,
+    toAccountId: initialData.toAccountId || defaultToAccount,
+    fee: initialData.fee ? String(initialData.fee) : ''
+  } : {
     date: new Date().toISOString().split('T')[0],
     amount: '',
     type: TransactionType.EXPENSE,
-    category: defaultExpense,
+    categoryId: defaultExpense,
     description: '',
     merchant: '',
-    accountId: defaultAccount
+    accountId: defaultAccount,
+    toAccountId: defaultToAccount,
+    fee: ''
   });
 
+  // Split lines (one receipt across several categories)
+  const [splits, setSplits] = useState<{ id: string; categoryId: string; amount: string; note: string }[]>(
+    initialData?.splits?.map(sp => ({ id: sp.id, categoryId: sp.categoryId, amount: String(sp.amount), note: sp.note || '' })) || []
+  );
+  const isSplit = splits.length > 0;
+
+  // Auto-categorization: a matching rule fills category / account until the user picks one by hand.
+  // Edits start as "touched" so opening an old transaction never rewrites it.
+  const [categoryTouched, setCategoryTouched] = useState(isEditMode);
+  const [accountTouched, setAccountTouched] = useState(isEditMode);
+  const [appliedRule, setAppliedRule] = useState<CategoryRule | null>(null);
+  // Merchant, description, amount and type a rule last picked the account for. Rules can match on
+  // the account too, so a rule only picks it again once those change, or two rules could flip it.
+  const accountRuleInputs = useRef('');
+
+  const matchRule = (input: { merchant?: string; description?: string; amount?: number; type: TransactionType; accountId?: string }) => {
+    const rule = findMatchingRule(categoryRules, input);
+    return rule && isRuleApplicable(rule, input.type, expenseCategories, incomeCategories) ? rule : null;
+  };
+
   // Handle type change to update category correctly
   useEffect(() => {
+    if (formData.type === TransactionType.TRANSFER) {
+      if (formData.categoryId !== TRANSFER_CATEGORY_ID) setFormData(prev => ({ ...prev, categoryId: TRANSFER_CATEGORY_ID }));
+      return;
+    }
     const currentList = formData.type === TransactionType.EXPENSE ? expenseCategories : incomeCategories;
     
-    if (!currentList.includes(formData.category)) {
+    if (!currentList.includes(formData.categoryId)) {
        setFormData(prev => ({
            ...prev,
-           category: currentList.length > 0 ? currentList[0] : 'Umum'
+           categoryId: currentList.length > 0 ? currentList[0] : ''
        }));
     }
   }, [formData.type, expenseCategories, incomeCategories]);
   
+  useEffect(() => {
+    if (isEditMode || isSplit || formData.type === TransactionType.TRANSFER) {
+      setAppliedRule(null);
+      return;
+    }
+    const rule = matchRule({
+      merchant: formData.merchant,
+      description: formData.description,
+      amount: formData.amount ? Number(formData.amount) : undefined,
+      type: formData.type,
+      accountId: formData.accountId
+    });
+    setAppliedRule(rule);
+    if (!rule) return;
+    const inputs = [formData.merchant, formData.description, formData.amount, formData.type].join('|');
+    const ruleAccountId = !accountTouched && inputs !== accountRuleInputs.current && activeAccounts.some(a => a.id === rule.setAccountId) ? rule.setAccountId : undefined;
+    if (ruleAccountId) accountRuleInputs.current = inputs;
+    setFormData(prev => ({
+      ...prev,
+      categoryId: categoryTouched ? prev.categoryId : rule.categoryId,
+      accountId: ruleAccountId || prev.accountId
+    }));
+  }, [formData.merchant, formData.description, formData.amount, formData.type, formData.accountId, categoryRules, isSplit]);
+
   // Calendar State
   const [showCalendar, setShowCalendar] = useState(false);
   const [viewDate, setViewDate] = useState(new Date());
@@ -53,13 +129,16 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
 
   // Dynamic theme based on transaction type
   const isExpense = formData.type === TransactionType.EXPENSE;
+  const isTransfer = formData.type === TransactionType.TRANSFER;
   // Colors
-  const themeColor = isExpense ? 'rose' : 'emerald';
-  const bgColor = isExpense ? 'bg-rose-50' : 'bg-emerald-50';
-  const textColor = isExpense ? 'text-rose-600' : 'text-emerald-600';
-  const borderColor = isExpense ? 'border-rose-200' : 'border-emerald-200';
-  const focusRing = isExpense ? 'focus:ring-rose-500' : 'focus:ring-emerald-500';
-  const buttonClass = isExpense 
+  const themeColor = isTransfer ? 'blue' : isExpense ? 'rose' : 'emerald';
+  const bgColor = isTransfer ? 'bg-blue-50' : isExpense ? 'bg-rose-50' : 'bg-emerald-50';
+  const textColor = isTransfer ? 'text-blue-600' : isExpense ? 'text-rose-600' : 'text-emerald-600';
+  const borderColor = isTransfer ? 'border-blue-200' : isExpense ? 'border-rose-200' : 'border-emerald-200';
+  const focusRing = isTransfer ? 'focus:ring-blue-500' : isExpense ? 'focus:ring-rose-500' : 'focus:ring-emerald-500';
+  const buttonClass = isTransfer
+    ? 'bg-blue-600 hover:bg-blue-700 shadow-blue-200'
+    : isExpense 
     ? 'bg-rose-600 hover:bg-rose-700 shadow-rose-200' 
     : 'bg-emerald-600 hover:bg-emerald-700 shadow-emerald-200';
 
@@ -78,6 +157,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
     try {
       const base64 = await fileToBase64(file);
       const result = await scanReceiptWithGemini(base64, file.type);
+      // User rules take precedence over the category guessed by the model
+      const rule = matchRule({ merchant: result.merchant, description: result.description, amount: result.amount, type: TransactionType.EXPENSE });
       
       setFormData(prev => ({
         ...prev,
@@ -85,11 +166,12 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
         merchant: result.merchant || prev.merchant,
         date: result.date || prev.date,
         description: result.description || `Pembelian di ${result.merchant || 'Toko'}`,
-        category: result.category || prev.category, // Use scanned or keep existing
+        categoryId: rule?.categoryId || findCategory(categories, 'EXPENSE', result.category)?.id || prev.categoryId, // Rule, then scanned, then keep existing
         type: TransactionType.EXPENSE 
       }));
+      setWasScanned(true);
     } catch (error) {
-      alert("Gagal memindai struk. Silakan input manual.");
+      alert(error instanceof OfflineError ? `${error.message} Silakan input manual.` : "Gagal memindai struk. Silakan input manual.");
     } finally {
       setIsScanning(false);
       // Reset inputs so change event fires again if same file selected
@@ -100,18 +182,71 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onAddTransaction({
+    if (isTransfer && formData.accountId === formData.toAccountId) {
+      alert("Akun asal dan akun tujuan tidak boleh sama.");
+      return;
+    }
+    if (!isTransfer && !isSplit && !formData.categoryId) {
+      alert("Pilih kategori terlebih dahulu.");
+      return;
+    }
+
+    const splitLines = splits.map(sp => ({ id: sp.id, categoryId: sp.categoryId, amount: Number(sp.amount), note: sp.note || undefined }));
+    if (isSplit && !isTransfer) {
+      const error = validateSplits(splitLines, Number(formData.amount));
+      if (error) {
+        alert(error);
+        return;
+      }
+    }
+
+    const data: Omit<Transaction, 'id'> = {
       date: formData.date,
       amount: Number(formData.amount),
       type: formData.type,
-      category: formData.category,
+      categoryId: isTransfer ? TRANSFER_CATEGORY_ID : isSplit ? splitLines[0].categoryId : formData.categoryId,
       description: formData.description,
       merchant: formData.merchant,
-      accountId: formData.accountId || (accounts.length > 0 ? accounts[0].id : 'unknown')
-    });
+      accountId: formData.accountId || (activeAccounts.length > 0 ? activeAccounts[0].id : 'unknown'),
+      toAccountId: isTransfer ? formData.toAccountId : undefined,
+      fee: isTransfer && formData.fee ? Number(formData.fee) : undefined,
+      splits: isSplit && !isTransfer ? splitLines : undefined
+    };
+
+    if (initialData && onUpdateTransaction) {
+      onUpdateTransaction({ ...initialData, ...data });
+    } else {
+      onAddTransaction(data, wasScanned ? 'SCAN' : 'MANUAL');
+    }
     onClose();
   };
 
+  // Split Helpers
+  const startSplit = () => {
+    const remaining = Number(formData.amount) || 0;
+    setSplits([
+      { id: `${Date.now()}-1`, categoryId: formData.categoryId, amount: remaining ? String(remaining) : '', note: '' },
+      { id: `${Date.now()}-2`, categoryId: categoryIds.find(c => c !== formData.categoryId) || formData.categoryId, amount: '', note: '' }
+    ]);
+  };
+
+  const updateSplit = (id: string, field: 'categoryId' | 'amount' | 'note', value: string) => {
+    setSplits(splits.map(sp => sp.id === id ? { ...sp, [field]: value } : sp));
+  };
+
+  const removeSplit = (id: string) => {
+    const next = splits.filter(sp => sp.id !== id);
+    // A single remaining line is just a normal transaction
+    if (next.length < 2) {
+      if (next[0]) setFormData(prev => ({ ...prev, categoryId: next[0].categoryId }));
+      setSplits([]);
+    } else {
+      setSplits(next);
+    }
+  };
+
+  const splitRemainder = (Number(formData.amount) || 0) - splits.reduce((sum, sp) => sum + (Number(sp.amount) || 0), 0);
+
   // Calendar Helpers
   const changeMonth = (offset: number) => {
     const newDate = new Date(viewDate.getFullYear(), viewDate.getMonth() + offset, 1);
@@ -203,7 +338,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
     );
   };
 
-  const categories = isExpense ? expenseCategories : incomeCategories;
+  const categoryIds = isExpense ? expenseCategories : incomeCategories;
+  const parentMap = useMemo(() => getParentMap(categories, isExpense ? 'EXPENSE' : 'INCOME'), [categories, isExpense]);
 
   return (
     <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-end md:items-center justify-center md:p-4 transition-all duration-300">
@@ -211,7 +347,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
         
         {/* Header */}
         <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-white sticky top-0 z-10 shrink-0">
-          <h2 className="text-xl font-bold text-slate-800">Transaksi Baru</h2>
+          <h2 className="text-xl font-bold text-slate-800">{isEditMode ? 'Edit Transaksi' : 'Transaksi Baru'}</h2>
           <button 
             onClick={onClose} 
             className="p-2 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-500 transition-colors"
@@ -229,7 +365,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                {/* Animated Background Slider can be added here for extra polish */}
               <button
                 type="button"
-                onClick={() => setFormData(prev => ({...prev, type: TransactionType.EXPENSE, category: expenseCategories[0] || 'Umum' }))}
+                onClick={() => { setFormData(prev => ({...prev, type: TransactionType.EXPENSE, categoryId: expenseCategories[0] || '' })); setSplits([]); }}
                 className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg font-bold text-sm transition-all duration-200 ${
                   isExpense 
                     ? 'bg-white text-rose-600 shadow-sm' 
@@ -241,9 +377,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
               </button>
               <button
                 type="button"
-                onClick={() => setFormData(prev => ({...prev, type: TransactionType.INCOME, category: incomeCategories[0] || 'Umum' }))}
+                onClick={() => { setFormData(prev => ({...prev, type: TransactionType.INCOME, categoryId: incomeCategories[0] || '' })); setSplits([]); }}
                 className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg font-bold text-sm transition-all duration-200 ${
-                  !isExpense 
+                  !isExpense && !isTransfer 
                     ? 'bg-white text-emerald-600 shadow-sm' 
                     : 'text-slate-500 hover:text-slate-700'
                 }`}
@@ -251,6 +387,20 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                 <ArrowUpRight size={18} />
                 Pemasukan
               </button>
+              {activeAccounts.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => { setFormData(prev => ({...prev, type: TransactionType.TRANSFER, categoryId: TRANSFER_CATEGORY_ID })); setSplits([]); }}
+                  className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg font-bold text-sm transition-all duration-200 ${
+                    isTransfer 
+                      ? 'bg-white text-blue-600 shadow-sm' 
+                      : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  <ArrowLeftRight size={18} />
+                  Transfer
+                </button>
+              )}
             </div>
 
             {/* 2. Main Amount Input */}
@@ -265,7 +415,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                   required
                   min="0"
                   placeholder="0"
-                  autoFocus
+                  autoFocus={!isEditMode}
                   className={`w-full text-center py-2 text-4xl font-bold bg-transparent outline-none placeholder-black/10 ${textColor}`}
                   value={formData.amount}
                   onChange={e => setFormData({...formData, amount: e.target.value})}
@@ -281,9 +431,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                    <button
                       type="button"
                       onClick={() => cameraInputRef.current?.click()}
-                      disabled={isScanning}
-                      className="h-full px-4 bg-indigo-50 border border-indigo-100 rounded-xl flex flex-col items-center justify-center gap-1 text-indigo-600 hover:bg-indigo-100 transition-colors"
-                      title="Scan Struk AI"
+                      disabled={isScanning || !isOnline}
+                      className="h-full px-4 bg-indigo-50 border border-indigo-100 rounded-xl flex flex-col items-center justify-center gap-1 text-indigo-600 hover:bg-indigo-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      title={isOnline ? "Scan Struk AI" : "Scan struk membutuhkan koneksi internet"}
                    >
                       {isScanning ? <Loader2 className="animate-spin" size={20} /> : <ScanLine size={20} />}
                       <span className="text-[10px] font-bold">SCAN AI</span>
@@ -308,7 +458,55 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                 </div>
             </div>
 
-            {/* 4. Account & Category */}
+            {/* 4. Account & Category (or Source & Destination for transfers) */}
+            {isTransfer ? (
+            <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="border border-slate-200 rounded-xl p-3 bg-white focus-within:ring-2 focus-within:ring-indigo-500/20 focus-within:border-indigo-500 transition-all">
+                        <div className="flex items-center gap-2 mb-1">
+                            <Wallet size={14} className="text-slate-400" />
+                            <span className="text-[10px] uppercase font-bold text-slate-400">Dari Akun</span>
+                        </div>
+                        <select 
+                            className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none"
+                            value={formData.accountId}
+                            onChange={e => setFormData({...formData, accountId: e.target.value})}
+                        >
+                            {activeAccounts.map(acc => (
+                               <option key={acc.id} value={acc.id}>{acc.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="border border-slate-200 rounded-xl p-3 bg-white focus-within:ring-2 focus-within:ring-indigo-500/20 focus-within:border-indigo-500 transition-all">
+                        <div className="flex items-center gap-2 mb-1">
+                            <ArrowLeftRight size={14} className="text-slate-400" />
+                            <span className="text-[10px] uppercase font-bold text-slate-400">Ke Akun</span>
+                        </div>
+                        <select 
+                            className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none"
+                            value={formData.toAccountId}
+                            onChange={e => setFormData({...formData, toAccountId: e.target.value})}
+                        >
+                            {activeAccounts.map(acc => (
+                               <option key={acc.id} value={acc.id}>{acc.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="relative">
+                    <Receipt className="absolute left-3.5 top-3.5 text-slate-400" size={18} />
+                    <input 
+                        type="number" 
+                        min="0"
+                        placeholder="Biaya Admin (Opsional)"
+                        className="w-full pl-10 pr-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all text-sm font-medium placeholder-slate-400"
+                        value={formData.fee}
+                        onChange={e => setFormData({...formData, fee: e.target.value})}
+                        inputMode="numeric"
+                    />
+                </div>
+            </div>
+            ) : (
             <div className="grid grid-cols-2 gap-4">
                 {/* Account */}
                 <div className="border border-slate-200 rounded-xl p-3 bg-white focus-within:ring-2 focus-within:ring-indigo-500/20 focus-within:border-indigo-500 transition-all">
@@ -319,9 +517,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                     <select 
                         className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none"
                         value={formData.accountId}
-                        onChange={e => setFormData({...formData, accountId: e.target.value})}
+                        onChange={e => { setAccountTouched(true); setFormData({...formData, accountId: e.target.value}); }}
                     >
-                        {accounts.map(acc => (
+                        {activeAccounts.map(acc => (
                            <option key={acc.id} value={acc.id}>{acc.name}</option>
                         ))}
                     </select>
@@ -333,17 +531,86 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                         <div className={`w-3 h-3 rounded-full ${isExpense ? 'bg-rose-400' : 'bg-emerald-400'}`} />
                         <span className="text-[10px] uppercase font-bold text-slate-400">Kategori</span>
                     </div>
+                    {isSplit ? (
+                        <p className="text-sm font-bold text-slate-700">{splits.length} Kategori</p>
+                    ) : (
                     <select 
                         className="w-full bg-transparent text-sm font-bold text-slate-700 outline-none"
-                        value={formData.category}
-                        onChange={e => setFormData({...formData, category: e.target.value})}
+                        value={formData.categoryId}
+                        onChange={e => { setCategoryTouched(true); setFormData({...formData, categoryId: e.target.value}); }}
                     >
-                        {categories.map(cat => (
-                        <option key={cat} value={cat}>{cat}</option>
-                        ))}
+                        <CategoryOptions categoryIds={categoryIds} records={categories} parentMap={parentMap} />
                     </select>
+                    )}
+                    {appliedRule && !isSplit && (
+                        <p className="mt-1 text-[10px] font-bold text-amber-600 flex items-center gap-1 truncate" title={appliedRule.name}>
+                            <Wand2 size={10} /> Aturan: {appliedRule.name}
+                        </p>
+                    )}
                 </div>
             </div>
+            )}
+
+            {/* 4b. Split across categories */}
+            {!isTransfer && (
+              isSplit ? (
+                <div className="border border-slate-200 rounded-xl p-3 space-y-2">
+                    <div className="flex justify-between items-center">
+                        <span className="text-[10px] uppercase font-bold text-slate-400 flex items-center gap-1"><Split size={12} /> Rincian Kategori</span>
+                        <span className={`text-xs font-bold ${Math.abs(splitRemainder) < 0.001 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                            {Math.abs(splitRemainder) < 0.001 ? 'Sesuai total' : `Sisa Rp${splitRemainder.toLocaleString('id-ID')}`}
+                        </span>
+                    </div>
+                    {splits.map(sp => (
+                        <div key={sp.id} className="bg-slate-50 rounded-lg p-2 space-y-2">
+                            <div className="flex gap-2">
+                                <select 
+                                    className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-slate-700 outline-none"
+                                    value={sp.categoryId}
+                                    onChange={e => updateSplit(sp.id, 'categoryId', e.target.value)}
+                                >
+                                    <CategoryOptions categoryIds={categoryIds} records={categories} parentMap={parentMap} />
+                                </select>
+                                <input 
+                                    type="number" 
+                                    min="0"
+                                    placeholder="Nominal"
+                                    className="w-28 bg-white border border-slate-200 rounded-lg p-2 text-xs font-bold text-slate-700 outline-none text-right"
+                                    value={sp.amount}
+                                    onChange={e => updateSplit(sp.id, 'amount', e.target.value)}
+                                    inputMode="numeric"
+                                />
+                                <button type="button" onClick={() => removeSplit(sp.id)} className="p-2 text-slate-400 hover:text-rose-500 rounded-lg">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                            <input 
+                                type="text" 
+                                placeholder="Catatan baris (opsional)"
+                                className="w-full bg-white border border-slate-200 rounded-lg p-2 text-xs text-slate-600 outline-none"
+                                value={sp.note}
+                                onChange={e => updateSplit(sp.id, 'note', e.target.value)}
+                            />
+                        </div>
+                    ))}
+                    <button 
+                        type="button"
+                        onClick={() => setSplits([...splits, { id: Date.now().toString(), categoryId: categoryIds[0] || '', amount: splitRemainder > 0 ? String(splitRemainder) : '', note: '' }])}
+                        className="w-full flex items-center justify-center gap-1 py-2 text-xs font-bold text-indigo-600 hover:bg-indigo-50 rounded-lg"
+                    >
+                        <Plus size={14} /> Tambah Baris
+                    </button>
+                </div>
+              ) : (
+                <button 
+                    type="button"
+                    onClick={startSplit}
+                    className="w-full flex items-center justify-center gap-2 py-2 text-xs font-bold text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl border border-dashed border-slate-200 transition-colors"
+                >
+                    <Split size={14} /> Pisah ke Beberapa Kategori
+                </button>
+              )
+            )}
 
             {/* 5. Merchant & Description */}
             <div className="space-y-3">
@@ -379,7 +646,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = React.memo(({
                 type="submit" 
                 className={`w-full py-3.5 rounded-xl text-white font-bold text-base shadow-lg transition-transform active:scale-[0.98] flex items-center justify-center gap-2 ${buttonClass}`}
               >
-                Simpan Transaksi
+                {isEditMode ? 'Simpan Perubahan' : 'Simpan Transaksi'}
               </button>
             </div>
 
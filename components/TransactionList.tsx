@@ -1,21 +1,29 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Transaction, TransactionType, Account } from '../types';
-import { ArrowDownRight, ArrowUpRight, Search, Trash2, Calendar, Store, Filter, XCircle, Wallet, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Transaction, TransactionType, Account, CategoryRecord } from '../types';
+import { ArrowDownRight, ArrowUpRight, Search, Trash2, Calendar, Store, Filter, XCircle, Wallet, ChevronLeft, ChevronRight, Edit2, History, X, ArrowLeftRight, Upload } from 'lucide-react';
+import { getCategoryIds, getFieldLabel, isTransfer } from '../services/transactionService';
+import { getCategoryColor, getCategoryIcon, getCategoryName } from '../services/categoryService';
+import { CategoryIcon } from './CategoryIcon';
 
 interface TransactionListProps {
   transactions: Transaction[];
   accounts: Account[];
-  onDelete: (id: string) => void;
-  onClearAll: () => void;
+  categories: CategoryRecord[];
+  // Left out when the current user may not do it, which hides the button
+  onEdit?: (t: Transaction) => void;
+  onImportStatement?: () => void;
+  onDelete?: (id: string) => void;
+  onClearAll?: () => void;
 }
 
-type FilterType = 'ALL' | 'INCOME' | 'EXPENSE';
+type FilterType = 'ALL' | 'INCOME' | 'EXPENSE' | 'TRANSFER';
 type SortOrder = 'NEWEST' | 'OLDEST' | 'HIGHEST' | 'LOWEST';
 
 const ITEMS_PER_PAGE = 10;
 
-export const TransactionList: React.FC<TransactionListProps> = React.memo(({ transactions, accounts, onDelete, onClearAll }) => {
+export const TransactionList: React.FC<TransactionListProps> = React.memo(({ transactions, accounts, categories, onEdit, onImportStatement, onDelete, onClearAll }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [historyTransaction, setHistoryTransaction] = useState<Transaction | null>(null);
   const [filterType, setFilterType] = useState<FilterType>('ALL');
   const [sortOrder, setSortOrder] = useState<SortOrder>('NEWEST');
   const [showFilters, setShowFilters] = useState(false);
@@ -38,6 +46,23 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
   const formatCurrency = (amount: number) => 
     new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
 
+  // Revisions written before categories had ids hold the name, which is shown as it was
+  const getCategoryLabel = (value: string) => categories.find(c => c.id === value)?.name ?? value;
+
+  // Render a revision value in a human friendly way
+  const formatChangeValue = (field: string, value: string | number | undefined) => {
+    if (value === undefined || value === '') return '-';
+    if (field === 'amount' || field === 'fee') return formatCurrency(Number(value));
+    if (field === 'accountId' || field === 'toAccountId') return getAccountName(String(value)) || '-';
+    if (field === 'categoryId') return getCategoryLabel(String(value));
+    if (field === 'splits') return String(value).split('; ').map(line => {
+      const at = line.lastIndexOf(': ');
+      return at < 0 ? line : `${getCategoryLabel(line.slice(0, at))}: ${formatCurrency(Number(line.slice(at + 2)))}`;
+    }).join('; ');
+    if (field === 'date') return new Date(String(value)).toLocaleDateString('id-ID');
+    return String(value);
+  };
+
   const formatDateFriendly = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -55,14 +80,15 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
     let result = transactions.filter(t => {
       const matchesSearch = 
         t.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        t.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        getCategoryIds(t).some(id => getCategoryName(categories, id).toLowerCase().includes(searchTerm.toLowerCase())) ||
         (t.merchant && t.merchant.toLowerCase().includes(searchTerm.toLowerCase())) ||
         t.amount.toString().includes(searchTerm);
       
       const matchesType = 
         filterType === 'ALL' || 
         (filterType === 'INCOME' && t.type === TransactionType.INCOME) || 
-        (filterType === 'EXPENSE' && t.type === TransactionType.EXPENSE);
+        (filterType === 'EXPENSE' && t.type === TransactionType.EXPENSE) ||
+        (filterType === 'TRANSFER' && t.type === TransactionType.TRANSFER);
 
       return matchesSearch && matchesType;
     });
@@ -78,7 +104,7 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
     });
 
     return result;
-  }, [transactions, searchTerm, filterType, sortOrder]);
+  }, [transactions, categories, searchTerm, filterType, sortOrder]);
 
   // --- Pagination Logic ---
   const totalPages = Math.ceil(processedTransactions.length / ITEMS_PER_PAGE);
@@ -97,9 +123,9 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
       }
       groups[t.date].transactions.push(t);
       
-      // Calculate daily net (only for displayed items)
+      // Calculate daily net (only for displayed items, transfers are neutral)
       if (t.type === TransactionType.INCOME) groups[t.date].total += t.amount;
-      else groups[t.date].total -= t.amount;
+      else if (t.type === TransactionType.EXPENSE) groups[t.date].total -= t.amount;
     });
 
     return groups;
@@ -145,6 +171,15 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
                 >
                     <Filter size={18} />
                 </button>
+                {onImportStatement && (
+                    <button 
+                        onClick={onImportStatement}
+                        className="p-2 rounded-xl border bg-white border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 transition-colors"
+                        title="Impor Mutasi Rekening (CSV/OFX/QIF)"
+                    >
+                        <Upload size={18} />
+                    </button>
+                )}
             </div>
         </div>
 
@@ -152,7 +187,7 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
         {showFilters && (
             <div className="flex flex-wrap gap-2 animate-fade-in pt-2">
                 <div className="flex bg-slate-100 p-1 rounded-lg">
-                    {(['ALL', 'INCOME', 'EXPENSE'] as FilterType[]).map(type => (
+                    {(['ALL', 'INCOME', 'EXPENSE', 'TRANSFER'] as FilterType[]).map(type => (
                         <button
                             key={type}
                             onClick={() => setFilterType(type)}
@@ -162,7 +197,7 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
                                 : 'text-slate-500 hover:text-slate-700'
                             }`}
                         >
-                            {type === 'ALL' ? 'Semua' : type === 'INCOME' ? 'Pemasukan' : 'Pengeluaran'}
+                            {type === 'ALL' ? 'Semua' : type === 'INCOME' ? 'Pemasukan' : type === 'EXPENSE' ? 'Pengeluaran' : 'Transfer'}
                         </button>
                     ))}
                 </div>
@@ -186,8 +221,8 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
         {(filterType !== 'ALL' || searchTerm) && (
              <div className="flex gap-4 text-xs font-medium pt-2 border-t border-slate-50">
                 <span className="text-slate-500">Hasil: {processedTransactions.length} Transaksi</span>
-                {filterType !== 'EXPENSE' && <span className="text-emerald-600">Masuk: {formatCurrency(viewSummary.income)}</span>}
-                {filterType !== 'INCOME' && <span className="text-rose-600">Keluar: {formatCurrency(viewSummary.expense)}</span>}
+                {filterType !== 'TRANSFER' && filterType !== 'EXPENSE' && <span className="text-emerald-600">Masuk: {formatCurrency(viewSummary.income)}</span>}
+                {filterType !== 'TRANSFER' && filterType !== 'INCOME' && <span className="text-rose-600">Keluar: {formatCurrency(viewSummary.expense)}</span>}
              </div>
         )}
       </div>
@@ -222,11 +257,15 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
                                     <div className="flex items-center gap-3 md:gap-4 overflow-hidden">
                                         {/* Icon Box */}
                                         <div className={`w-10 h-10 rounded-xl flex-shrink-0 flex items-center justify-center text-lg ${
-                                            t.type === TransactionType.INCOME 
+                                            isTransfer(t)
+                                            ? 'bg-blue-100 text-blue-600'
+                                            : t.type === TransactionType.INCOME 
                                             ? 'bg-emerald-100 text-emerald-600' 
                                             : 'bg-rose-100 text-rose-600'
                                         }`}>
-                                            {t.type === TransactionType.INCOME 
+                                            {isTransfer(t)
+                                                ? <ArrowLeftRight size={20} />
+                                                : t.type === TransactionType.INCOME 
                                                 ? <ArrowDownRight size={20} /> 
                                                 : <ArrowUpRight size={20} />
                                             }
@@ -238,40 +277,80 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
                                                 {t.description}
                                             </p>
                                             <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 mt-0.5">
-                                                <span className="inline-flex items-center gap-1 bg-slate-100 px-1.5 py-0.5 rounded text-[10px] font-semibold tracking-wide uppercase">
-                                                    {t.category}
-                                                </span>
+                                                {getCategoryIds(t).map((id, idx) => (
+                                                    <span key={`${id}-${idx}`} className="inline-flex items-center gap-1 bg-slate-100 px-1.5 py-0.5 rounded text-[10px] font-semibold tracking-wide uppercase">
+                                                        {!isTransfer(t) && (
+                                                            <CategoryIcon icon={getCategoryIcon(categories, id)} color={getCategoryColor(categories, id)} size={8} />
+                                                        )}
+                                                        {getCategoryName(categories, id)}
+                                                    </span>
+                                                ))}
                                                 {t.merchant && (
                                                     <span className="flex items-center gap-1 truncate">
                                                         • <Store size={10} /> {t.merchant}
                                                     </span>
                                                 )}
-                                                {t.accountId && (
+                                                {isTransfer(t) ? (
+                                                    <span className="flex items-center gap-1 truncate text-slate-400 bg-slate-50 px-1.5 py-0.5 rounded">
+                                                        <Wallet size={10} /> {getAccountName(t.accountId)} → {getAccountName(t.toAccountId)}
+                                                    </span>
+                                                ) : t.accountId && (
                                                     <span className="flex items-center gap-1 truncate text-slate-400 bg-slate-50 px-1.5 py-0.5 rounded">
                                                         <Wallet size={10} /> {getAccountName(t.accountId)}
                                                     </span>
                                                 )}
+                                                {isTransfer(t) && !!t.fee && (
+                                                    <span className="truncate text-slate-400">
+                                                        • Biaya {formatCurrency(t.fee)}
+                                                    </span>
+                                                )}
                                             </div>
                                         </div>
                                     </div>
 
                                     {/* Amount & Action */}
-                                    <div className="flex items-center gap-3 pl-2">
+                                    <div className="flex items-center gap-1 md:gap-2 pl-2">
                                         <span className={`font-bold text-sm whitespace-nowrap ${
-                                            t.type === TransactionType.INCOME ? 'text-emerald-600' : 'text-slate-800'
+                                            t.type === TransactionType.INCOME ? 'text-emerald-600' : isTransfer(t) ? 'text-blue-600' : 'text-slate-800'
                                         }`}>
                                             {t.type === TransactionType.INCOME ? '+' : ''}{formatCurrency(t.amount)}
                                         </span>
-                                        <button 
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                onDelete(t.id);
-                                            }}
-                                            className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
-                                            title="Hapus"
-                                        >
-                                            <Trash2 size={16} />
-                                        </button>
+                                        {t.revisions && t.revisions.length > 0 && (
+                                            <button 
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setHistoryTransaction(t);
+                                                }}
+                                                className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                                                title="Riwayat Perubahan"
+                                            >
+                                                <History size={16} />
+                                            </button>
+                                        )}
+                                        {onEdit && (
+                                            <button 
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onEdit(t);
+                                                }}
+                                                className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                                                title="Edit"
+                                            >
+                                                <Edit2 size={16} />
+                                            </button>
+                                        )}
+                                        {onDelete && (
+                                            <button 
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onDelete(t.id);
+                                                }}
+                                                className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                                                title="Hapus"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
                                     </div>
                                 </div>
                             ))}
@@ -306,7 +385,7 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
             </div>
         )}
 
-        {transactions.length > 0 && (
+        {onClearAll && transactions.length > 0 && (
             <button 
                 onClick={onClearAll}
                 className="w-full flex items-center justify-center gap-2 py-3 rounded-xl text-rose-600 font-bold text-sm hover:bg-rose-50 transition-colors border border-dashed border-rose-200 hover:border-rose-300"
@@ -315,6 +394,41 @@ export const TransactionList: React.FC<TransactionListProps> = React.memo(({ tra
             </button>
         )}
       </div>
+
+      {/* Revision History Modal */}
+      {historyTransaction && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[80vh] overflow-hidden flex flex-col animate-fade-in-up">
+            <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+              <div>
+                <h3 className="font-bold text-slate-800 flex items-center gap-2"><History size={18} className="text-indigo-600" /> Riwayat Perubahan</h3>
+                <p className="text-xs text-slate-500 truncate">{historyTransaction.description}</p>
+              </div>
+              <button onClick={() => setHistoryTransaction(null)} className="p-1 hover:bg-slate-200 rounded-full"><X size={18} /></button>
+            </div>
+            <div className="overflow-y-auto p-4 space-y-4">
+              {[...(historyTransaction.revisions || [])].reverse().map(rev => (
+                <div key={rev.id} className="border border-slate-100 rounded-xl p-3">
+                  <div className="flex justify-between items-center mb-2 text-xs">
+                    <span className="font-bold text-slate-700">{rev.actor}</span>
+                    <span className="text-slate-400">{new Date(rev.timestamp).toLocaleString('id-ID')}</span>
+                  </div>
+                  <div className="space-y-1">
+                    {rev.changes.map(change => (
+                      <div key={change.field} className="text-xs text-slate-600">
+                        <span className="font-semibold text-slate-500">{getFieldLabel(change.field)}:</span>{' '}
+                        <span className="line-through text-rose-500">{formatChangeValue(change.field, change.from)}</span>
+                        {' → '}
+                        <span className="text-emerald-600 font-medium">{formatChangeValue(change.field, change.to)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 });
\ No newline at end of file
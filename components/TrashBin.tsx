@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { CategoryRecord, TrashItem } from '../types';
+import { Trash2, RotateCcw, Inbox } from 'lucide-react';
+import { TRASH_KIND_LABELS, TRASH_RETENTION_DAYS, getDaysLeft } from '../services/trashService';
+import { describeAuditRecord } from '../services/auditService';
+
+interface TrashBinProps {
+  trash: TrashItem[];
+  categories: CategoryRecord[]; // To name the category of deleted transactions
+  onRestore: (ids: string[]) => void;
+  onPurge?: (ids: string[]) => void; // Left out for users who may not delete for good
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeItem = (item: TrashItem, categories: CategoryRecord[]) =>
+  describeAuditRecord(item.kind === 'TRANSACTION' ? 'transactions' : 'invoices', item.record, categories);
+
+export const TrashBin: React.FC<TrashBinProps> = ({ trash, categories, onRestore, onPurge }) => {
+  const [kind, setKind] = useState<TrashItem['kind'] | 'ALL'>('ALL');
+
+  const visible = useMemo(() => trash
+    .filter(item => kind === 'ALL' || item.kind === kind)
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)), [trash, kind]);
+
+  const visibleIds = visible.map(item => item.id);
+
+  const handlePurge = (ids: string[], label: string) => {
+    if (!onPurge) return;
+    if (confirm(`${label} akan dihapus permanen dan tidak bisa dipulihkan lagi. Lanjutkan?`)) {
+      onPurge(ids);
+    }
+  };
+
+  const handleRestoreAll = () => {
+    onRestore(visibleIds);
+    alert(`${visibleIds.length} data berhasil dipulihkan.`);
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+        <select
+          className="p-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+          value={kind}
+          onChange={e => setKind(e.target.value as TrashItem['kind'] | 'ALL')}
+        >
+          <option value="ALL">Semua Jenis</option>
+          {(Object.keys(TRASH_KIND_LABELS) as TrashItem['kind'][]).map(key => <option key={key} value={key}>{TRASH_KIND_LABELS[key]}</option>)}
+        </select>
+        {visible.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleRestoreAll}
+              className="px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg font-bold hover:bg-indigo-100 transition-colors text-sm flex items-center gap-2"
+            >
+              <RotateCcw size={16} /> Pulihkan Semua
+            </button>
+            {onPurge && (
+              <button
+                onClick={() => handlePurge(visibleIds, `${visibleIds.length} data di Tempat Sampah`)}
+                className="px-4 py-2 bg-rose-50 text-rose-600 rounded-lg font-bold hover:bg-rose-100 transition-colors text-sm flex items-center gap-2"
+              >
+                <Trash2 size={16} /> Kosongkan
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Data yang dihapus disimpan di sini selama {TRASH_RETENTION_DAYS} hari, lalu terhapus permanen secara otomatis.
+      </p>
+
+      {visible.length === 0 && (
+        <div className="text-center py-8 text-slate-400 text-sm">
+          <Inbox size={32} className="mx-auto mb-2 opacity-40" />
+          Tempat Sampah kosong.
+        </div>
+      )}
+
+      <div className="grid gap-2">
+        {visible.map(item => {
+          const daysLeft = getDaysLeft(item);
+          return (
+            <div key={item.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-slate-200 text-slate-600">{TRASH_KIND_LABELS[item.kind]}</span>
+                  <span className={`text-xs font-bold ${daysLeft <= 3 ? 'text-rose-600' : 'text-slate-500'}`}>
+                    {daysLeft > 0 ? `${daysLeft} hari lagi` : 'Terhapus hari ini'}
+                  </span>
+                </div>
+                <p className="text-sm font-medium text-slate-700 truncate">{describeItem(item, categories)}</p>
+                <p className="text-xs text-slate-400">Dihapus {formatTime(item.deletedAt)} • {item.deletedBy}</p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onRestore([item.id])}
+                  className="px-3 py-1.5 bg-white border border-slate-200 text-indigo-600 rounded-lg font-bold hover:bg-indigo-50 transition-colors text-xs flex items-center gap-1"
+                >
+                  <RotateCcw size={14} /> Pulihkan
+                </button>
+                {onPurge && (
+                  <button
+                    onClick={() => handlePurge([item.id], `"${describeItem(item, categories)}"`)}
+                    className="px-3 py-1.5 bg-white border border-slate-200 text-rose-600 rounded-lg font-bold hover:bg-rose-50 transition-colors text-xs flex items-center gap-1"
+                  >
+                    <Trash2 size={14} /> Hapus Permanen
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+import { Undo2, Redo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  mode: 'UNDO' | 'REDO'; // Which button the toast offers
+  onAction: () => void;
+  onClose: () => void;
+}
+
+const VISIBLE_MS = 6000;
+
+// Shown after each undoable change, and after undoing one so it can be redone
+export const UndoToast: React.FC<UndoToastProps> = ({ message, mode, onAction, onClose }) => {
+  useEffect(() => {
+    const timer = setTimeout(onClose, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [message, mode, onClose]);
+
+  return (
+    <div className="fixed bottom-24 md:bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md print:hidden">
+      <div className="flex items-center gap-3 bg-slate-800 text-white rounded-xl shadow-2xl px-4 py-3 animate-fade-in-up">
+        <p className="flex-1 min-w-0 text-sm truncate">{message}</p>
+        <button
+          onClick={onAction}
+          className="flex items-center gap-1 text-sm font-bold text-indigo-300 hover:text-indigo-200 flex-shrink-0"
+        >
+          {mode === 'UNDO' ? <><Undo2 size={16} /> Urungkan</> : <><Redo2 size={16} /> Ulangi</>}
+        </button>
+        <button onClick={onClose} className="text-slate-400 hover:text-white flex-shrink-0">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { UserProfile, UserRole } from '../types';
+import { Users, UserPlus, KeyRound, Trash2, Check, Timer } from 'lucide-react';
+import { ROLE_LABELS, ROLE_DESCRIPTIONS, PIN_PATTERN, createUserProfile, withPin, hasOwner } from '../services/accessService';
+
+interface UserSettingsProps {
+  users: UserProfile[];
+  setUsers: (users: UserProfile[]) => void;
+  currentUserId: string | null;
+  autoLockMinutes: number;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+
+const checkPin = (pin: string, confirmPin: string) => {
+  if (!PIN_PATTERN.test(pin)) return "PIN harus 4 sampai 8 angka.";
+  if (pin !== confirmPin) return "Konfirmasi PIN tidak sama.";
+  return null;
+};
+
+export const UserSettings: React.FC<UserSettingsProps> = ({
+  users, setUsers, currentUserId, autoLockMinutes, setAutoLockMinutes
+}) => {
+  const emptyForm = { name: '', role: 'CASHIER' as UserRole, pin: '', confirmPin: '' };
+  const [form, setForm] = useState(emptyForm);
+  const [pinEditing, setPinEditing] = useState<{ id: string; pin: string; confirmPin: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Whoever sets up locking owns the device, otherwise nobody could manage profiles afterwards
+  const isFirstProfile = users.length === 0;
+  const role = isFirstProfile ? 'OWNER' : form.role;
+
+  const addUser = async () => {
+    if (!form.name.trim()) { alert("Mohon isi nama pengguna."); return; }
+    if (users.some(u => u.name.toLowerCase() === form.name.trim().toLowerCase())) { alert("Nama pengguna sudah dipakai."); return; }
+    const pinError = checkPin(form.pin, form.confirmPin);
+    if (pinError) { alert(pinError); return; }
+    setIsBusy(true);
+    try {
+      setUsers([...users, await createUserProfile(form.name, role, form.pin)]);
+      setForm(emptyForm);
+      if (isFirstProfile) alert("Profil dibuat. Mulai sekarang aplikasi meminta PIN saat dibuka atau terkunci.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changeRole = (user: UserProfile, newRole: UserRole) => {
+    const next = users.map(u => u.id === user.id ? { ...u, role: newRole } : u);
+    if (!hasOwner(next)) { alert("Minimal harus ada satu Pemilik."); return; }
+    setUsers(next);
+  };
+
+  const savePin = async () => {
+    if (!pinEditing) return;
+    const pinError = checkPin(pinEditing.pin, pinEditing.confirmPin);
+    if (pinError) { alert(pinError); return; }
+    const user = users.find(u => u.id === pinEditing.id);
+    if (!user) return;
+    setIsBusy(true);
+    try {
+      const updated = await withPin(user, pinEditing.pin);
+      setUsers(users.map(u => u.id === user.id ? updated : u));
+      setPinEditing(null);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const removeUser = (user: UserProfile) => {
+    const remaining = users.filter(u => u.id !== user.id);
+    if (remaining.length > 0 && user.id === currentUserId) { alert("Profil yang sedang dipakai tidak dapat dihapus."); return; }
+    if (!hasOwner(remaining)) { alert("Minimal harus ada satu Pemilik."); return; }
+    const message = remaining.length === 0
+      ? "Hapus profil terakhir? Kunci PIN akan dimatikan dan semua orang mendapat akses penuh."
+      : `Hapus profil "${user.name}"?`;
+    if (confirm(message)) setUsers(remaining);
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="grid gap-3">
+        {isFirstProfile && (
+          <div className="text-center py-8 text-slate-400 text-sm">
+            <Users size={32} className="mx-auto mb-2 opacity-40" />
+            Belum ada profil. Semua orang yang membuka aplikasi di perangkat ini mendapat akses penuh.
+          </div>
+        )}
+        {users.map(user => (
+          <div key={user.id} className="p-3 rounded-xl border border-slate-100 bg-slate-50 transition-all hover:shadow-sm">
+            <div className="flex justify-between items-center gap-2">
+              <div className="min-w-0">
+                <p className="font-bold text-slate-700 truncate">
+                  {user.name}
+                  {user.id === currentUserId && <span className="ml-2 text-[10px] font-bold uppercase text-indigo-600">Anda</span>}
+                </p>
+                <p className="text-xs text-slate-500">{ROLE_DESCRIPTIONS[user.role]}</p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <select
+                  className="p-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-600 outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={user.role}
+                  onChange={e => changeRole(user, e.target.value as UserRole)}
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                  onClick={() => setPinEditing({ id: user.id, pin: '', confirmPin: '' })}
+                  className="p-2 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-colors"
+                  title="Ganti PIN"
+                >
+                  <KeyRound size={16} />
+                </button>
+                <button
+                  onClick={() => removeUser(user)}
+                  className="p-2 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-colors"
+                  title="Hapus Profil"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+            {pinEditing?.id === user.id && (
+              <div className="flex flex-col md:flex-row gap-2 mt-3">
+                <input
+                  type="password" inputMode="numeric" autoFocus placeholder="PIN baru"
+                  className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={pinEditing.pin}
+                  onChange={e => setPinEditing({ ...pinEditing, pin: e.target.value })}
+                />
+                <input
+                  type="password" inputMode="numeric" placeholder="Ulangi PIN"
+                  className="flex-1 p-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                  value={pinEditing.confirmPin}
+                  onChange={e => setPinEditing({ ...pinEditing, confirmPin: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && savePin()}
+                />
+                <div className="flex gap-2">
+                  <button onClick={() => setPinEditing(null)} className="px-3 py-2 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg">Batal</button>
+                  <button onClick={savePin} disabled={isBusy} className="px-3 py-2 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center gap-1 disabled:opacity-50"><Check size={14} /> Simpan</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!isFirstProfile && (
+        <div className="flex items-center justify-between gap-4 p-4 rounded-xl border border-slate-100">
+          <div>
+            <p className="text-sm font-bold text-slate-700 flex items-center gap-2"><Timer size={16} className="text-indigo-600" /> Kunci Otomatis</p>
+            <p className="text-xs text-slate-500">Aplikasi terkunci jika tidak ada aktivitas selama waktu ini.</p>
+          </div>
+          <select
+            className="p-2 bg-white border border-slate-200 rounded-lg text-sm font-medium text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500"
+            value={autoLockMinutes}
+            onChange={e => setAutoLockMinutes(Number(e.target.value))}
+          >
+            {AUTO_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Tidak pernah' : `${m} menit`}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="pt-6 mt-4 border-t border-slate-100">
+        <h4 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2">
+          <UserPlus size={18} className="text-indigo-600" /> {isFirstProfile ? 'Buat Profil Pemilik' : 'Tambah Pengguna'}
+        </h4>
+
+        <div className="bg-slate-50 p-4 rounded-2xl border border-slate-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Nama</label>
+              <input
+                type="text"
+                placeholder="Contoh: Rina"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Peran</label>
+              <select
+                disabled={isFirstProfile}
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-slate-700 disabled:opacity-60"
+                value={role}
+                onChange={e => setForm({ ...form, role: e.target.value as UserRole })}
+              >
+                {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">PIN (4-8 angka)</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-slate-700"
+                value={form.pin}
+                onChange={e => setForm({ ...form, pin: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1.5 uppercase">Ulangi PIN</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                className="w-full p-3 bg-white border border-slate-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-indigo-500 font-bold text-slate-700"
+                value={form.confirmPin}
+                onChange={e => setForm({ ...form, confirmPin: e.target.value })}
+                onKeyDown={e => e.key === 'Enter' && addUser()}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">{ROLE_DESCRIPTIONS[role]}</p>
+
+          <button
+            onClick={addUser}
+            disabled={isBusy}
+            className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <UserPlus size={18} /> {isFirstProfile ? 'Buat Profil & Aktifkan PIN' : 'Tambah Pengguna'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Workspace } from '../types';
+import { listWorkspaces, createWorkspace, updateWorkspace, removeWorkspace, toCloudFolder } from '../services/workspaceService';
+import { copyWorkspaceSettings, deleteWorkspaceData } from '../services/storageRepository';
+import { Layers, X, Edit2, Trash2, Check, Plus, ArrowRight, Folder } from 'lucide-react';
+
+interface WorkspaceManagerProps {
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+export const WorkspaceManager: React.FC<WorkspaceManagerProps> = ({ activeId, onSwitch, onChanged, onClose }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(listWorkspaces);
+  const [editing, setEditing] = useState<{ id: string; name: string; cloudFolder: string } | null>(null);
+  const [newName, setNewName] = useState('');
+  const [copySettings, setCopySettings] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const activeName = workspaces.find(w => w.id === activeId)?.name;
+
+  const refresh = () => {
+    setWorkspaces(listWorkspaces());
+    onChanged();
+  };
+
+  const isNameTaken = (name: string, exceptId?: string) =>
+    workspaces.some(w => w.id !== exceptId && w.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (isNameTaken(newName)) { alert("Nama workspace sudah dipakai."); return; }
+    setIsBusy(true);
+    try {
+      const workspace = createWorkspace(newName);
+      if (copySettings) await copyWorkspaceSettings(activeId, workspace.id);
+      setNewName('');
+      refresh();
+      if (confirm(`Workspace "${workspace.name}" dibuat. Pindah ke workspace ini sekarang?`)) onSwitch(workspace.id);
+    } catch (e) {
+      console.error("Failed to create workspace", e);
+      alert("Gagal membuat workspace.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveEdit = () => {
+    if (!editing || !editing.name.trim()) return;
+    if (isNameTaken(editing.name, editing.id)) { alert("Nama workspace sudah dipakai."); return; }
+    const cloudFolder = toCloudFolder(editing.cloudFolder);
+    if (workspaces.some(w => w.id !== editing.id && w.cloudFolder === cloudFolder)) {
+      alert("Folder cloud sudah dipakai workspace lain. Data keduanya akan tercampur.");
+      return;
+    }
+    const original = workspaces.find(w => w.id === editing.id);
+    if (original && original.cloudFolder !== cloudFolder &&
+      !confirm("Folder cloud berubah. Backup dan sinkronisasi berikutnya memakai folder baru; isi folder lama tidak dipindahkan. Lanjutkan?")) return;
+    updateWorkspace(editing.id, { name: editing.name.trim(), cloudFolder });
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = async (workspace: Workspace) => {
+    if (!confirm(`Hapus workspace "${workspace.name}" beserta seluruh datanya di perangkat ini? Tindakan ini tidak dapat dibatalkan.`)) return;
+    setIsBusy(true);
+    try {
+      removeWorkspace(workspace.id);
+      await deleteWorkspaceData(workspace.id);
+      refresh();
+    } catch (e) {
+      console.error("Failed to delete workspace", e);
+      alert(e instanceof Error ? e.message : "Gagal menghapus workspace.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] overflow-hidden flex flex-col animate-fade-in-up">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-indigo-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-white rounded-lg shadow-sm text-indigo-600">
+              <Layers size={20} />
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-800">Kelola Workspace</h3>
+              <p className="text-xs text-slate-500">Setiap workspace punya akun, kategori, transaksi, invoice dan backup sendiri</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white rounded-full text-slate-500"><X size={18} /></button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-2 flex-1">
+          {workspaces.map(workspace => (
+            <div key={workspace.id} className={`p-3 rounded-xl border ${workspace.id === activeId ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+              {editing?.id === workspace.id ? (
+                <div className="space-y-2">
+                  <input
+                    autoFocus
+                    className="w-full p-2 bg-white border border-indigo-300 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+                    value={editing.name}
+                    onChange={e => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={e => e.key === 'Enter' && saveEdit()}
+                  />
+                  <label className="flex items-center gap-2 text-xs text-slate-500">
+                    <Folder size={14} className="flex-shrink-0" /> Folder cloud
+                    <input
+                      className="flex-1 p-1.5 bg-white border border-slate-200 rounded text-xs font-mono outline-none focus:ring-2 focus:ring-indigo-500"
+                      placeholder="(lokasi awal)"
+                      value={editing.cloudFolder}
+                      onChange={e => setEditing({ ...editing, cloudFolder: e.target.value })}
+                    />
+                  </label>
+                  <p className="text-[11px] text-slate-400">Samakan folder cloud di setiap perangkat agar workspace ini saling tersinkron.</p>
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg">Batal</button>
+                    <button onClick={saveEdit} className="px-3 py-1.5 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center gap-1"><Check size={14} /> Simpan</button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-bold text-sm text-slate-800 truncate">
+                      {workspace.name}
+                      {workspace.id === activeId && <span className="ml-2 text-[10px] font-bold uppercase text-indigo-600">Aktif</span>}
+                    </p>
+                    <p className="text-[11px] text-slate-400 font-mono truncate">{workspace.cloudFolder ? `cloud: ${workspace.cloudFolder}` : 'cloud: lokasi awal'}</p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {workspace.id !== activeId && (
+                      <button onClick={() => onSwitch(workspace.id)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-white rounded-lg" title="Buka">
+                        <ArrowRight size={16} />
+                      </button>
+                    )}
+                    <button onClick={() => setEditing({ id: workspace.id, name: workspace.name, cloudFolder: workspace.cloudFolder })} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-white rounded-lg" title="Ubah">
+                      <Edit2 size={16} />
+                    </button>
+                    {/* The open workspace can't be deleted: its database stays in use until the page reloads */}
+                    <button
+                      onClick={() => handleDelete(workspace)}
+                      disabled={workspace.id === activeId || isBusy}
+                      className="p-2 text-slate-400 hover:text-rose-600 hover:bg-white rounded-lg disabled:opacity-30 disabled:hover:text-slate-400"
+                      title={workspace.id === activeId ? 'Pindah ke workspace lain untuk menghapus yang ini' : 'Hapus'}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 space-y-3 bg-slate-50">
+          <div className="flex gap-2">
+            <input
+              className="flex-1 p-2.5 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+              placeholder="Nama workspace baru, mis. Toko Kedua"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            />
+            <button onClick={handleCreate} disabled={!newName.trim() || isBusy} className="bg-indigo-600 text-white px-4 rounded-lg text-sm font-bold hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1">
+              <Plus size={16} /> Buat
+            </button>
+          </div>
+          <label className="flex items-start gap-2 text-xs text-slate-600 cursor-pointer">
+            <input type="checkbox" className="mt-0.5" checked={copySettings} onChange={e => setCopySettings(e.target.checked)} />
+            <span>Salin pengaturan dari "{activeName}": akun (saldo awal 0), kategori, aturan kategori, profil invoice dan pengaturan cloud (tanpa password). Transaksi, data lain dan passphrase backup tidak disalin. Pengguna &amp; PIN berlaku untuk semua workspace.</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Workspace } from '../types';
+import { listWorkspaces, switchWorkspace } from '../services/workspaceService';
+import { Briefcase, ChevronsUpDown, Check, Layers } from 'lucide-react';
+
+interface WorkspaceSwitcherProps {
+  active: Workspace;
+  canSwitch: boolean;
+  onManage?: () => void; // Left out when the current user may not manage workspaces
+}
+
+export const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ active, canSwitch, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(listWorkspaces);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setWorkspaces(listWorkspaces());
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canSwitch}
+        className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl border border-slate-200 hover:bg-slate-50 transition-colors text-left disabled:hover:bg-transparent disabled:cursor-default"
+      >
+        <Briefcase size={18} className="text-indigo-600 flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="text-[10px] font-bold uppercase tracking-wide text-slate-400">Workspace</p>
+          <p className="text-sm font-bold text-slate-800 truncate">{active.name}</p>
+        </div>
+        {canSwitch && <ChevronsUpDown size={16} className="text-slate-400 flex-shrink-0" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-2 bg-white rounded-xl shadow-xl border border-slate-100 z-40 overflow-hidden animate-fade-in">
+          <div className="max-h-64 overflow-y-auto py-1">
+            {workspaces.map(workspace => (
+              <button
+                key={workspace.id}
+                onClick={() => workspace.id === active.id ? setIsOpen(false) : switchWorkspace(workspace.id)}
+                className="w-full flex items-center justify-between gap-2 px-4 py-2.5 text-sm hover:bg-slate-50 text-left"
+              >
+                <span className={`truncate ${workspace.id === active.id ? 'font-bold text-indigo-600' : 'text-slate-700'}`}>{workspace.name}</span>
+                {workspace.id === active.id && <Check size={16} className="text-indigo-600 flex-shrink-0" />}
+              </button>
+            ))}
+          </div>
+          {onManage && (
+            <button
+              onClick={() => { setIsOpen(false); onManage(); }}
+              className="w-full flex items-center gap-2 px-4 py-3 text-sm font-bold text-slate-600 border-t border-slate-100 hover:bg-slate-50"
+            >
+              <Layers size={16} /> Kelola Workspace
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
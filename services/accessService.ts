@@ -0,0 +1,89 @@
+import { UserProfile, UserRole, ViewState } from '../types';
+import { derivePbkdf2Bits, fromBase64, toBase64 } from './backupCrypto';
+
+// Local user profiles with a PIN, and what each role may see and do. Profiles cover every
+// workspace on the device. Without any profile the app stays unlocked with full access, as before
+// profiles existed.
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  OWNER: 'Pemilik',
+  ADMIN: 'Admin',
+  CASHIER: 'Kasir',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  OWNER: 'Akses penuh, termasuk pengguna, restore dan reset data.',
+  ADMIN: 'Kelola transaksi, laporan dan pengaturan. Tanpa restore, reset dan pengguna.',
+  CASHIER: 'Hanya mencatat transaksi dan membuat invoice.',
+};
+
+const VIEW_ACCESS: Record<ViewState, UserRole[]> = {
+  DASHBOARD: ['OWNER', 'ADMIN'],
+  TRANSACTIONS: ['OWNER', 'ADMIN', 'CASHIER'],
+  DEBTS: ['OWNER', 'ADMIN'],
+  INVOICE: ['OWNER', 'ADMIN', 'CASHIER'],
+  AI_ADVISOR: ['OWNER', 'ADMIN'],
+  REPORTS: ['OWNER', 'ADMIN'],
+  SETTINGS: ['OWNER', 'ADMIN'],
+};
+
+export type Permission =
+  | 'EDIT_TRANSACTION'
+  | 'DELETE_TRANSACTION'
+  | 'CLEAR_ALL_TRANSACTIONS'
+  | 'DELETE_INVOICE'
+  | 'PURGE_TRASH'
+  | 'IMPORT_STATEMENT'
+  | 'RESTORE_BACKUP'
+  | 'RESET_DATA'
+  | 'MANAGE_USERS'
+  | 'SWITCH_WORKSPACE'
+  | 'MANAGE_WORKSPACES';
+
+const PERMISSIONS: Record<Permission, UserRole[]> = {
+  EDIT_TRANSACTION: ['OWNER', 'ADMIN'],
+  DELETE_TRANSACTION: ['OWNER', 'ADMIN'],
+  CLEAR_ALL_TRANSACTIONS: ['OWNER'],
+  DELETE_INVOICE: ['OWNER', 'ADMIN'],
+  PURGE_TRASH: ['OWNER'],
+  IMPORT_STATEMENT: ['OWNER', 'ADMIN'],
+  RESTORE_BACKUP: ['OWNER'],
+  RESET_DATA: ['OWNER'],
+  MANAGE_USERS: ['OWNER'],
+  SWITCH_WORKSPACE: ['OWNER', 'ADMIN'],
+  MANAGE_WORKSPACES: ['OWNER'],
+};
+
+// role is null while the app is locked, which allows nothing
+export const canView = (role: UserRole | null, view: ViewState) => !!role && VIEW_ACCESS[view].includes(role);
+
+export const can = (role: UserRole | null, permission: Permission) => !!role && PERMISSIONS[permission].includes(role);
+
+// First screen the role may open, in sidebar order
+export const getHomeView = (role: UserRole | null): ViewState =>
+  (Object.keys(VIEW_ACCESS) as ViewState[]).find(view => canView(role, view)) || 'TRANSACTIONS';
+
+export const DENIED_MESSAGE = "Anda tidak memiliki akses untuk tindakan ini.";
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+// --- PIN ---
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_ITERATIONS = 100000;
+
+const hashPin = async (pin: string, salt: Uint8Array) => toBase64(await derivePbkdf2Bits(pin, salt, PIN_ITERATIONS));
+
+// A fresh salt every time, also when only the PIN changes
+export const withPin = async <T extends object>(profile: T, pin: string): Promise<T & Pick<UserProfile, 'pinHash' | 'pinSalt'>> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { ...profile, pinHash: await hashPin(pin, salt), pinSalt: toBase64(salt) };
+};
+
+export const createUserProfile = (name: string, role: UserRole, pin: string): Promise<UserProfile> =>
+  withPin({ id: Date.now().toString(), name: name.trim(), role, createdAt: new Date().toISOString() }, pin);
+
+export const verifyPin = async (user: UserProfile, pin: string) => (await hashPin(pin, fromBase64(user.pinSalt))) === user.pinHash;
+
+// Once profiles exist someone must remain able to manage them
+export const hasOwner = (users: UserProfile[]) => users.length === 0 || users.some(u => u.role === 'OWNER');
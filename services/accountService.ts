@@ -0,0 +1,116 @@
+import { Account, AppData, Transaction, TrashItem } from '../types';
+
+// Transactions, recurring templates and category rules refer to an account by id. An account with
+// history is never simply deleted: its records move to another account first (reassignAccount),
+// or it is archived, which only hides it from the pickers for new entries. An opening balance counts
+// as history too, it moves onto the target like the transactions do.
+
+// Everything besides the account list that points at an account
+export type AccountReferences = Pick<AppData, 'transactions' | 'recurring' | 'categoryRules'> & { trash: TrashItem[] };
+
+export type AccountUsage = Record<keyof AccountReferences, number>;
+
+const USAGE_LABELS: Record<keyof AccountReferences, string> = {
+  transactions: 'transaksi',
+  recurring: 'transaksi berulang',
+  categoryRules: 'aturan kategori',
+  trash: 'transaksi di tempat sampah',
+};
+
+// e.g. "12 transaksi, 1 aturan kategori", empty when nothing points at the account
+export const describeAccountUsage = (usage: AccountUsage) =>
+  (Object.keys(USAGE_LABELS) as (keyof AccountReferences)[])
+    .filter(key => usage[key] > 0)
+    .map(key => `${usage[key]} ${USAGE_LABELS[key]}`)
+    .join(', ');
+
+type AccountedRecord = Pick<Transaction, 'accountId' | 'toAccountId'>;
+
+const usesAccount = (record: AccountedRecord, id: string) => record.accountId === id || record.toAccountId === id;
+
+const trashedTransactions = (trash: TrashItem[]) => trash.flatMap(item => (item.kind === 'TRANSACTION' ? [item.record] : []));
+
+export const getAccountUsage = (refs: AccountReferences, id: string): AccountUsage => ({
+  transactions: refs.transactions.filter(t => usesAccount(t, id)).length,
+  recurring: refs.recurring.filter(r => usesAccount(r.template, id)).length,
+  categoryRules: refs.categoryRules.filter(r => r.conditions.accountId === id || r.setAccountId === id).length,
+  trash: trashedTransactions(refs.trash).filter(t => usesAccount(t, id)).length,
+});
+
+export const hasAccountHistory = (account: Account, usage: AccountUsage) =>
+  account.initialBalance !== 0 || Object.values(usage).some(count => count > 0);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+// describeAccountUsage plus the opening balance, e.g. "saldo awal Rp 500.000, 12 transaksi"
+export const describeAccountHistory = (account: Account, usage: AccountUsage) =>
+  [account.initialBalance !== 0 && `saldo awal ${formatCurrency(account.initialBalance)}`, describeAccountUsage(usage)]
+    .filter(Boolean)
+    .join(', ');
+
+// Accounts offered for new entries. The ids in `keep` stay listed even when archived, so editing
+// an older transaction doesn't silently move it to another account.
+export const getActiveAccounts = (accounts: Account[], ...keep: (string | undefined)[]) =>
+  accounts.filter(a => !a.archived || keep.includes(a.id));
+
+// Same array when nothing changed
+const mapChanged = <T>(items: T[], update: (item: T) => T): T[] => {
+  const next = items.map(update);
+  return next.some((item, i) => item !== items[i]) ? next : items;
+};
+
+const moveRecord = <T extends AccountedRecord>(record: T, from: string, to: string): T => {
+  if (!usesAccount(record, from)) return record;
+  return {
+    ...record,
+    accountId: record.accountId === from ? to : record.accountId,
+    ...(record.toAccountId !== undefined && { toAccountId: record.toAccountId === from ? to : record.toAccountId }),
+  };
+};
+
+// Null when the source can be folded into the target. A transfer between the two would end up
+// going from the target to itself, those have to be removed by hand first.
+export const validateAccountReassign = (accounts: Account[], refs: AccountReferences, sourceId: string, targetId: string): string | null => {
+  const source = accounts.find(a => a.id === sourceId);
+  const target = accounts.find(a => a.id === targetId);
+  if (!source || !target) return 'Pilih akun tujuan terlebih dahulu.';
+  if (source.id === target.id) return 'Akun tujuan harus berbeda dari akun yang dihapus.';
+  if (target.archived) return `Akun ${target.name} sudah diarsipkan. Pilih akun yang masih aktif.`;
+
+  const between = [...refs.transactions, ...trashedTransactions(refs.trash), ...refs.recurring.map(r => r.template)]
+    .filter(t => usesAccount(t, source.id) && usesAccount(t, target.id)).length;
+  if (between > 0) return `Ada ${between} transfer antara ${source.name} dan ${target.name}. Hapus atau ubah transfer tersebut terlebih dahulu.`;
+  return null;
+};
+
+export type AccountChange = AccountReferences & { accounts: Account[] };
+
+// Every reference to the source points at the target, the target takes over its opening balance
+// and the source is removed, in one change. Expected to pass validateAccountReassign.
+export const reassignAccount = (accounts: Account[], refs: AccountReferences, sourceId: string, targetId: string): AccountChange => ({
+  transactions: mapChanged(refs.transactions, t => moveRecord(t, sourceId, targetId)),
+  recurring: mapChanged(refs.recurring, r => {
+    const template = moveRecord(r.template, sourceId, targetId);
+    return template === r.template ? r : { ...r, template };
+  }),
+  categoryRules: mapChanged(refs.categoryRules, r => {
+    if (r.conditions.accountId !== sourceId && r.setAccountId !== sourceId) return r;
+    return {
+      ...r,
+      conditions: r.conditions.accountId === sourceId ? { ...r.conditions, accountId: targetId } : r.conditions,
+      setAccountId: r.setAccountId === sourceId ? targetId : r.setAccountId,
+    };
+  }),
+  trash: mapChanged(refs.trash, item => {
+    if (item.kind !== 'TRANSACTION') return item;
+    const record = moveRecord(item.record, sourceId, targetId);
+    return record === item.record ? item : { ...item, record };
+  }),
+  accounts: accounts.flatMap(a => {
+    if (a.id === sourceId) return [];
+    if (a.id !== targetId) return [a];
+    const source = accounts.find(s => s.id === sourceId);
+    return [source && source.initialBalance !== 0 ? { ...a, initialBalance: a.initialBalance + source.initialBalance } : a];
+  }),
+});
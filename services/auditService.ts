@@ -0,0 +1,157 @@
+import { AppData, AuditAction, AuditEntity, AuditEntry, AuditSource, CategoryRecord, TrashItem } from '../types';
+import { getRepository } from './storageRepository';
+import { getCategoryName } from './categoryService';
+import { isRecord, numberField, recordField, textField } from './recordFields';
+
+// Append-only record of who changed what. Changes are worked out by comparing a collection
+// before and after, so every handler that replaces a collection can log it the same way.
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Tambah',
+  UPDATE: 'Ubah',
+  DELETE: 'Hapus',
+  CLEAR_ALL: 'Hapus Semua',
+  IMPORT: 'Impor',
+  RESTORE: 'Pulihkan',
+  PURGE: 'Hapus Permanen',
+  RESET: 'Reset Data',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  TRANSACTION: 'Transaksi',
+  ACCOUNT: 'Akun',
+  CATEGORY: 'Kategori',
+  INVOICE: 'Invoice',
+  RECURRING: 'Transaksi Berulang',
+  CATEGORY_RULE: 'Aturan Kategori',
+  BUDGET: 'Anggaran',
+  DEBT: 'Hutang & Piutang',
+  DATA: 'Seluruh Data',
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  MANUAL: 'Manual',
+  SCAN: 'Scan Struk',
+  IMPORT: 'Impor',
+  RECURRING: 'Berulang',
+  SYNC: 'Sinkronisasi',
+};
+
+// Actor for changes the app makes by itself
+export const SYSTEM_ACTOR = 'Sistem';
+
+export const AUDIT_ENTITY_BY_KEY: Record<keyof AppData, AuditEntity> = {
+  transactions: 'TRANSACTION',
+  invoices: 'INVOICE',
+  accounts: 'ACCOUNT',
+  categories: 'CATEGORY',
+  recurring: 'RECURRING',
+  categoryRules: 'CATEGORY_RULE',
+  budgets: 'BUDGET',
+  debts: 'DEBT',
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+// Short, searchable description of a single record. Categories are named as they are called
+// at the time, the entry keeps the id in its snapshot. Takes records of every collection, so fields are
+// read by type instead of assumed.
+export const describeAuditRecord = (key: keyof AppData, value: unknown, categories: CategoryRecord[]): string => {
+  if (!isRecord(value)) return '';
+  const text = (field: string) => textField(value, field);
+  const amount = (record: Record<string, unknown>) => formatCurrency(numberField(record, 'amount'));
+  const categoryName = (record: Record<string, unknown>) => getCategoryName(categories, textField(record, 'categoryId'));
+  switch (key) {
+    case 'transactions':
+      return `${text('date')} • ${text('description') || categoryName(value)} • ${amount(value)}`;
+    case 'accounts':
+      return text('name');
+    case 'categories':
+      return `${text('name')} (${text('type') === 'INCOME' ? 'pemasukan' : 'pengeluaran'})`;
+    case 'invoices':
+      return `${text('clientName')} • ${text('date')}`;
+    case 'recurring': {
+      const template = recordField(value, 'template');
+      return `${textField(template, 'description') || categoryName(template)} • ${amount(template)}`;
+    }
+    case 'categoryRules':
+      return `${text('name')} → ${categoryName(value)}`;
+    case 'budgets':
+      return `${categoryName(value)} • ${text('month')} • ${amount(value)}`;
+    case 'debts':
+      return `${text('counterparty')} • ${amount(value)}`;
+  }
+};
+
+// An entry before it gets an id, time, actor and source
+export type AuditDraft = Pick<AuditEntry, 'action' | 'entity' | 'entityId' | 'summary' | 'before' | 'after'>;
+
+// One draft per record added, changed or removed
+export const diffForAudit = <K extends keyof AppData>(key: K, before: AppData[K], after: AppData[K], categories: CategoryRecord[]): AuditDraft[] => {
+  if (before === after) return [];
+  const entity = AUDIT_ENTITY_BY_KEY[key];
+  const beforeList: { id: string }[] = before;
+  const afterList: { id: string }[] = after;
+  const beforeById = new Map(beforeList.map(item => [item.id, item]));
+  const afterIds = new Set(afterList.map(item => item.id));
+  const drafts: AuditDraft[] = [];
+
+  afterList.forEach(item => {
+    const id = item.id;
+    const previous = beforeById.get(id);
+    if (previous === undefined) {
+      drafts.push({ action: 'CREATE', entity, entityId: id, summary: describeAuditRecord(key, item, categories), after: item });
+    } else if (previous !== item && JSON.stringify(previous) !== JSON.stringify(item)) {
+      drafts.push({ action: 'UPDATE', entity, entityId: id, summary: describeAuditRecord(key, item, categories), before: previous, after: item });
+    }
+  });
+  beforeById.forEach((item, id) => {
+    if (!afterIds.has(id)) drafts.push({ action: 'DELETE', entity, entityId: id, summary: describeAuditRecord(key, item, categories), before: item });
+  });
+  return drafts;
+};
+
+// Restoring from the trash brings the record back, purging drops the last copy
+export const trashAuditDraft = (item: TrashItem, action: 'RESTORE' | 'PURGE', categories: CategoryRecord[]): AuditDraft => ({
+  action,
+  entity: item.kind,
+  entityId: item.record.id,
+  summary: describeAuditRecord(item.kind === 'TRANSACTION' ? 'transactions' : 'invoices', item.record, categories),
+  ...(action === 'RESTORE' ? { after: item.record } : { before: item.record }),
+});
+
+// Restores log how many records each collection held instead of copying the whole books into the log
+export const countRecords = (data: Partial<AppData>) =>
+  Object.fromEntries(Object.entries(data).map(([key, items]) => [key, (items as unknown[]).length]));
+
+export const createAuditEntries = (drafts: AuditDraft[], actor: string, source: AuditSource): AuditEntry[] => {
+  const at = new Date().toISOString();
+  const base = Date.now();
+  return drafts.map((draft, i) => ({ id: `${base}-${i}-${Math.random().toString(36).slice(2, 8)}`, at, actor, source, ...draft }));
+};
+
+export const appendAuditLog = async (entries: AuditEntry[]) => {
+  if (entries.length === 0) return;
+  await (await getRepository()).appendAuditEntries(entries);
+};
+
+// Newest first
+export const loadAuditLog = async (): Promise<AuditEntry[]> =>
+  (await (await getRepository()).getAuditLog()).sort((a, b) => b.at.localeCompare(a.at));
+
+// Entries from a restored backup join the local log. Nothing already logged here is replaced.
+export const mergeAuditLog = async (incoming: AuditEntry[]) => {
+  const known = new Set((await loadAuditLog()).map(e => e.id));
+  const missing = incoming.filter(e => !known.has(e.id));
+  await appendAuditLog(missing);
+  return missing.length;
+};
+
+// Case-insensitive match on the description, actor and both snapshots
+export const matchesAuditSearch = (entry: AuditEntry, search: string) => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [entry.summary, entry.actor, JSON.stringify(entry.before ?? ''), JSON.stringify(entry.after ?? '')]
+    .some(text => text.toLowerCase().includes(needle));
+};
@@ -0,0 +1,73 @@
+// Passphrase encryption for backup files (WebCrypto: PBKDF2-SHA-256 key, AES-GCM cipher).
+// The envelope carries everything needed to decrypt except the passphrase, so the
+// parameters can be raised later without breaking older files.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'letsfinance-encrypted-backup';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+
+export interface EncryptedBackupEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext of the plain backup JSON
+}
+
+export class BackupDecryptionError extends Error {}
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+// PBKDF2-SHA-256 of a secret, 256 bits. Also hashes the user PINs (see accessService).
+export const derivePbkdf2Bits = async (secret: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256));
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) =>
+  crypto.subtle.importKey('raw', await derivePbkdf2Bits(passphrase, salt, iterations), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+export const isEncryptedBackup = (text: string) => {
+  try {
+    return JSON.parse(text)?.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  const envelope: EncryptedBackupEnvelope = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+// AES-GCM authenticates the data, so a wrong passphrase and a tampered file fail the same way
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+  const envelope: EncryptedBackupEnvelope = JSON.parse(text);
+  if (envelope.version > ENVELOPE_VERSION) {
+    throw new BackupDecryptionError("File terenkripsi ini dibuat oleh versi aplikasi yang lebih baru.");
+  }
+  try {
+    const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new BackupDecryptionError("Passphrase salah atau file backup rusak.");
+  }
+};
@@ -0,0 +1,440 @@
+import { AppData, Account, Transaction, TransactionType, Budget, Invoice, AuditEntry, CategoryRecord, CategoryType } from '../types';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateData, UnsupportedSchemaError, LEGACY_DATA_KEYS, VersionedData } from './migrationService';
+import { ParentMap, TRANSFER_CATEGORY_ID, TRANSFER_FEE_CATEGORY_ID, categoryTypeOf, formatCategoryPath, getParentMap } from './categoryService';
+import { isRecord } from './recordFields';
+
+export type RestoreMode = 'REPLACE' | 'MERGE';
+
+export type EntityKey = keyof AppData;
+
+export const ENTITY_LABELS: Record<EntityKey, string> = {
+  transactions: 'Transaksi',
+  invoices: 'Invoice',
+  accounts: 'Akun',
+  categories: 'Kategori',
+  recurring: 'Transaksi Berulang',
+  categoryRules: 'Aturan Kategori',
+  budgets: 'Anggaran',
+  debts: 'Hutang & Piutang',
+};
+
+const ENTITY_KEYS = Object.keys(ENTITY_LABELS) as EntityKey[];
+
+// --- Validation ---
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'date';
+
+interface FieldSpec {
+  kind: FieldKind;
+  optional?: boolean;
+  values?: readonly string[]; // Allowed values for enum-like strings
+}
+
+// Older backups still hold collections a migration replaced, they are checked and migrated too
+type BackupKey = EntityKey | typeof LEGACY_DATA_KEYS[number];
+
+const BACKUP_KEYS: BackupKey[] = [...ENTITY_KEYS, ...LEGACY_DATA_KEYS];
+
+const RECORD_SPECS: Partial<Record<BackupKey, Record<string, FieldSpec>>> = {
+  transactions: {
+    id: { kind: 'string' },
+    date: { kind: 'date' },
+    amount: { kind: 'number' },
+    type: { kind: 'string', values: Object.values(TransactionType) },
+    description: { kind: 'string', optional: true },
+    merchant: { kind: 'string', optional: true },
+    accountId: { kind: 'string', optional: true },
+    toAccountId: { kind: 'string', optional: true },
+    fee: { kind: 'number', optional: true },
+    revisions: { kind: 'array', optional: true },
+    recurringId: { kind: 'string', optional: true },
+    splits: { kind: 'array', optional: true },
+    debtId: { kind: 'string', optional: true },
+  },
+  invoices: {
+    id: { kind: 'string' },
+    clientName: { kind: 'string' },
+    date: { kind: 'date' },
+    dueDate: { kind: 'date' },
+    items: { kind: 'array' },
+    status: { kind: 'string', values: ['Draft', 'Sent', 'Paid'] },
+  },
+  accounts: {
+    id: { kind: 'string' },
+    name: { kind: 'string' },
+    type: { kind: 'string', values: ['CASH', 'BANK', 'E-WALLET'] },
+    initialBalance: { kind: 'number' },
+    archived: { kind: 'boolean', optional: true },
+  },
+  categories: {
+    id: { kind: 'string' },
+    name: { kind: 'string' },
+    type: { kind: 'string', values: ['EXPENSE', 'INCOME'] },
+    parentId: { kind: 'string', optional: true },
+  },
+  categoryParents: {
+    id: { kind: 'string' },
+    type: { kind: 'string', values: ['EXPENSE', 'INCOME'] },
+    category: { kind: 'string' },
+    parent: { kind: 'string' },
+  },
+  recurring: {
+    id: { kind: 'string' },
+    template: { kind: 'object' },
+    frequency: { kind: 'string' },
+    startDate: { kind: 'date' },
+    endDate: { kind: 'date', optional: true },
+    active: { kind: 'boolean' },
+  },
+  categoryRules: {
+    id: { kind: 'string' },
+    name: { kind: 'string' },
+    conditions: { kind: 'object' },
+    setAccountId: { kind: 'string', optional: true },
+    active: { kind: 'boolean' },
+  },
+  budgets: {
+    id: { kind: 'string' },
+    month: { kind: 'string' },
+    amount: { kind: 'number' },
+    rollover: { kind: 'boolean' },
+  },
+  debts: {
+    id: { kind: 'string' },
+    direction: { kind: 'string', values: ['RECEIVABLE', 'PAYABLE'] },
+    counterparty: { kind: 'string' },
+    amount: { kind: 'number' },
+    issueDate: { kind: 'date' },
+    dueDate: { kind: 'date' },
+  },
+};
+
+// The audit log travels with backups but is not part of the books: a restore adds its entries to the local log
+const AUDIT_ENTRY_SPEC: Record<string, FieldSpec> = {
+  id: { kind: 'string' },
+  at: { kind: 'date' },
+  actor: { kind: 'string' },
+  action: { kind: 'string', values: ['CREATE', 'UPDATE', 'DELETE', 'CLEAR_ALL', 'IMPORT', 'RESTORE', 'PURGE', 'RESET'] },
+  entity: { kind: 'string' },
+  summary: { kind: 'string' },
+  source: { kind: 'string' },
+};
+
+const KIND_LABELS: Record<FieldKind, string> = {
+  string: 'teks',
+  number: 'angka',
+  boolean: 'true/false',
+  array: 'daftar',
+  object: 'objek',
+  date: 'tanggal YYYY-MM-DD',
+};
+
+// Before v4 records named their category, since then they hold its id
+const CATEGORY_REF_KEYS: BackupKey[] = ['transactions', 'categoryRules', 'budgets'];
+
+const categoryRefSpec = (schemaVersion: number): Record<string, FieldSpec> =>
+  ({ [schemaVersion < 4 ? 'category' : 'categoryId']: { kind: 'string' } });
+
+// Reports beyond this are summarized so a badly broken file stays readable
+const MAX_REPORTED_ERRORS = 20;
+
+const matchesKind = (value: unknown, kind: FieldKind) => {
+  switch (kind) {
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return isRecord(value);
+    case 'date': return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+    default: return typeof value === kind;
+  }
+};
+
+const validateRecord = (record: unknown, spec: Record<string, FieldSpec>, path: string): string[] => {
+  if (!isRecord(record)) return [`${path}: harus berupa objek`];
+  const errors: string[] = [];
+  Object.entries(spec).forEach(([field, { kind, optional, values }]) => {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (!optional) errors.push(`${path}.${field}: wajib diisi`);
+      return;
+    }
+    if (!matchesKind(value, kind)) errors.push(`${path}.${field}: harus berupa ${KIND_LABELS[kind]}`);
+    else if (values && !values.some(v => v === value)) errors.push(`${path}.${field}: nilai "${value}" tidak dikenal`);
+  });
+  return errors;
+};
+
+// Every problem found in the file, as "collection[index].field: message" lines
+export const validateBackup = (json: unknown): string[] => {
+  if (!isRecord(json)) return ['Isi file bukan data backup.'];
+  const errors: string[] = [];
+  if (json.transactions === undefined) errors.push('transactions: wajib ada');
+  const categoryRef = categoryRefSpec(getSchemaVersion(json));
+
+  BACKUP_KEYS.forEach(key => {
+    const collection = json[key];
+    if (collection === undefined) return;
+    if (!Array.isArray(collection)) {
+      errors.push(`${key}: harus berupa daftar`);
+      return;
+    }
+
+    const spec = RECORD_SPECS[key];
+    if (!spec) {
+      // Category lists from before v3 are plain strings
+      collection.forEach((item, i) => {
+        if (typeof item !== 'string' || item.trim() === '') errors.push(`${key}[${i}]: harus berupa teks`);
+      });
+      return;
+    }
+
+    const seen = new Set<string>();
+    const recordSpec = CATEGORY_REF_KEYS.includes(key) ? { ...spec, ...categoryRef } : spec;
+    collection.forEach((record: unknown, i) => {
+      errors.push(...validateRecord(record, recordSpec, `${key}[${i}]`));
+      if (!isRecord(record) || typeof record.id !== 'string') return;
+      if (seen.has(record.id)) errors.push(`${key}[${i}].id: "${record.id}" dipakai lebih dari sekali`);
+      seen.add(record.id);
+    });
+
+    if (key === 'transactions') {
+      collection.forEach((t: unknown, i) => {
+        if (!isRecord(t) || !Array.isArray(t.splits)) return;
+        t.splits.forEach((s: unknown, j: number) => {
+          errors.push(...validateRecord(s, { ...categoryRef, amount: { kind: 'number' } }, `transactions[${i}].splits[${j}]`));
+        });
+      });
+    }
+  });
+
+  if (json.auditLog !== undefined) {
+    if (!Array.isArray(json.auditLog)) errors.push('auditLog: harus berupa daftar');
+    else json.auditLog.forEach((entry: unknown, i: number) => errors.push(...validateRecord(entry, AUDIT_ENTRY_SPEC, `auditLog[${i}]`)));
+  }
+
+  if (errors.length <= MAX_REPORTED_ERRORS) return errors;
+  return [...errors.slice(0, MAX_REPORTED_ERRORS), `... dan ${errors.length - MAX_REPORTED_ERRORS} kesalahan lainnya`];
+};
+
+export interface ParsedBackup {
+  data?: Partial<AppData>; // Only set when the file is valid, already migrated to the current schema
+  errors: string[];
+  schemaVersion?: number;
+  exportDate?: string;
+  workspaceName?: string; // Workspace the backup was made in, missing in older backups
+  auditLog?: AuditEntry[]; // Missing in older backups
+}
+
+// The shape validateBackup checks, only trusted once it finds nothing wrong.
+// The fields around the data are read with their own checks.
+type BackupFile = VersionedData & { auditLog?: AuditEntry[]; schemaVersion?: unknown; exportDate?: unknown; workspaceName?: unknown };
+
+const isBackupFile = (json: unknown, errors: string[]): json is BackupFile => errors.length === 0 && isRecord(json);
+
+export const parseBackup = (text: string): ParsedBackup => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { errors: ['File bukan JSON yang valid.'] };
+  }
+
+  const schemaVersion = isRecord(json) ? getSchemaVersion(json) : undefined;
+  if (schemaVersion !== undefined && schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { errors: [new UnsupportedSchemaError(schemaVersion).message], schemaVersion };
+  }
+
+  const errors = validateBackup(json);
+  if (!isBackupFile(json, errors)) return { errors, schemaVersion };
+
+  const picked: VersionedData = {};
+  const pick = <K extends BackupKey>(key: K) => {
+    if (json[key] !== undefined) picked[key] = json[key];
+  };
+  BACKUP_KEYS.forEach(pick);
+  return {
+    data: migrateData(picked, getSchemaVersion(json)),
+    errors: [],
+    schemaVersion,
+    exportDate: typeof json.exportDate === 'string' ? json.exportDate : undefined,
+    workspaceName: typeof json.workspaceName === 'string' ? json.workspaceName : undefined,
+    auditLog: json.auditLog,
+  };
+};
+
+// --- Preview & merge ---
+
+const transactionContentKey = (t: Transaction) =>
+  [t.date, t.type, t.amount, t.accountId, t.toAccountId, t.categoryId, t.description, t.merchant].join('|');
+
+// Records without an id match that identify the same real-world item. Only for entities
+// nothing else points at, so skipping a duplicate never leaves a dangling reference.
+// Categories are matched before that, see alignCategoryIds.
+const CONTENT_KEYS: { [K in EntityKey]?: (item: AppData[K][number]) => string } = {
+  transactions: transactionContentKey,
+  budgets: (b: Budget) => `${b.month}|${b.categoryId}`,
+  invoices: (i: Invoice) => [i.clientName, i.date, i.dueDate, JSON.stringify(i.items)].join('|'),
+};
+
+// Type and path, e.g. "EXPENSE|Operasional > Listrik & Air", so same-name categories under
+// different parents stay apart
+const categoryPathKeys = (categories: CategoryRecord[]) => {
+  const parentMaps: Record<CategoryType, ParentMap> = { EXPENSE: getParentMap(categories, 'EXPENSE'), INCOME: getParentMap(categories, 'INCOME') };
+  return new Map(categories.map(c => [c.id, `${c.type}|${formatCategoryPath(categories, parentMaps[c.type], c.id)}`]));
+};
+
+// A backup category that exists here under another id (e.g. one set up on two devices before they
+// synced) takes the local id, and so does everything in the backup pointing at it
+const alignCategoryIds = (local: CategoryRecord[], incoming: Partial<AppData>): Partial<AppData> => {
+  if (!incoming.categories) return incoming;
+  const localIds = new Set(local.map(c => c.id));
+  const localByPath = new Map(Array.from(categoryPathKeys(local), ([id, key]) => [key, id]));
+  const idMap = new Map<string, string>();
+  categoryPathKeys(incoming.categories).forEach((key, id) => {
+    const localId = localByPath.get(key);
+    if (!localIds.has(id) && localId !== undefined) idMap.set(id, localId);
+  });
+  if (idMap.size === 0) return incoming;
+
+  const align = (id: string) => idMap.get(id) ?? id;
+  const alignTransaction = <T extends Pick<Transaction, 'categoryId' | 'splits'>>(t: T): T => ({
+    ...t,
+    categoryId: align(t.categoryId),
+    ...(t.splits && { splits: t.splits.map(s => ({ ...s, categoryId: align(s.categoryId) })) }),
+  });
+  return {
+    ...incoming,
+    categories: incoming.categories.map(c => ({ ...c, id: align(c.id), ...(c.parentId !== undefined && { parentId: align(c.parentId) }) })),
+    transactions: incoming.transactions?.map(alignTransaction),
+    recurring: incoming.recurring?.map(r => ({ ...r, template: alignTransaction(r.template) })),
+    categoryRules: incoming.categoryRules?.map(r => ({ ...r, categoryId: align(r.categoryId) })),
+    budgets: incoming.budgets?.map(b => ({ ...b, categoryId: align(b.categoryId) })),
+  };
+};
+
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export interface EntityDiff {
+  key: EntityKey;
+  label: string;
+  local: number;
+  backup: number;
+  added: number; // Only in the backup
+  changed: number; // Same id, different content. Merge keeps the local version
+  unchanged: number; // Identical or a content duplicate of a local record
+  localOnly: number; // Lost with "replace all", kept with merge
+}
+
+type IncomingStatus = 'ADDED' | 'CHANGED' | 'UNCHANGED';
+
+// Each local record can absorb only one content duplicate, so two identical purchases
+// in the backup against one local record still bring in the second.
+const classifyIncoming = <T extends { id: string }>(local: T[], incoming: T[], contentKey?: (item: T) => string): IncomingStatus[] => {
+  const localById = new Map(local.map(item => [item.id, item]));
+  const contentCounts = new Map<string, number>();
+  if (contentKey) local.forEach(item => contentCounts.set(contentKey(item), (contentCounts.get(contentKey(item)) || 0) + 1));
+
+  return incoming.map(item => {
+    const existing = localById.get(item.id);
+    if (existing) return sameRecord(existing, item) ? 'UNCHANGED' : 'CHANGED';
+    const content = contentKey?.(item);
+    const count = content !== undefined ? contentCounts.get(content) || 0 : 0;
+    if (count === 0) return 'ADDED';
+    contentCounts.set(content!, count - 1);
+    return 'UNCHANGED';
+  });
+};
+
+const diffEntity = <K extends EntityKey>(key: K, local: AppData[K][number][], backup: AppData[K][number][]): EntityDiff => {
+  const diff: EntityDiff = { key, label: ENTITY_LABELS[key], local: local.length, backup: backup.length, added: 0, changed: 0, unchanged: 0, localOnly: 0 };
+
+  classifyIncoming(local, backup, CONTENT_KEYS[key]).forEach(status => {
+    if (status === 'ADDED') diff.added++;
+    else if (status === 'CHANGED') diff.changed++;
+    else diff.unchanged++;
+  });
+  const backupIds = new Set(backup.map(item => item.id));
+  diff.localOnly = local.filter(item => !backupIds.has(item.id)).length;
+  return diff;
+};
+
+export const getRestoreDiff = (current: AppData, backupData: Partial<AppData>): EntityDiff[] => {
+  const incoming = alignCategoryIds(current.categories, backupData);
+  return ENTITY_KEYS.flatMap(key => {
+    const backup = incoming[key];
+    return backup ? [diffEntity(key, current[key], backup)] : [];
+  });
+};
+
+const mergeById = <T extends { id: string }>(local: T[], incoming: T[], contentKey?: (item: T) => string) => {
+  const statuses = classifyIncoming(local, incoming, contentKey);
+  return [...local, ...incoming.filter((_, i) => statuses[i] === 'ADDED')];
+};
+
+export interface RestoreResult {
+  data: AppData;
+  addedAccounts: number; // Placeholders for accounts that are referenced but nowhere defined
+  addedCategories: number;
+}
+
+// Accounts and categories that records point at must exist, otherwise balances and
+// pickers silently lose them. Missing ones are added rather than dropping the records.
+export const ensureReferences = (data: AppData): RestoreResult => {
+  const accountIds = new Set(data.accounts.map(a => a.id));
+  const missingAccounts: Account[] = [];
+  const requireAccount = (id?: string) => {
+    if (!id || accountIds.has(id)) return;
+    accountIds.add(id);
+    missingAccounts.push({ id, name: `Akun dari backup (${id})`, type: 'CASH', initialBalance: 0 });
+  };
+
+  const categoryIds = new Set([TRANSFER_CATEGORY_ID, TRANSFER_FEE_CATEGORY_ID, ...data.categories.map(c => c.id)]);
+  const missingCategories: CategoryRecord[] = [];
+  const requireCategory = (id: string, type?: TransactionType) => {
+    if (!id || categoryIds.has(id)) return;
+    categoryIds.add(id);
+    missingCategories.push({ id, name: `Kategori dari backup (${id})`, type: categoryTypeOf(type || TransactionType.EXPENSE) });
+  };
+
+  data.transactions.forEach(t => {
+    requireAccount(t.accountId);
+    requireAccount(t.toAccountId);
+    if (t.type === TransactionType.TRANSFER) return;
+    requireCategory(t.categoryId, t.type);
+    t.splits?.forEach(s => requireCategory(s.categoryId, t.type));
+  });
+  data.recurring.forEach(r => {
+    requireAccount(r.template.accountId);
+    requireAccount(r.template.toAccountId);
+    if (r.template.type !== TransactionType.TRANSFER) requireCategory(r.template.categoryId, r.template.type);
+  });
+  data.categoryRules.forEach(r => {
+    requireAccount(r.conditions.accountId);
+    requireAccount(r.setAccountId);
+    requireCategory(r.categoryId, r.conditions.type);
+  });
+  data.budgets.forEach(b => requireCategory(b.categoryId, TransactionType.EXPENSE));
+
+  return {
+    data: { ...data, accounts: [...data.accounts, ...missingAccounts], categories: [...data.categories, ...missingCategories] },
+    addedAccounts: missingAccounts.length,
+    addedCategories: missingCategories.length,
+  };
+};
+
+// REPLACE swaps every collection the backup contains and keeps the rest.
+// MERGE adds what is new; on an id clash the local record wins.
+export const restoreBackup = (current: AppData, backupData: Partial<AppData>, mode: RestoreMode): RestoreResult => {
+  const incoming = alignCategoryIds(current.categories, backupData);
+  if (mode === 'REPLACE') return ensureReferences({ ...current, ...incoming });
+
+  return ensureReferences({
+    transactions: mergeById(current.transactions, incoming.transactions || [], CONTENT_KEYS.transactions),
+    invoices: mergeById(current.invoices, incoming.invoices || [], CONTENT_KEYS.invoices),
+    accounts: mergeById(current.accounts, incoming.accounts || []),
+    categories: mergeById(current.categories, incoming.categories || []),
+    recurring: mergeById(current.recurring, incoming.recurring || []),
+    categoryRules: mergeById(current.categoryRules, incoming.categoryRules || []),
+    budgets: mergeById(current.budgets, incoming.budgets || [], CONTENT_KEYS.budgets),
+    debts: mergeById(current.debts, incoming.debts || []),
+  });
+};
@@ -0,0 +1,164 @@
+import { Budget, Transaction, TransactionType } from '../types';
+import { getCategoryLines, excludeTransfers } from './transactionService';
+import { formatDate, parseDate } from './recurringService';
+
+// Spending at or above this share of the budget is flagged before it is actually exceeded
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+export type BudgetLevel = 'OK' | 'WARNING' | 'OVER';
+
+export interface BudgetStatus {
+  categoryId: string;
+  limit: number; // Limit configured for the month
+  carriedOver: number; // Unspent amount rolled over from previous months
+  available: number; // limit + carriedOver
+  spent: number;
+  remaining: number;
+  ratio: number; // spent / available, 0 when there is no budget
+  level: BudgetLevel;
+}
+
+// --- Month helpers (YYYY-MM strings) ---
+
+export const monthKey = (date: string | Date) =>
+  (typeof date === 'string' ? date : formatDate(date)).slice(0, 7);
+
+export const shiftMonth = (month: string, offset: number) => {
+  const [y, m] = month.split('-').map(Number);
+  return monthKey(new Date(y, m - 1 + offset, 1));
+};
+
+const daysInMonth = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m, 0).getDate();
+};
+
+// Months touched by an inclusive YYYY-MM-DD range
+const monthsInRange = (start: string, end: string) => {
+  const months: string[] = [];
+  for (let m = monthKey(start); m <= monthKey(end); m = shiftMonth(m, 1)) months.push(m);
+  return months;
+};
+
+// Limit in effect for a month: the latest entry on or before that month
+export const getEffectiveBudget = (budgets: Budget[], categoryId: string, month: string): Budget | undefined => {
+  return budgets
+    .filter(b => b.categoryId === categoryId && b.month <= month)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+};
+
+// Expense per month and category, split lines counted under their own category. Built once per
+// calculation so the rollover walk doesn't rescan every transaction for each month.
+type MonthlySpending = Map<string, Record<string, number>>;
+
+const indexSpending = (transactions: Transaction[]): MonthlySpending => {
+  const spending: MonthlySpending = new Map();
+  excludeTransfers(transactions).forEach(t => {
+    if (t.type !== TransactionType.EXPENSE) return;
+    const month = monthKey(t.date);
+    const spent = spending.get(month) || {};
+    getCategoryLines(t).forEach(line => {
+      spent[line.categoryId] = (spent[line.categoryId] || 0) + line.amount;
+    });
+    spending.set(month, spent);
+  });
+  return spending;
+};
+
+// Expense per category for one month
+export const getSpentByCategory = (transactions: Transaction[], month: string): Record<string, number> =>
+  indexSpending(transactions).get(month) || {};
+
+// Walk month by month from the first budget entry so rollover accumulates correctly.
+// Only unspent money rolls over, overspending does not reduce the next month.
+const computeCategoryMonth = (budgets: Budget[], spending: MonthlySpending, categoryId: string, month: string) => {
+  const entries = budgets.filter(b => b.categoryId === categoryId);
+  if (entries.length === 0) return null;
+
+  let carriedOver = 0;
+  let cursor = entries.reduce((min, b) => (b.month < min ? b.month : min), entries[0].month);
+  while (cursor < month) {
+    const budget = getEffectiveBudget(budgets, categoryId, cursor);
+    const spent = spending.get(cursor)?.[categoryId] || 0;
+    carriedOver = budget?.rollover ? Math.max(0, budget.amount + carriedOver - spent) : 0;
+    cursor = shiftMonth(cursor, 1);
+  }
+
+  const budget = getEffectiveBudget(budgets, categoryId, month);
+  if (!budget || budget.amount <= 0) return null;
+  return { limit: budget.amount, carriedOver: budget.rollover ? carriedOver : 0 };
+};
+
+const toStatus = (categoryId: string, limit: number, carriedOver: number, spent: number): BudgetStatus => {
+  const available = limit + carriedOver;
+  const ratio = available > 0 ? spent / available : 0;
+  return {
+    categoryId,
+    limit,
+    carriedOver,
+    available,
+    spent,
+    remaining: available - spent,
+    ratio,
+    level: ratio > 1 ? 'OVER' : ratio >= BUDGET_WARNING_THRESHOLD ? 'WARNING' : 'OK',
+  };
+};
+
+// Status of every budgeted category for a month, most used first
+export const getMonthlyBudgetStatus = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  categoryIds: string[],
+  month: string
+): BudgetStatus[] => {
+  const spending = indexSpending(transactions);
+  const spentMap = spending.get(month) || {};
+  return categoryIds
+    .map(categoryId => {
+      const computed = computeCategoryMonth(budgets, spending, categoryId, month);
+      return computed ? toStatus(categoryId, computed.limit, computed.carriedOver, spentMap[categoryId] || 0) : null;
+    })
+    .filter((s): s is BudgetStatus => s !== null)
+    .sort((a, b) => b.ratio - a.ratio);
+};
+
+// Budget vs actual over an arbitrary date range. Months only partly inside the range
+// contribute a pro-rated share of their budget (e.g. a week gets ~7/30 of the month).
+// Only the first month's rollover counts: later months' rollover is money from earlier in the
+// range, already part of their limits.
+export const getBudgetVsActual = (
+  budgets: Budget[],
+  transactions: Transaction[],
+  categoryIds: string[],
+  start: string,
+  end: string
+): BudgetStatus[] => {
+  const months = monthsInRange(start, end);
+  const spending = indexSpending(transactions);
+  const spentMap: Record<string, number> = {};
+  excludeTransfers(transactions).forEach(t => {
+    if (t.type !== TransactionType.EXPENSE || t.date < start || t.date > end) return;
+    getCategoryLines(t).forEach(line => {
+      spentMap[line.categoryId] = (spentMap[line.categoryId] || 0) + line.amount;
+    });
+  });
+
+  return categoryIds
+    .map(categoryId => {
+      let limit = 0;
+      let carriedOver = 0;
+      months.forEach((month, i) => {
+        const computed = computeCategoryMonth(budgets, spending, categoryId, month);
+        if (!computed) return;
+        const first = month === monthKey(start) ? parseDate(start).getDate() : 1;
+        const last = month === monthKey(end) ? parseDate(end).getDate() : daysInMonth(month);
+        const share = (last - first + 1) / daysInMonth(month);
+        limit += computed.limit * share;
+        if (i === 0) carriedOver = computed.carriedOver * share;
+      });
+      if (limit <= 0 && !spentMap[categoryId]) return null;
+      return toStatus(categoryId, Math.round(limit), Math.round(carriedOver), spentMap[categoryId] || 0);
+    })
+    .filter((s): s is BudgetStatus => s !== null)
+    .sort((a, b) => b.spent - a.spent);
+};
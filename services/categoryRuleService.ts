@@ -0,0 +1,73 @@
+import { CategoryRule, Transaction, TransactionType, Account, CategoryRecord } from '../types';
+import { getCategoryName } from './categoryService';
+
+// The fields a rule can look at. Matches both form state and imported / scanned rows.
+export interface RuleInput {
+  merchant?: string;
+  description?: string;
+  amount?: number;
+  type: TransactionType;
+  accountId?: string;
+}
+
+const contains = (value: string | undefined, needle: string) =>
+  (value || '').toLowerCase().includes(needle.trim().toLowerCase());
+
+const hasConditions = (rule: CategoryRule) => {
+  const c = rule.conditions;
+  return !!(c.merchantContains?.trim() || c.descriptionContains?.trim() ||
+    c.minAmount !== undefined || c.maxAmount !== undefined || c.type || c.accountId);
+};
+
+export const matchesRule = (rule: CategoryRule, input: RuleInput): boolean => {
+  // A rule without conditions would catch everything, treat it as disabled
+  if (!rule.active || !hasConditions(rule)) return false;
+  if (input.type === TransactionType.TRANSFER) return false;
+
+  const c = rule.conditions;
+  if (c.merchantContains?.trim() && !contains(input.merchant, c.merchantContains)) return false;
+  if (c.descriptionContains?.trim() && !contains(input.description, c.descriptionContains)) return false;
+  // Amount bounds need an amount to compare against
+  if (c.minAmount !== undefined && (input.amount === undefined || input.amount < c.minAmount)) return false;
+  if (c.maxAmount !== undefined && (input.amount === undefined || input.amount > c.maxAmount)) return false;
+  if (c.type && input.type !== c.type) return false;
+  if (c.accountId && input.accountId !== c.accountId) return false;
+  return true;
+};
+
+// First matching rule in priority (list) order
+export const findMatchingRule = (rules: CategoryRule[], input: RuleInput): CategoryRule | undefined =>
+  rules.find(rule => matchesRule(rule, input));
+
+// A rule only suggests a category that exists for the transaction type
+export const isRuleApplicable = (rule: CategoryRule, type: TransactionType, expenseCategoryIds: string[], incomeCategoryIds: string[]) =>
+  (type === TransactionType.INCOME ? incomeCategoryIds : expenseCategoryIds).includes(rule.categoryId);
+
+export interface RuleTestResult {
+  matches: Transaction[];
+  changed: number; // Matches whose category differs from what the rule would set
+}
+
+// Dry run of a single rule against existing transactions, ignoring priority of other rules
+export const testRuleAgainstHistory = (rule: CategoryRule, transactions: Transaction[]): RuleTestResult => {
+  const probe = { ...rule, active: true };
+  const matches = transactions.filter(t => !t.splits?.length && matchesRule(probe, t));
+  return { matches, changed: matches.filter(t => t.categoryId !== rule.categoryId).length };
+};
+
+export const describeRule = (rule: CategoryRule, accounts: Account[], categories: CategoryRecord[]): string => {
+  const c = rule.conditions;
+  const accountName = (id?: string) => accounts.find(a => a.id === id)?.name || id;
+  const parts: string[] = [];
+  if (c.merchantContains?.trim()) parts.push(`merchant mengandung "${c.merchantContains.trim()}"`);
+  if (c.descriptionContains?.trim()) parts.push(`catatan mengandung "${c.descriptionContains.trim()}"`);
+  if (c.minAmount !== undefined && c.maxAmount !== undefined) parts.push(`nominal ${c.minAmount}–${c.maxAmount}`);
+  else if (c.minAmount !== undefined) parts.push(`nominal ≥ ${c.minAmount}`);
+  else if (c.maxAmount !== undefined) parts.push(`nominal ≤ ${c.maxAmount}`);
+  if (c.type) parts.push(c.type === TransactionType.INCOME ? 'pemasukan' : 'pengeluaran');
+  if (c.accountId) parts.push(`akun ${accountName(c.accountId)}`);
+
+  const category = getCategoryName(categories, rule.categoryId);
+  const target = rule.setAccountId ? `${category}, akun ${accountName(rule.setAccountId)}` : category;
+  return `Jika ${parts.join(' dan ') || '-'} → ${target}`;
+};
@@ -0,0 +1,395 @@
+import { hashString } from './hashService';
+import { AppData, AccountingClass, CategoryRecord, CategoryType, Transaction, TransactionType, TrashItem } from '../types';
+
+// Categories are records with a stable id and form a tree per type through parentId. Transactions,
+// budgets, rules and recurring templates refer to a category by id and look the name up for display,
+// so renaming or moving one only touches the record. Names only have to be unique among siblings.
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+export const DEFAULT_EXPENSE_CATEGORIES = ['Makanan & Minuman', 'Transportasi', 'Listrik & Air', 'Stok Barang', 'Gaji Karyawan', 'Pemasaran', 'Lainnya'];
+export const DEFAULT_INCOME_CATEGORIES = ['Penjualan', 'Investasi', 'Hadiah', 'Lainnya'];
+
+// Not records, so they can't be renamed or removed: what transfers are booked on, and the admin fee
+// a transfer charges (counted as an expense, see getTransferFeeExpense)
+export const TRANSFER_CATEGORY_ID = 'transfer';
+export const TRANSFER_FEE_CATEGORY_ID = 'transfer-fee';
+
+const BUILT_IN_CATEGORY_NAMES: Record<string, string> = {
+  [TRANSFER_CATEGORY_ID]: 'Transfer',
+  [TRANSFER_FEE_CATEGORY_ID]: 'Biaya Admin',
+};
+
+// Shown for an id no record has, e.g. one a synced device removed
+export const MISSING_CATEGORY_NAME = 'Tanpa Kategori';
+
+// Random, so it says nothing about the name and two categories never share one
+export const newCategoryId = () => `cat-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCategory = (type: CategoryType, name: string, parentId?: string): CategoryRecord =>
+  ({ id: newCategoryId(), name, type, ...(parentId !== undefined && { parentId }) });
+
+// For categories that come out of a migration: the same type and path (names from the top-level
+// category down) give the same id on every device, so data two devices upgrade separately still
+// matches when it syncs. Hashed, so the id still says nothing readable about the name.
+export const derivedCategoryId = (type: CategoryType, path: string[]) => `cat-${hashString([type, ...path].join('\u0000'))}`;
+
+// Icon and class the default categories come with
+const DEFAULT_CATEGORY_META: Record<string, { icon: string; accountingClass?: AccountingClass }> = {
+  'Makanan & Minuman': { icon: 'utensils' },
+  'Transportasi': { icon: 'car' },
+  'Listrik & Air': { icon: 'zap' },
+  'Stok Barang': { icon: 'package', accountingClass: 'COGS' },
+  'Gaji Karyawan': { icon: 'users' },
+  'Pemasaran': { icon: 'megaphone' },
+  'Penjualan': { icon: 'shopping-cart' },
+  'Investasi': { icon: 'trending-up', accountingClass: 'OTHER_INCOME' },
+  'Hadiah': { icon: 'gift', accountingClass: 'OTHER_INCOME' },
+};
+
+// Fills in the default icon and class for a category named like a default one that has none yet
+export const withDefaultMeta = (category: CategoryRecord): CategoryRecord => {
+  const meta = DEFAULT_CATEGORY_META[category.name];
+  if (!meta || (category.icon && (category.accountingClass || !meta.accountingClass))) return category;
+  return {
+    ...category,
+    icon: category.icon || meta.icon,
+    ...(!category.accountingClass && meta.accountingClass && { accountingClass: meta.accountingClass }),
+  };
+};
+
+// Fixed ids, so two devices set up from scratch share their default categories after syncing
+const defaultCategories = (type: CategoryType, names: string[]): CategoryRecord[] =>
+  names.map((name, i) => withDefaultMeta({ id: `${type.toLowerCase()}-default-${i + 1}`, name, type }));
+
+export const createDefaultCategories = () => [
+  ...defaultCategories('EXPENSE', DEFAULT_EXPENSE_CATEGORIES),
+  ...defaultCategories('INCOME', DEFAULT_INCOME_CATEGORIES),
+];
+
+export const categoryTypeOf = (type: TransactionType): CategoryType => (type === TransactionType.INCOME ? 'INCOME' : 'EXPENSE');
+
+// Ids in list order, what pickers and matching work with
+export const getCategoryIds = (categories: CategoryRecord[], type: CategoryType) =>
+  categories.filter(c => c.type === type).map(c => c.id);
+
+export const getCategoryName = (categories: CategoryRecord[], id: string) =>
+  categories.find(c => c.id === id)?.name ?? BUILT_IN_CATEGORY_NAMES[id] ?? MISSING_CATEGORY_NAME;
+
+// First category of the type with that name, for names that come from outside the books
+// (a scanned receipt, data written before categories had ids)
+export const findCategory = (categories: CategoryRecord[], type: CategoryType, name: string) =>
+  categories.find(c => c.type === type && c.name === name);
+
+// Null when the name can be used under that parent, otherwise why not
+export const validateCategoryName = (categories: CategoryRecord[], type: CategoryType, name: string, parentId?: string, exceptId?: string): string | null => {
+  if (!name.trim()) return "Nama kategori tidak boleh kosong.";
+  const sibling = categories.find(c => c.type === type && c.parentId === parentId && c.name === name.trim() && c.id !== exceptId);
+  if (!sibling) return null;
+  return parentId === undefined
+    ? `Kategori "${name.trim()}" sudah ada.`
+    : `Kategori "${name.trim()}" sudah ada di bawah "${getCategoryName(categories, parentId)}".`;
+};
+
+// Child id -> parent id
+export type ParentMap = Map<string, string>;
+
+const pathOf = (parentMap: ParentMap, id: string): string[] => {
+  const path = [id];
+  let current = parentMap.get(id);
+  while (current !== undefined && !path.includes(current)) {
+    path.unshift(current);
+    current = parentMap.get(current);
+  }
+  return path;
+};
+
+// Parents that no longer exist are ignored, and so is any link that would close a loop
+// (two devices can each move one category under the other before they sync)
+export const getParentMap = (categories: CategoryRecord[], type: CategoryType): ParentMap => {
+  const ofType = categories.filter(c => c.type === type);
+  const ids = new Set(ofType.map(c => c.id));
+  const map: ParentMap = new Map();
+  ofType.forEach(c => {
+    if (c.parentId === undefined || !ids.has(c.parentId) || pathOf(map, c.parentId).includes(c.id)) return;
+    map.set(c.id, c.parentId);
+  });
+  return map;
+};
+
+// Top-level category first, ending with the category itself
+export const getCategoryPath = (parentMap: ParentMap, id: string) => pathOf(parentMap, id);
+
+// e.g. "Operasional > Listrik & Air"
+export const formatCategoryPath = (categories: CategoryRecord[], parentMap: ParentMap, id: string) =>
+  pathOf(parentMap, id).map(c => getCategoryName(categories, c)).join(CATEGORY_PATH_SEPARATOR);
+
+export const getRootCategory = (parentMap: ParentMap, id: string) => pathOf(parentMap, id)[0];
+
+// A category can't move under itself or under one of its own subcategories
+export const canReparent = (parentMap: ParentMap, id: string, parentId: string | null) =>
+  parentId === null || !pathOf(parentMap, parentId).includes(id);
+
+const withParent = (category: CategoryRecord, parentId: string | undefined): CategoryRecord => {
+  const { parentId: _, ...rest } = category;
+  return parentId !== undefined && parentId !== category.id ? { ...rest, parentId } : rest;
+};
+
+export const setCategoryParent = (categories: CategoryRecord[], id: string, parentId: string | null): CategoryRecord[] =>
+  categories.map(c => (c.id === id ? withParent(c, parentId ?? undefined) : c));
+
+// The name is expected to pass validateCategoryName. Records pointing at the category keep their id.
+export const renameCategory = (categories: CategoryRecord[], id: string, name: string): CategoryRecord[] =>
+  categories.map(c => (c.id === id ? { ...c, name: name.trim() } : c));
+
+// Subcategories of a removed category move up to its parent (or to the top level)
+export const removeCategory = (categories: CategoryRecord[], id: string): CategoryRecord[] => {
+  const removed = categories.find(c => c.id === id);
+  if (!removed) return categories;
+  return categories
+    .filter(c => c.id !== removed.id)
+    .map(c => (c.parentId === removed.id ? withParent(c, removed.parentId) : c));
+};
+
+// --- Appearance & accounting class ---
+
+export type CategoryStyle = Pick<CategoryRecord, 'color' | 'icon' | 'accountingClass'>;
+
+// A missing value in the patch clears that setting
+export const updateCategory = (categories: CategoryRecord[], id: string, patch: CategoryStyle): CategoryRecord[] =>
+  categories.map(c => {
+    if (c.id !== id) return c;
+    const next = { ...c, ...patch };
+    (Object.keys(patch) as (keyof CategoryStyle)[]).forEach(key => { if (patch[key] === undefined) delete next[key]; });
+    return next;
+  });
+
+export const CATEGORY_COLORS = ['#10B981', '#F59E0B', '#3B82F6', '#EF4444', '#8B5CF6', '#EC4899', '#6366F1', '#14B8A6', '#F97316', '#84CC16', '#06B6D4', '#64748B'];
+
+export const DEFAULT_CATEGORY_ICON = 'tag';
+
+export const ACCOUNTING_CLASS_LABELS: Record<AccountingClass, string> = {
+  OPERATING_REVENUE: 'Pendapatan Usaha',
+  OTHER_INCOME: 'Pendapatan Lain-lain',
+  COGS: 'Harga Pokok Penjualan',
+  OPERATING_EXPENSE: 'Beban Operasional',
+  NON_OPERATING: 'Beban Lain-lain',
+};
+
+export const ACCOUNTING_CLASSES: Record<CategoryType, AccountingClass[]> = {
+  INCOME: ['OPERATING_REVENUE', 'OTHER_INCOME'],
+  EXPENSE: ['COGS', 'OPERATING_EXPENSE', 'NON_OPERATING'],
+};
+
+const DEFAULT_ACCOUNTING_CLASS: Record<CategoryType, AccountingClass> = {
+  INCOME: 'OPERATING_REVENUE',
+  EXPENSE: 'OPERATING_EXPENSE',
+};
+
+// Same key, same color, whichever period or order the chart shows
+const colorFor = (key: string) => {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (Math.imul(hash, 31) + key.charCodeAt(i)) | 0;
+  return CATEGORY_COLORS[Math.abs(hash) % CATEGORY_COLORS.length];
+};
+
+// Ids without a record (transfer fees, a category removed on another device) still get a stable color
+export const getCategoryColor = (categories: CategoryRecord[], id: string) =>
+  categories.find(c => c.id === id)?.color || colorFor(id);
+
+export const getCategoryIcon = (categories: CategoryRecord[], id: string) =>
+  categories.find(c => c.id === id)?.icon || DEFAULT_CATEGORY_ICON;
+
+// Class per category id: its own, else the nearest parent's, else the default for the type
+export const getAccountingClassMap = (categories: CategoryRecord[], type: CategoryType): Map<string, AccountingClass> => {
+  const parentMap = getParentMap(categories, type);
+  const allowed = ACCOUNTING_CLASSES[type];
+  const byId = new Map(categories.filter(c => c.type === type).map(c => [c.id, c]));
+  const explicit = (id: string) => {
+    const own = byId.get(id)?.accountingClass;
+    return own && allowed.includes(own) ? own : undefined;
+  };
+  return new Map(Array.from(byId.keys()).map(id => {
+    const inherited = pathOf(parentMap, id).reverse().map(explicit).find(c => c !== undefined);
+    return [id, inherited ?? DEFAULT_ACCOUNTING_CLASS[type]];
+  }));
+};
+
+export const resolveAccountingClass = (classes: Map<string, AccountingClass>, type: CategoryType, id: string) =>
+  classes.get(id) ?? DEFAULT_ACCOUNTING_CLASS[type];
+
+export interface CategoryTreeNode {
+  id: string;
+  depth: number; // 0 for top-level categories
+  children: CategoryTreeNode[];
+}
+
+// Keeps the order of the list, subcategories under their parent
+export const buildCategoryTree = (categoryIds: string[], parentMap: ParentMap): CategoryTreeNode[] => {
+  const build = (id: string, depth: number): CategoryTreeNode => ({
+    id,
+    depth,
+    children: categoryIds.filter(c => parentMap.get(c) === id).map(c => build(c, depth + 1)),
+  });
+  return categoryIds.filter(c => !parentMap.has(c)).map(c => build(c, 0));
+};
+
+// Every category right after its parent, for pickers and lists
+export const flattenCategoryTree = (nodes: CategoryTreeNode[]): CategoryTreeNode[] =>
+  nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+
+export interface CategoryRollup {
+  id: string;
+  total: number; // Including every subcategory
+  own: number; // Booked on this category itself
+  children: CategoryRollup[];
+}
+
+// Amounts per category id rolled up into their parents, largest first at every level.
+// Ids missing from the tree (e.g. transfer fees) stay at the top level.
+export const buildCategoryRollup = (totals: Record<string, number>, parentMap: ParentMap): CategoryRollup[] => {
+  const rolled: Record<string, number> = {};
+  Object.entries(totals).forEach(([category, amount]) => {
+    pathOf(parentMap, category).forEach(id => { rolled[id] = (rolled[id] || 0) + amount; });
+  });
+  const build = (id: string): CategoryRollup => ({
+    id,
+    total: rolled[id],
+    own: totals[id] || 0,
+    children: Object.keys(rolled).filter(c => parentMap.get(c) === id).map(build).sort((a, b) => b.total - a.total),
+  });
+  return Object.keys(rolled).filter(c => !parentMap.has(c)).map(build).sort((a, b) => b.total - a.total);
+};
+
+export const findCategoryRollup = (rollup: CategoryRollup[], id: string): CategoryRollup | undefined => {
+  for (const row of rollup) {
+    if (row.id === id) return row;
+    const found = findCategoryRollup(row.children, id);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// Rows one level below `parent` (the top level for null), for drilling into a chart.
+// What was booked on the parent itself shows up as a row under its own id.
+export const getRollupLevel = (rollup: CategoryRollup[], parent: string | null): CategoryRollup[] => {
+  if (parent === null) return rollup;
+  const node = findCategoryRollup(rollup, parent);
+  if (!node) return [];
+  return node.own > 0 && node.children.length > 0
+    ? [...node.children, { id: node.id, total: node.own, own: node.own, children: [] }]
+    : node.children;
+};
+
+// Every row with its name and depth, subcategories after their parent, e.g. for exports
+export const flattenCategoryRollup = (rollup: CategoryRollup[], categories: CategoryRecord[], depth = 0): { name: string; amount: number; depth: number }[] =>
+  rollup.flatMap(row => {
+    const name = getCategoryName(categories, row.id);
+    return [
+      { name, amount: row.total, depth },
+      ...flattenCategoryRollup(row.children, categories, depth + 1),
+      ...(row.children.length > 0 && row.own > 0 ? [{ name: `${name} (langsung)`, amount: row.own, depth: depth + 1 }] : []),
+    ];
+  });
+
+// --- Usage & merge ---
+
+// Everything besides the category list that points at a category
+export type CategoryReferences = Pick<AppData, 'transactions' | 'recurring' | 'categoryRules' | 'budgets'> & { trash: TrashItem[] };
+
+export type CategoryUsage = Record<keyof CategoryReferences, number>;
+
+const USAGE_LABELS: Record<keyof CategoryReferences, string> = {
+  transactions: 'transaksi',
+  recurring: 'transaksi berulang',
+  categoryRules: 'aturan kategori',
+  budgets: 'anggaran',
+  trash: 'transaksi di tempat sampah',
+};
+
+// e.g. "12 transaksi, 1 anggaran", empty when nothing points at the category
+export const describeCategoryUsage = (usage: CategoryUsage) =>
+  (Object.keys(USAGE_LABELS) as (keyof CategoryReferences)[])
+    .filter(key => usage[key] > 0)
+    .map(key => `${usage[key]} ${USAGE_LABELS[key]}`)
+    .join(', ');
+
+type CategorizedRecord = Pick<Transaction, 'categoryId' | 'splits'>;
+
+const usesCategory = (record: CategorizedRecord, id: string) =>
+  record.categoryId === id || !!record.splits?.some(s => s.categoryId === id);
+
+export const getCategoryUsage = (refs: CategoryReferences, id: string): CategoryUsage => ({
+  transactions: refs.transactions.filter(t => usesCategory(t, id)).length,
+  recurring: refs.recurring.filter(r => usesCategory(r.template, id)).length,
+  categoryRules: refs.categoryRules.filter(r => r.categoryId === id).length,
+  budgets: refs.budgets.filter(b => b.categoryId === id).length,
+  trash: refs.trash.filter(item => item.kind === 'TRANSACTION' && usesCategory(item.record, id)).length,
+});
+
+// Same array when nothing changed
+const mapChanged = <T>(items: T[], update: (item: T) => T): T[] => {
+  const next = items.map(update);
+  return next.some((item, i) => item !== items[i]) ? next : items;
+};
+
+// A budget moving onto a month the target already has a limit for is added to that limit
+const moveBudgets = (budgets: AppData['budgets'], from: string, to: string) => {
+  if (!budgets.some(b => b.categoryId === from)) return budgets;
+  const targetByMonth = new Map(budgets.filter(b => b.categoryId === to).map(b => [b.month, b.id]));
+  const added = new Map<string, number>();
+  const moved = budgets.flatMap(b => {
+    if (b.categoryId !== from) return [b];
+    const targetId = targetByMonth.get(b.month);
+    if (targetId === undefined) return [{ ...b, categoryId: to }];
+    added.set(targetId, (added.get(targetId) || 0) + b.amount);
+    return [];
+  });
+  return moved.map(b => (added.has(b.id) ? { ...b, amount: b.amount + added.get(b.id)! } : b));
+};
+
+// Points every reference to `from` at `to`. Untouched records stay the same objects, so only
+// the rewritten ones are stored and synced again.
+const replaceCategoryId = (refs: CategoryReferences, from: string, to: string): CategoryReferences => {
+  const repoint = <T extends CategorizedRecord>(record: T): T => {
+    if (!usesCategory(record, from)) return record;
+    return {
+      ...record,
+      categoryId: record.categoryId === from ? to : record.categoryId,
+      ...(record.splits && { splits: record.splits.map(s => (s.categoryId === from ? { ...s, categoryId: to } : s)) }),
+    };
+  };
+  return {
+    transactions: mapChanged(refs.transactions, repoint),
+    recurring: mapChanged(refs.recurring, r => {
+      const template = repoint(r.template);
+      return template === r.template ? r : { ...r, template };
+    }),
+    categoryRules: mapChanged(refs.categoryRules, r => (r.categoryId === from ? { ...r, categoryId: to } : r)),
+    budgets: moveBudgets(refs.budgets, from, to),
+    trash: mapChanged(refs.trash, item => {
+      if (item.kind !== 'TRANSACTION') return item;
+      const record = repoint(item.record);
+      return record === item.record ? item : { ...item, record };
+    }),
+  };
+};
+
+export type CategoryChange = CategoryReferences & { categories: CategoryRecord[] };
+
+// The source disappears into the target: whatever pointed at it points at the target, its
+// subcategories move under the target. Both must be of the same type.
+export const cascadeCategoryMerge = (categories: CategoryRecord[], refs: CategoryReferences, sourceId: string, targetId: string): CategoryChange => {
+  const source = categories.find(c => c.id === sourceId);
+  const target = categories.find(c => c.id === targetId);
+  if (!source || !target || source.id === target.id || source.type !== target.type) return { ...refs, categories };
+
+  // A subcategory the target sits under can't move under the target, it takes the source's place instead
+  const targetPath = new Set(getCategoryPath(getParentMap(categories, target.type), target.id));
+  return {
+    ...replaceCategoryId(refs, source.id, target.id),
+    categories: categories
+      .filter(c => c.id !== source.id)
+      .map(c => (c.parentId !== source.id ? c : withParent(c, targetPath.has(c.id) ? source.parentId : target.id))),
+  };
+};
@@ -0,0 +1,149 @@
+import { CloudProviderId, RetentionPolicy, WebDavConfig, S3Config } from '../types';
+import { SnapshotInfo, SnapshotMeta, snapshotFileName, getSnapshotsToDelete } from './snapshotService';
+import { SyncTransport } from './syncService';
+import { loadValue, saveValue } from './storageRepository';
+import { getActiveWorkspace } from './workspaceService';
+import * as drive from './googleDriveService';
+import { createWebDavStore } from './webdavClient';
+import { createS3Store } from './s3Client';
+
+// Everything the app needs from a cloud backend: snapshot backups and the shared sync document
+export interface CloudProvider {
+  id: CloudProviderId;
+  label: string;
+  isConnected(): boolean;
+  testConnection(): Promise<void>; // Throws an Error with a readable message
+  createSyncTransport(): SyncTransport;
+  uploadSnapshot(content: string, meta: SnapshotMeta): Promise<void>;
+  listSnapshots(): Promise<SnapshotInfo[]>; // Newest first
+  downloadSnapshot(id: string): Promise<string>;
+  deleteSnapshot(id: string): Promise<void>;
+}
+
+export const CLOUD_PROVIDER_LABELS: Record<CloudProviderId, string> = {
+  GDRIVE: 'Google Drive',
+  WEBDAV: 'WebDAV',
+  S3: 'S3',
+};
+
+// Plain file storage underneath the WebDAV and S3 providers. expectedEtag: null only creates,
+// a value only overwrites that exact version, undefined writes unconditionally and is only
+// used for snapshot files. Stores throw when the server doesn't return an ETag.
+export interface FileStore {
+  get(path: string): Promise<{ content: string; etag: string } | null>;
+  put(path: string, content: string, expectedEtag?: string | null): Promise<string>;
+  remove(path: string): Promise<void>;
+  test(): Promise<void>;
+}
+
+const SYNC_PATH = 'letsfinance_sync.json';
+const SNAPSHOT_DIR = 'snapshots';
+// These stores can't attach metadata to a listing, so snapshots are tracked in an index file
+const SNAPSHOT_INDEX = `${SNAPSHOT_DIR}/index.json`;
+
+// Workspaces other than the original one live in a subfolder named after their cloudFolder
+const createFileStoreProvider = (id: CloudProviderId, rawStore: FileStore, cloudFolder: string): CloudProvider => {
+  const base = cloudFolder ? `workspaces/${cloudFolder}/` : '';
+  const store: FileStore = {
+    get: path => rawStore.get(base + path),
+    put: (path, content, expectedEtag) => rawStore.put(base + path, content, expectedEtag),
+    remove: path => rawStore.remove(base + path),
+    test: () => rawStore.test(),
+  };
+  const readIndex = async (): Promise<SnapshotInfo[]> => {
+    const file = await store.get(SNAPSHOT_INDEX);
+    return file ? JSON.parse(file.content) : [];
+  };
+  const writeIndex = (snapshots: SnapshotInfo[]) =>
+    store.put(SNAPSHOT_INDEX, JSON.stringify([...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt))));
+
+  return {
+    id,
+    label: CLOUD_PROVIDER_LABELS[id],
+    isConnected: () => true,
+    testConnection: () => store.test(),
+    createSyncTransport: () => ({
+      read: async () => {
+        const file = await store.get(SYNC_PATH);
+        return file && { content: file.content, revision: file.etag };
+      },
+      write: (content, expectedRevision) => store.put(SYNC_PATH, content, expectedRevision),
+    }),
+    uploadSnapshot: async (content, meta) => {
+      const now = new Date();
+      const name = snapshotFileName(now);
+      await store.put(`${SNAPSHOT_DIR}/${name}`, content);
+      await writeIndex([...(await readIndex()), { id: name, name, createdAt: now.toISOString(), ...meta }]);
+    },
+    listSnapshots: readIndex,
+    downloadSnapshot: async (snapshotId) => {
+      const file = await store.get(`${SNAPSHOT_DIR}/${snapshotId}`);
+      if (!file) throw new Error("Snapshot tidak ditemukan.");
+      return file.content;
+    },
+    deleteSnapshot: async (snapshotId) => {
+      await store.remove(`${SNAPSHOT_DIR}/${snapshotId}`);
+      await writeIndex((await readIndex()).filter(s => s.id !== snapshotId));
+    },
+  };
+};
+
+const createDriveProvider = (cloudFolder: string): CloudProvider => ({
+  id: 'GDRIVE',
+  label: CLOUD_PROVIDER_LABELS.GDRIVE,
+  isConnected: drive.isDriveConnected,
+  testConnection: async () => {
+    if (!drive.isDriveConnected()) throw new Error("Belum login ke Google Drive.");
+    await drive.listSnapshots(cloudFolder);
+  },
+  createSyncTransport: () => drive.createDriveSyncTransport(cloudFolder),
+  uploadSnapshot: (content, meta) => drive.uploadSnapshot(cloudFolder, content, meta),
+  listSnapshots: () => drive.listSnapshots(cloudFolder),
+  downloadSnapshot: drive.downloadSnapshot,
+  deleteSnapshot: drive.deleteSnapshot,
+});
+
+export const isWebDavConfigComplete = (config?: WebDavConfig) => !!config?.url && !!config.username && !!config.password;
+
+export const isS3ConfigComplete = (config?: S3Config) =>
+  !!config?.endpoint && !!config.bucket && !!config.accessKeyId && !!config.secretAccessKey;
+
+interface ProviderConfig {
+  webdav?: WebDavConfig;
+  s3?: S3Config;
+  cloudFolder?: string; // Workspace.cloudFolder, defaults to the original location
+}
+
+// Builds a provider from a configuration; null when the configuration is incomplete
+export const createCloudProvider = (id: CloudProviderId, config: ProviderConfig = {}): CloudProvider | null => {
+  const cloudFolder = config.cloudFolder || '';
+  if (id === 'GDRIVE') return createDriveProvider(cloudFolder);
+  if (id === 'WEBDAV') return isWebDavConfigComplete(config.webdav) ? createFileStoreProvider(id, createWebDavStore(config.webdav!), cloudFolder) : null;
+  return isS3ConfigComplete(config.s3) ? createFileStoreProvider(id, createS3Store(config.s3!), cloudFolder) : null;
+};
+
+export const getActiveProviderId = async (): Promise<CloudProviderId> => (await loadValue('cloudProvider')) || 'GDRIVE';
+
+// A provider with its saved configuration, pointed at the active workspace's folder
+export const loadCloudProvider = async (id: CloudProviderId): Promise<CloudProvider | null> =>
+  createCloudProvider(id, { webdav: await loadValue('webdavConfig'), s3: await loadValue('s3Config'), cloudFolder: getActiveWorkspace().cloudFolder });
+
+// The provider chosen in Settings
+export const getActiveCloudProvider = async (): Promise<CloudProvider | null> => loadCloudProvider(await getActiveProviderId());
+
+// Google Drive backups made before providers existed only recorded lastSyncTs
+export const getLastCloudSync = async (id: CloudProviderId): Promise<number | undefined> =>
+  (await loadValue('cloudLastSync'))?.[id] ?? (id === 'GDRIVE' ? await loadValue('lastSyncTs') : undefined);
+
+export const recordCloudSync = async (id: CloudProviderId, at: number = Date.now()) => {
+  await saveValue('cloudLastSync', { ...(await loadValue('cloudLastSync')), [id]: at });
+};
+
+// Deletes every snapshot the retention policy no longer covers. Returns how many were removed.
+export const pruneSnapshots = async (provider: CloudProvider, policy: RetentionPolicy): Promise<number> => {
+  const toDelete = getSnapshotsToDelete(await provider.listSnapshots(), policy);
+  for (const snapshot of toDelete) {
+    await provider.deleteSnapshot(snapshot.id);
+  }
+  return toDelete.length;
+};
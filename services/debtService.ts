@@ -0,0 +1,101 @@
+import { Debt, DebtDirection, Transaction, TransactionType } from '../types';
+import { parseDate, todayString } from './recurringService';
+
+export type DebtStatus = 'OPEN' | 'OVERDUE' | 'PAID';
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  minDays: number;
+  maxDays: number; // Inclusive, Infinity for the last bucket
+}
+
+// Age is counted in days since the debt was issued
+export const AGING_BUCKETS: AgingBucket[] = [
+  { key: '0-30', label: '0–30 hari', minDays: 0, maxDays: 30 },
+  { key: '31-60', label: '31–60 hari', minDays: 31, maxDays: 60 },
+  { key: '61-90', label: '61–90 hari', minDays: 61, maxDays: 90 },
+  { key: '90+', label: '> 90 hari', minDays: 91, maxDays: Infinity },
+];
+
+export const DEBT_LABELS: Record<DebtDirection, string> = {
+  RECEIVABLE: 'Piutang',
+  PAYABLE: 'Hutang',
+};
+
+// Money comes in when a customer pays a receivable and goes out when we pay a supplier
+export const getRepaymentType = (direction: DebtDirection) =>
+  direction === 'RECEIVABLE' ? TransactionType.INCOME : TransactionType.EXPENSE;
+
+const daysBetween = (from: string, to: string) =>
+  Math.floor((parseDate(to).getTime() - parseDate(from).getTime()) / (24 * 3600 * 1000));
+
+export const getDebtPayments = (debt: Debt, transactions: Transaction[]) =>
+  transactions.filter(t => t.debtId === debt.id).sort((a, b) => a.date.localeCompare(b.date));
+
+export const getDebtPaid = (debt: Debt, transactions: Transaction[]) =>
+  getDebtPayments(debt, transactions).reduce((sum, t) => sum + t.amount, 0);
+
+export const getDebtOutstanding = (debt: Debt, transactions: Transaction[]) =>
+  Math.max(0, debt.amount - getDebtPaid(debt, transactions));
+
+export const getDebtStatus = (debt: Debt, transactions: Transaction[], today: string = todayString()): DebtStatus => {
+  if (getDebtOutstanding(debt, transactions) <= 0) return 'PAID';
+  return debt.dueDate < today ? 'OVERDUE' : 'OPEN';
+};
+
+export const getDebtAge = (debt: Debt, today: string = todayString()) => Math.max(0, daysBetween(debt.issueDate, today));
+
+export const getDaysOverdue = (debt: Debt, today: string = todayString()) => Math.max(0, daysBetween(debt.dueDate, today));
+
+export interface AgingRow extends AgingBucket {
+  total: number;
+  count: number;
+}
+
+// Outstanding balance per aging bucket for one direction, fully paid debts are left out
+export const getAgingReport = (
+  debts: Debt[],
+  transactions: Transaction[],
+  direction: DebtDirection,
+  today: string = todayString()
+): AgingRow[] => {
+  const rows: AgingRow[] = AGING_BUCKETS.map(b => ({ ...b, total: 0, count: 0 }));
+  debts.filter(d => d.direction === direction).forEach(debt => {
+    const outstanding = getDebtOutstanding(debt, transactions);
+    if (outstanding <= 0) return;
+    const age = getDebtAge(debt, today);
+    const row = rows.find(r => age >= r.minDays && age <= r.maxDays);
+    if (!row) return;
+    row.total += outstanding;
+    row.count++;
+  });
+  return rows;
+};
+
+export interface DebtSummary {
+  outstanding: number;
+  overdue: number;
+  openCount: number;
+  overdueCount: number;
+}
+
+export const getDebtSummary = (
+  debts: Debt[],
+  transactions: Transaction[],
+  direction: DebtDirection,
+  today: string = todayString()
+): DebtSummary => {
+  const summary: DebtSummary = { outstanding: 0, overdue: 0, openCount: 0, overdueCount: 0 };
+  debts.filter(d => d.direction === direction).forEach(debt => {
+    const outstanding = getDebtOutstanding(debt, transactions);
+    if (outstanding <= 0) return;
+    summary.outstanding += outstanding;
+    summary.openCount++;
+    if (debt.dueDate < today) {
+      summary.overdue += outstanding;
+      summary.overdueCount++;
+    }
+  });
+  return summary;
+};
@@ -1,10 +1,28 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { Transaction, TransactionType } from '../types';
+import { CategoryRecord, Transaction, TransactionType } from '../types';
+import { excludeTransfers, getCategoryIds } from './transactionService';
+import { getCategoryName } from './categoryService';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 const MODEL_NAME = 'gemini-2.5-flash';
 
+// Thrown before calling the API while the device has no connection
+export class OfflineError extends Error {
+  constructor() {
+    super("Fitur AI membutuhkan koneksi internet. Coba lagi saat perangkat online.");
+    this.name = 'OfflineError';
+  }
+}
+
+const ensureOnline = () => {
+  if (!navigator.onLine) throw new OfflineError();
+};
+
+// One line per transaction for the prompt, e.g. "2024-05-01: Pengeluaran - Rp50000 (Transportasi)"
+const summarizeTransaction = (t: Transaction, categories: CategoryRecord[]) =>
+  `${t.date}: ${t.type} - Rp${t.amount} (${getCategoryIds(t).map(id => getCategoryName(categories, id)).join(' + ')})`;
+
 // Helper to convert file to base64
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -26,6 +44,7 @@ export const fileToBase64 = (file: File): Promise<string> => {
 };
 
 export const scanReceiptWithGemini = async (base64Image: string, mimeType: string) => {
+  ensureOnline();
   try {
     const response = await ai.models.generateContent({
       model: MODEL_NAME,
@@ -65,10 +84,11 @@ export const scanReceiptWithGemini = async (base64Image: string, mimeType: strin
   }
 };
 
-export const getFinancialAdvice = async (transactions: Transaction[]) => {
+export const getFinancialAdvice = async (transactions: Transaction[], categories: CategoryRecord[]) => {
+  ensureOnline();
   try {
-    // Summarize data to save tokens
-    const summary = transactions.slice(0, 50).map(t => `${t.date}: ${t.type} - Rp${t.amount} (${t.category})`).join('\n');
+    // Summarize data to save tokens. Transfers between own accounts are not cash flow, leave them out
+    const summary = excludeTransfers(transactions).slice(0, 50).map(t => summarizeTransaction(t, categories)).join('\n');
 
     const response = await ai.models.generateContent({
       model: MODEL_NAME,
@@ -101,12 +121,14 @@ export const getFinancialAdvice = async (transactions: Transaction[]) => {
   }
 };
 
-export const getReportAnalysis = async (transactions: Transaction[], periodLabel: string) => {
+export const getReportAnalysis = async (allTransactions: Transaction[], periodLabel: string, categories: CategoryRecord[]) => {
+  ensureOnline();
   try {
+    const transactions = excludeTransfers(allTransactions);
     const income = transactions.filter(t => t.type === TransactionType.INCOME).reduce((acc, t) => acc + t.amount, 0);
     const expense = transactions.filter(t => t.type === TransactionType.EXPENSE).reduce((acc, t) => acc + t.amount, 0);
     // Increased sample size for better context
-    const summaryList = transactions.slice(0, 50).map(t => `${t.date}: ${t.type} - Rp${t.amount} (${t.category})`).join('\n');
+    const summaryList = transactions.slice(0, 50).map(t => summarizeTransaction(t, categories)).join('\n');
 
     const prompt = `Bertindaklah sebagai analis keuangan bisnis. 
     Analisis data keuangan berikut untuk periode: ${periodLabel}.
@@ -0,0 +1,161 @@
+import { SnapshotInfo, SnapshotMeta, snapshotFileName } from './snapshotService';
+import { SyncTransport, SyncRevisionError } from './syncService';
+
+// Thin wrappers around the Drive v3 API. They expect window.gapi to be initialized and
+// signed in (see Settings). With the drive.file scope only files made by this app are visible.
+// cloudFolder is the workspace's Workspace.cloudFolder; each workspace gets its own Drive folder.
+
+const SNAPSHOT_FOLDER = 'LetsFinance Snapshots';
+const SYNC_FILENAME = 'letsfinance_sync.json';
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+
+// Single file that used to be overwritten on every upload. Still offered for restore.
+export const LEGACY_BACKUP_FILENAME = 'letsfinance_backup_auto.json';
+
+// Signed in with a token for this session. Background sync only runs while this is true.
+export const isDriveConnected = () => !!window.gapi?.client?.getToken?.();
+
+const folderName = (cloudFolder: string) => (cloudFolder ? `${SNAPSHOT_FOLDER} - ${cloudFolder}` : SNAPSHOT_FOLDER);
+
+const findFolderId = async (cloudFolder: string): Promise<string | null> => {
+  const response = await window.gapi.client.drive.files.list({
+    q: `name = '${folderName(cloudFolder)}' and mimeType = '${FOLDER_MIME}' and trashed = false`,
+    fields: 'files(id)',
+  });
+  return response.result.files?.[0]?.id || null;
+};
+
+const ensureFolderId = async (cloudFolder: string): Promise<string> => {
+  const existing = await findFolderId(cloudFolder);
+  if (existing) return existing;
+  const response = await window.gapi.client.drive.files.create({
+    resource: { name: folderName(cloudFolder), mimeType: FOLDER_MIME },
+    fields: 'id',
+  });
+  return response.result.id;
+};
+
+// The fields of a Drive file resource requested in FILE_FIELDS. Drive only stores strings in
+// appProperties and sends size as a string too.
+interface DriveFile {
+  id: string;
+  name: string;
+  createdTime: string;
+  size?: string;
+  appProperties?: Record<string, string>;
+}
+
+const toSnapshotInfo = (file: DriveFile): SnapshotInfo => {
+  const props = file.appProperties || {};
+  const count = (key: string) => (props[key] !== undefined ? Number(props[key]) : undefined);
+  return {
+    id: file.id,
+    name: file.name,
+    createdAt: file.createdTime,
+    counts: { transactions: count('transactions'), invoices: count('invoices'), accounts: count('accounts'), debts: count('debts') },
+    schemaVersion: count('schemaVersion'),
+    encrypted: props.encrypted === '1',
+    legacy: file.name === LEGACY_BACKUP_FILENAME,
+  };
+};
+
+const FILE_FIELDS = 'files(id, name, createdTime, size, appProperties)';
+
+// Newest first. The original workspace also lists the legacy auto-backup file when it exists.
+export const listSnapshots = async (cloudFolder: string): Promise<SnapshotInfo[]> => {
+  const files: DriveFile[] = [];
+  const folderId = await findFolderId(cloudFolder);
+  if (folderId) {
+    let pageToken: string | undefined;
+    do {
+      const response = await window.gapi.client.drive.files.list({
+        q: `'${folderId}' in parents and name != '${SYNC_FILENAME}' and trashed = false`,
+        fields: `nextPageToken, ${FILE_FIELDS}`,
+        orderBy: 'createdTime desc',
+        pageSize: 1000,
+        pageToken,
+      });
+      files.push(...(response.result.files || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+  }
+
+  if (!cloudFolder) {
+    const legacy = await window.gapi.client.drive.files.list({
+      q: `name = '${LEGACY_BACKUP_FILENAME}' and trashed = false`,
+      fields: FILE_FIELDS,
+    });
+    files.push(...(legacy.result.files || []));
+  }
+
+  return files.map(toSnapshotInfo).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Creates a file, or replaces the content of fileId. Returns the Drive file resource.
+const uploadFile = async (metadata: object, content: string, fileId?: string) => {
+  const boundary = '-------314159265358979323846';
+  const delimiter = "\r\n--" + boundary + "\r\n";
+  const close_delim = "\r\n--" + boundary + "--";
+  const body = delimiter + 'Content-Type: application/json\r\n\r\n' + JSON.stringify(metadata) + delimiter + 'Content-Type: application/json\r\n\r\n' + content + close_delim;
+
+  const response = await window.gapi.client.request({
+    path: fileId ? `/upload/drive/v3/files/${fileId}` : '/upload/drive/v3/files',
+    method: fileId ? 'PATCH' : 'POST',
+    params: { uploadType: 'multipart', fields: 'id, version' },
+    headers: { 'Content-Type': 'multipart/related; boundary="' + boundary + '"' },
+    body,
+  });
+  return response.result;
+};
+
+export const uploadSnapshot = async (cloudFolder: string, content: string, meta: SnapshotMeta): Promise<void> => {
+  const folderId = await ensureFolderId(cloudFolder);
+  const appProperties: Record<string, string> = {
+    schemaVersion: String(meta.schemaVersion),
+    encrypted: meta.encrypted ? '1' : '0',
+  };
+  Object.entries(meta.counts).forEach(([key, value]) => {
+    if (value !== undefined) appProperties[key] = String(value);
+  });
+  const metadata = { name: snapshotFileName(new Date()), mimeType: 'application/json', parents: [folderId], appProperties };
+
+  await uploadFile(metadata, content);
+};
+
+// Raw file content, so encrypted envelopes reach the decryption step untouched
+export const downloadSnapshot = async (fileId: string): Promise<string> => {
+  const response = await window.gapi.client.drive.files.get({ fileId, alt: 'media' });
+  return response.body;
+};
+
+export const deleteSnapshot = async (fileId: string): Promise<void> => {
+  await window.gapi.client.drive.files.delete({ fileId });
+};
+
+// --- Sync document ---
+
+const findSyncFile = async (folderId: string): Promise<{ id: string; version: string } | null> => {
+  const response = await window.gapi.client.drive.files.list({
+    q: `name = '${SYNC_FILENAME}' and '${folderId}' in parents and trashed = false`,
+    fields: 'files(id, version)',
+  });
+  return response.result.files?.[0] || null;
+};
+
+// Drive has no conditional writes, so the file version is checked right before uploading.
+// That leaves a short race window, which is acceptable for a handful of devices.
+export const createDriveSyncTransport = (cloudFolder: string): SyncTransport => ({
+  read: async () => {
+    const file = await findSyncFile(await ensureFolderId(cloudFolder));
+    if (!file) return null;
+    return { content: await downloadSnapshot(file.id), revision: file.version };
+  },
+  write: async (content, expectedRevision) => {
+    const folderId = await ensureFolderId(cloudFolder);
+    const file = await findSyncFile(folderId);
+    if ((file?.version ?? null) !== expectedRevision) throw new SyncRevisionError("Dokumen sinkronisasi berubah.");
+    const metadata = file ? { mimeType: 'application/json' } : { name: SYNC_FILENAME, mimeType: 'application/json', parents: [folderId] };
+    const result = await uploadFile(metadata, content, file?.id);
+    return result.version;
+  },
+});
@@ -0,0 +1,51 @@
+import { AccountingClass, CategoryRecord, CategoryType } from '../types';
+import { ACCOUNTING_CLASSES, CategoryRollup, ParentMap, buildCategoryRollup, getAccountingClassMap, getParentMap, resolveAccountingClass } from './categoryService';
+
+// Multi-step Laporan Laba Rugi: operating revenue less cost of goods sold is the gross profit,
+// less operating expenses the operating profit. Other income and non-operating expenses then
+// lead to the net profit.
+
+export interface IncomeStatementSection {
+  accountingClass: AccountingClass;
+  rows: CategoryRollup[];
+  total: number;
+}
+
+export interface IncomeStatement {
+  sections: Record<AccountingClass, IncomeStatementSection>;
+  grossProfit: number;
+  operatingProfit: number;
+  netProfit: number;
+}
+
+// A subcategory filed under another class than its parent shows up in its own section,
+// at the top level there
+const buildSections = (totals: Record<string, number>, categories: CategoryRecord[], type: CategoryType): IncomeStatementSection[] => {
+  const parentMap = getParentMap(categories, type);
+  const classes = getAccountingClassMap(categories, type);
+  const classOf = (id: string) => resolveAccountingClass(classes, type, id);
+
+  return ACCOUNTING_CLASSES[type].map(accountingClass => {
+    const inClass = Object.fromEntries(Object.entries(totals).filter(([id]) => classOf(id) === accountingClass));
+    const links: ParentMap = new Map(Array.from(parentMap).filter(([child, parent]) => classOf(child) === accountingClass && classOf(parent) === accountingClass));
+    const rows = buildCategoryRollup(inClass, links);
+    return { accountingClass, rows, total: rows.reduce((sum, row) => sum + row.total, 0) };
+  });
+};
+
+// Totals are per category id for the period, split lines counted under their own category
+export const buildIncomeStatement = (incomeTotals: Record<string, number>, expenseTotals: Record<string, number>, categories: CategoryRecord[]): IncomeStatement => {
+  const sections = Object.fromEntries(
+    [...buildSections(incomeTotals, categories, 'INCOME'), ...buildSections(expenseTotals, categories, 'EXPENSE')]
+      .map(section => [section.accountingClass, section])
+  ) as Record<AccountingClass, IncomeStatementSection>;
+
+  const grossProfit = sections.OPERATING_REVENUE.total - sections.COGS.total;
+  const operatingProfit = grossProfit - sections.OPERATING_EXPENSE.total;
+  return {
+    sections,
+    grossProfit,
+    operatingProfit,
+    netProfit: operatingProfit + sections.OTHER_INCOME.total - sections.NON_OPERATING.total,
+  };
+};
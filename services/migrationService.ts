@@ -0,0 +1,151 @@
+import { AppData, CategoryRecord, CategoryRule, CategoryType, Transaction, TransactionType, TrashItem } from '../types';
+import { TRANSFER_CATEGORY_ID, categoryTypeOf, derivedCategoryId, findCategory, withDefaultMeta } from './categoryService';
+
+// Bump together with a new entry in MIGRATIONS whenever the stored shape changes
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// Data and backups written before versioning existed (backups only had appVersion '1.0.0')
+export const LEGACY_SCHEMA_VERSION = 1;
+
+// Collections older schemas stored that a later step replaced
+export interface LegacyData {
+  expenseCategories?: string[]; // Before v3, now categories
+  incomeCategories?: string[];
+  categoryParents?: { type: CategoryType; category: string; parent: string }[];
+}
+
+export const LEGACY_DATA_KEYS = ['expenseCategories', 'incomeCategories', 'categoryParents'] as const;
+
+// The trash is neither backed up nor synced, but its records change shape along with the books
+export type MigratedData = Partial<AppData> & { trash?: TrashItem[] };
+
+export type VersionedData = MigratedData & LegacyData;
+
+// Before v4 records named their category instead of holding its id
+interface NamedCategoryRef {
+  category?: string;
+  categoryId?: string;
+}
+
+const withCategoryId = <T extends NamedCategoryRef>({ category: _, ...record }: T, categoryId: string) => ({ ...record, categoryId });
+
+interface Migration {
+  version: number; // Version the data is at after this step
+  description: string;
+  migrate: (data: VersionedData) => VersionedData;
+}
+
+// Applied in order. A step must leave untouched records as the same objects so only
+// changed rows are written back.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Assign transactions without an account to the first account',
+    migrate: (data) => {
+      const defaultAccountId = data.accounts?.[0]?.id || '1';
+      return {
+        ...data,
+        transactions: data.transactions?.map((t: Transaction) => (t.accountId ? t : { ...t, accountId: defaultAccountId })),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Turn the category name lists and their parent entries into category records with ids',
+    migrate: ({ expenseCategories, incomeCategories, categoryParents, ...data }) => {
+      if (!expenseCategories && !incomeCategories) return data;
+      const toRecords = (type: CategoryType, names: string[]): CategoryRecord[] => {
+        const listed = Array.from(new Set(names));
+        const parentOf = (name: string) => {
+          const parent = categoryParents?.find(p => p.type === type && p.category === name)?.parent;
+          return parent !== undefined && listed.includes(parent) ? parent : undefined;
+        };
+        // Names from the top-level category down. A loop in the old entries ends the walk.
+        const pathOf = (name: string) => {
+          const path = [name];
+          for (let parent = parentOf(name); parent !== undefined && !path.includes(parent); parent = parentOf(parent)) path.unshift(parent);
+          return path;
+        };
+        return listed.map(name => {
+          const path = pathOf(name);
+          return { id: derivedCategoryId(type, path), name, type, ...(path.length > 1 && { parentId: derivedCategoryId(type, path.slice(0, -1)) }) };
+        });
+      };
+      return {
+        ...data,
+        categories: [...toRecords('EXPENSE', expenseCategories || []), ...toRecords('INCOME', incomeCategories || [])],
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Point transactions, splits, recurring templates, budgets and rules at category ids instead of names',
+    migrate: (data) => {
+      // Default categories also get their icon and class on the record, nothing looks them up by name any more
+      const categories = (data.categories || []).map(withDefaultMeta);
+      const created: CategoryRecord[] = [];
+      const resolve = (type: CategoryType, name: string | undefined) => {
+        const trimmed = name?.trim() || 'Lainnya';
+        const existing = findCategory([...categories, ...created], type, trimmed);
+        if (existing) return existing.id;
+        const category: CategoryRecord = { id: derivedCategoryId(type, [trimmed]), name: trimmed, type }; // Named by records but no longer in the list
+        created.push(category);
+        return category.id;
+      };
+      const link = <T extends NamedCategoryRef>(ref: T, type: CategoryType) =>
+        ref.categoryId !== undefined ? ref : withCategoryId(ref, resolve(type, ref.category));
+      const linkTransaction = <T extends Pick<Transaction, 'type' | 'splits'> & NamedCategoryRef>(t: T) => {
+        if (t.categoryId !== undefined) return t;
+        if (t.type === TransactionType.TRANSFER) return withCategoryId(t, TRANSFER_CATEGORY_ID);
+        const type = categoryTypeOf(t.type);
+        return { ...link(t, type), ...(t.splits && { splits: t.splits.map(s => link(s, type)) }) };
+      };
+      // A rule without a type goes to the expense category of that name, if there is one
+      const linkRule = <T extends Pick<CategoryRule, 'conditions'> & NamedCategoryRef>(r: T) => {
+        const type = r.conditions.type ? categoryTypeOf(r.conditions.type)
+          : r.category && !findCategory(categories, 'EXPENSE', r.category) && findCategory(categories, 'INCOME', r.category) ? 'INCOME' : 'EXPENSE';
+        return link(r, type);
+      };
+
+      const transactions = data.transactions?.map(linkTransaction);
+      const recurring = data.recurring?.map(r => {
+        const template = linkTransaction(r.template);
+        return template === r.template ? r : { ...r, template };
+      });
+      const budgets = data.budgets?.map(b => link(b, 'EXPENSE'));
+      const categoryRules = data.categoryRules?.map(linkRule);
+      const trash = data.trash?.map(item => {
+        if (item.kind !== 'TRANSACTION') return item;
+        const record = linkTransaction(item.record);
+        return record === item.record ? item : { ...item, record };
+      });
+      return {
+        ...data,
+        transactions,
+        recurring,
+        budgets,
+        categoryRules,
+        trash,
+        categories: (data.categories || created.length > 0) ? [...categories, ...created] : undefined,
+      };
+    },
+  },
+];
+
+export class UnsupportedSchemaError extends Error {
+  constructor(public version: number) {
+    super(`Data ini dibuat oleh versi aplikasi yang lebih baru (skema v${version}, aplikasi ini mendukung hingga v${CURRENT_SCHEMA_VERSION}). Perbarui aplikasi terlebih dahulu.`);
+    this.name = 'UnsupportedSchemaError';
+  }
+}
+
+export const getSchemaVersion = (json: { schemaVersion?: unknown }) =>
+  typeof json.schemaVersion === 'number' ? json.schemaVersion : LEGACY_SCHEMA_VERSION;
+
+// Runs every step newer than fromVersion. Data from a newer schema is refused rather than guessed at.
+export const migrateData = (data: VersionedData, fromVersion: number): MigratedData => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) throw new UnsupportedSchemaError(fromVersion);
+  return MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((current, m) => m.migrate(current), data);
+};
@@ -0,0 +1,20 @@
+// Reading fields of records whose shape isn't known yet (synced from another device, stored by
+// an older version, or read from a file). A field of the wrong type reads as empty.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const textField = (record: Record<string, unknown>, key: string) => {
+  const value = record[key];
+  return typeof value === 'string' ? value : '';
+};
+
+export const numberField = (record: Record<string, unknown>, key: string) => {
+  const value = record[key];
+  return typeof value === 'number' && isFinite(value) ? value : 0;
+};
+
+export const recordField = (record: Record<string, unknown>, key: string): Record<string, unknown> => {
+  const value = record[key];
+  return isRecord(value) ? value : {};
+};
@@ -0,0 +1,117 @@
+import { RecurringTransaction, RecurringFrequency, Transaction } from '../types';
+
+// Hard stop for the occurrence scan, protects against invalid rules
+const MAX_SCAN = 20000;
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  DAILY: 'Harian',
+  WEEKLY: 'Mingguan',
+  MONTHLY: 'Bulanan',
+  DAY_OF_MONTH: 'Tanggal Tertentu',
+};
+
+// --- Date helpers (YYYY-MM-DD strings, local time) ---
+
+export const parseDate = (dateStr: string) => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const formatDate = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const todayString = () => formatDate(new Date());
+
+// Day in the given month, clamped to the month length (31 -> 28/29 in February)
+const clampedMonthDay = (year: number, month: number, day: number) => {
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, daysInMonth));
+};
+
+// The n-th occurrence (0-based) of a rule. Computed from the anchor every time
+// so monthly rules don't drift after being clamped in a short month.
+export const occurrenceAt = (rule: RecurringTransaction, n: number): Date => {
+  const start = parseDate(rule.startDate);
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + n);
+    case 'WEEKLY':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + n * 7);
+    case 'MONTHLY':
+      return clampedMonthDay(start.getFullYear(), start.getMonth() + n, start.getDate());
+    case 'DAY_OF_MONTH': {
+      const day = rule.dayOfMonth || start.getDate();
+      // First occurrence is the first matching day on or after the start date
+      const firstInStartMonth = clampedMonthDay(start.getFullYear(), start.getMonth(), day);
+      const offset = firstInStartMonth < start ? 1 : 0;
+      return clampedMonthDay(start.getFullYear(), start.getMonth() + n + offset, day);
+    }
+    default:
+      return start;
+  }
+};
+
+// All occurrence dates after `lastPostedDate` up to `today` (and the end date, if any)
+export const getDueOccurrences = (rule: RecurringTransaction, today: string): string[] => {
+  if (!rule.active) return [];
+  const limit = rule.endDate && rule.endDate < today ? rule.endDate : today;
+  const dates: string[] = [];
+
+  for (let n = 0; n < MAX_SCAN; n++) {
+    const date = formatDate(occurrenceAt(rule, n));
+    if (date > limit) break;
+    if (!rule.lastPostedDate || date > rule.lastPostedDate) dates.push(date);
+  }
+
+  return dates;
+};
+
+// Next upcoming date for display purposes, null when the rule has ended
+export const getNextOccurrence = (rule: RecurringTransaction, today: string): string | null => {
+  for (let n = 0; n < MAX_SCAN; n++) {
+    const date = formatDate(occurrenceAt(rule, n));
+    if (rule.endDate && date > rule.endDate) return null;
+    if (date > today && (!rule.lastPostedDate || date > rule.lastPostedDate)) return date;
+  }
+  return null;
+};
+
+export interface MaterializeResult {
+  posted: Transaction[];
+  rules: RecurringTransaction[];
+}
+
+// Create the transactions for every due occurrence and advance each rule's lastPostedDate.
+// Ids are derived from rule + date, so running this twice never posts the same occurrence twice.
+// After a long gap (e.g. the app was not opened for months) every missed occurrence is still
+// posted, the review queue is where unwanted ones get discarded.
+export const materializeRecurring = (
+  rules: RecurringTransaction[],
+  existing: Transaction[],
+  today: string = todayString()
+): MaterializeResult => {
+  const existingIds = new Set(existing.map(t => t.id));
+  const posted: Transaction[] = [];
+
+  const updatedRules = rules.map(rule => {
+    const due = getDueOccurrences(rule, today);
+    if (due.length === 0) return rule;
+
+    due.forEach(date => {
+      const id = `rec-${rule.id}-${date}`;
+      if (existingIds.has(id)) return;
+      posted.push({ ...rule.template, id, date, recurringId: rule.id });
+    });
+
+    return { ...rule, lastPostedDate: due[due.length - 1] };
+  });
+
+  // Newest first, matching the order of the transaction list state
+  posted.sort((a, b) => b.date.localeCompare(a.date));
+  return { posted, rules: updatedRules };
+};
@@ -0,0 +1,131 @@
+import { S3Config } from '../types';
+import type { FileStore } from './cloudProviders';
+import { SyncRevisionError } from './syncService';
+
+// S3-compatible file store with AWS Signature V4 signing done in the browser (WebCrypto).
+// The bucket needs a CORS rule for this app's origin that allows GET/PUT/DELETE/HEAD and
+// exposes the ETag header.
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: string) => toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string) => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+};
+
+// RFC 3986 encoding as SigV4 expects it, slashes kept between path segments
+const encodePath = (path: string) =>
+  path.split('/').map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join('/');
+
+export interface SignInput {
+  method: string;
+  host: string;
+  path: string; // Already encoded
+  query?: string; // Already canonical (sorted, encoded)
+  headers: Record<string, string>; // Extra headers to sign, lower-case names
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}
+
+// Returns the headers to send, including Authorization
+export const signRequest = async (input: SignInput): Promise<Record<string, string>> => {
+  const amzDate = input.date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...input.headers,
+    host: input.host,
+    'x-amz-content-sha256': input.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const names = Object.keys(headers).map(n => n.toLowerCase()).sort();
+  const canonicalHeaders = names.map(n => `${n}:${String(headers[n]).trim()}\n`).join('');
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [input.method, input.path, input.query || '', canonicalHeaders, signedHeaders, input.payloadHash].join('\n');
+
+  const scope = `${dateStamp}/${input.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  const kDate = await hmac(encoder.encode(`AWS4${input.secretAccessKey}`), dateStamp);
+  const kRegion = await hmac(kDate, input.region);
+  const kService = await hmac(kRegion, 's3');
+  const kSigning = await hmac(kService, 'aws4_request');
+  const signature = toHex(await hmac(kSigning, stringToSign));
+
+  // Browsers set Host themselves and refuse it as a request header
+  const { host, ...sendHeaders } = headers;
+  return {
+    ...sendHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+export const createS3Store = (config: S3Config): FileStore => {
+  const endpoint = new URL(config.endpoint);
+  const prefix = config.prefix.replace(/^\/+|\/+$/g, '');
+  const objectPath = (path: string) => `/${encodePath(config.bucket)}/${encodePath(prefix ? `${prefix}/${path}` : path)}`;
+
+  const request = async (method: string, path: string, body = '', headers: Record<string, string> = {}) => {
+    const signed = await signRequest({
+      method,
+      host: endpoint.host,
+      path,
+      headers,
+      payloadHash: await sha256Hex(body),
+      region: config.region || 'us-east-1',
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      date: new Date(),
+    });
+    return fetch(`${endpoint.origin}${path}`, { method, headers: signed, body: method === 'PUT' ? body : undefined, cache: 'no-store' });
+  };
+
+  const failed = (action: string, response: Response) =>
+    new Error(`S3 ${action} gagal (HTTP ${response.status}).`);
+
+  // Without an ETag a later write can't be made conditional, so refuse to go on
+  const requireEtag = (etag: string | null) => {
+    if (!etag) throw new Error("Bucket S3 tidak mengirim ETag. Tambahkan ETag ke ExposeHeaders pada aturan CORS bucket.");
+    return etag;
+  };
+
+  return {
+    get: async (path) => {
+      const response = await request('GET', objectPath(path));
+      if (response.status === 404) return null;
+      if (!response.ok) throw failed('membaca objek', response);
+      return { content: await response.text(), etag: requireEtag(response.headers.get('ETag')) };
+    },
+
+    put: async (path, content, expectedEtag) => {
+      const headers: Record<string, string> = { 'content-type': 'application/json' };
+      if (expectedEtag === null) headers['if-none-match'] = '*';
+      else if (expectedEtag !== undefined) headers['if-match'] = requireEtag(expectedEtag);
+
+      const response = await request('PUT', objectPath(path), content, headers);
+      // 409 is what some S3 implementations answer to a concurrent conditional write
+      if (response.status === 412 || response.status === 409) throw new SyncRevisionError("Objek berubah di server.");
+      if (!response.ok) throw failed('menyimpan objek', response);
+      return requireEtag(response.headers.get('ETag'));
+    },
+
+    remove: async (path) => {
+      const response = await request('DELETE', objectPath(path));
+      if (!response.ok && response.status !== 404) throw failed('menghapus objek', response);
+    },
+
+    test: async () => {
+      const response = await request('HEAD', `/${encodePath(config.bucket)}`);
+      if (response.status === 403) throw new Error("Akses ditolak. Periksa access key, secret key dan izin bucket.");
+      if (response.status === 404) throw new Error(`Bucket "${config.bucket}" tidak ditemukan.`);
+      if (!response.ok) throw failed('terhubung', response);
+    },
+  };
+};
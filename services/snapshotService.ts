@@ -0,0 +1,50 @@
+import { RetentionPolicy } from '../types';
+import { formatDate } from './recurringService';
+import { monthKey } from './budgetService';
+
+export const DEFAULT_RETENTION: RetentionPolicy = { daily: 7, weekly: 4, monthly: 12 };
+
+export interface SnapshotInfo {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  counts: { transactions?: number; invoices?: number; accounts?: number; debts?: number };
+  schemaVersion?: number;
+  encrypted: boolean;
+  legacy?: boolean; // The single auto-backup file from before snapshots, never pruned
+}
+
+// What a provider records next to the file so the restore picker can show it without downloading
+export type SnapshotMeta = Pick<SnapshotInfo, 'counts' | 'schemaVersion' | 'encrypted'> & { schemaVersion: number };
+
+export const snapshotFileName = (date: Date) =>
+  `letsfinance_snapshot_${date.toISOString().replace(/[:.]/g, '-')}.json`;
+
+// Monday of the week, so a week key is stable across the year boundary
+const weekKey = (date: Date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return formatDate(monday);
+};
+
+// Grandfather-father-son pruning: for each period type keep the newest snapshot of the
+// last N periods that have one. A snapshot kept by any rule survives.
+export const getSnapshotsToDelete = (snapshots: SnapshotInfo[], policy: RetentionPolicy): SnapshotInfo[] => {
+  const sorted = snapshots.filter(s => !s.legacy).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const keep = new Set<string>(sorted.slice(0, 1).map(s => s.id));
+
+  const keepNewestPer = (period: (date: Date) => string, count: number) => {
+    const periods = new Set<string>();
+    for (const snapshot of sorted) {
+      const key = period(new Date(snapshot.createdAt));
+      if (periods.has(key)) continue;
+      if (periods.size >= count) break;
+      periods.add(key);
+      keep.add(snapshot.id);
+    }
+  };
+  keepNewestPer(formatDate, policy.daily);
+  keepNewestPer(weekKey, policy.weekly);
+  keepNewestPer(monthKey, policy.monthly);
+
+  return sorted.filter(s => !keep.has(s.id));
+};
@@ -0,0 +1,291 @@
+import { Transaction, TransactionType } from '../types';
+import { formatDate, parseDate } from './recurringService';
+
+export type StatementFormat = 'CSV' | 'OFX' | 'QIF';
+
+// A normalized row read from a bank / e-wallet statement, before it becomes a Transaction
+export interface StatementRow {
+  date: string; // YYYY-MM-DD
+  amount: number; // Always positive, direction is in `type`
+  type: TransactionType.INCOME | TransactionType.EXPENSE;
+  description: string;
+  merchant?: string;
+}
+
+// CSV column mapping. Either a signed `amount` column or separate `debit` / `credit` columns.
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  merchant?: number;
+}
+
+export interface ParseResult {
+  rows: StatementRow[];
+  errors: string[]; // Human readable, one per unreadable line
+}
+
+const MONTHS_ID: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, mei: 5, may: 5, jun: 6, jul: 7,
+  agu: 8, agt: 8, aug: 8, sep: 9, okt: 10, oct: 10, nov: 11, des: 12, dec: 12,
+};
+
+export const detectFormat = (fileName: string, content: string): StatementFormat => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.ofx') || lower.endsWith('.qfx') || /<OFX>/i.test(content)) return 'OFX';
+  if (lower.endsWith('.qif') || /^!Type:/im.test(content)) return 'QIF';
+  return 'CSV';
+};
+
+// Parse amounts written the Indonesian way ("1.250.000,00") as well as the international way
+// ("1,250,000.00"). Handles "Rp", spaces, leading minus, trailing "-"/"DB"/"CR" and (parentheses).
+export const parseIndonesianNumber = (raw: string): number | null => {
+  if (!raw) return null;
+  let str = raw.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(str)) { negative = true; str = str.slice(1, -1); }
+  if (/\s*(DB|D)$/i.test(str)) { negative = true; str = str.replace(/\s*(DB|D)$/i, ''); }
+  str = str.replace(/\s*(CR|K)$/i, '');
+  str = str.replace(/Rp\.?|IDR/gi, '').replace(/\s/g, '');
+  if (str.endsWith('-')) { negative = true; str = str.slice(0, -1); }
+  if (str.startsWith('-')) { negative = !negative; str = str.slice(1); }
+  if (str.startsWith('+')) str = str.slice(1);
+  if (!/^[\d.,]+$/.test(str)) return null;
+
+  const lastDot = str.lastIndexOf('.');
+  const lastComma = str.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Both separators: whichever comes last is the decimal separator
+    normalized = lastComma > lastDot
+      ? str.replace(/\./g, '').replace(',', '.')
+      : str.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    // Only commas: "1250,50" is a decimal, "1,250,000" is grouping
+    const decimals = str.length - lastComma - 1;
+    normalized = (str.split(',').length === 2 && decimals !== 3)
+      ? str.replace(',', '.')
+      : str.replace(/,/g, '');
+  } else if (lastDot >= 0) {
+    // Only dots: Indonesian grouping ("1.250.000", "50.000") unless it looks like a decimal ("12.5")
+    const decimals = str.length - lastDot - 1;
+    normalized = (str.split('.').length === 2 && decimals !== 3)
+      ? str
+      : str.replace(/\./g, '');
+  } else {
+    normalized = str;
+  }
+
+  const value = parseFloat(normalized);
+  if (isNaN(value)) return null;
+  return negative ? -value : value;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1) return null; // e.g. 31/02
+  return formatDate(date);
+};
+
+// Parse dates as they appear in Indonesian statements: "31/12/2025", "31-12-25", "31.12.2025",
+// "31 Des 2025", QIF style "31/12'25", OFX "20251231120000" and ISO "2025-12-31". Day comes first.
+export const parseIndonesianDate = (raw: string): string | null => {
+  if (!raw) return null;
+  const str = raw.trim();
+  let m: RegExpMatchArray | null;
+
+  if ((m = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) return toIsoDate(+m[1], +m[2], +m[3]);
+  if ((m = str.match(/^(\d{4})(\d{2})(\d{2})/))) return toIsoDate(+m[1], +m[2], +m[3]);
+  if ((m = str.match(/^(\d{1,2})[/.\-](\d{1,2})[/.\-'](\d{2,4})/))) return toIsoDate(+m[3], +m[2], +m[1]);
+  if ((m = str.match(/^(\d{1,2})[\s\-]+([A-Za-z]{3})[A-Za-z]*[\s\-]+(\d{2,4})/))) {
+    const month = MONTHS_ID[m[2].toLowerCase()];
+    return month ? toIsoDate(+m[3], month, +m[1]) : null;
+  }
+  return null;
+};
+
+// --- CSV ---
+
+const detectDelimiter = (line: string) => {
+  const candidates = [';', ',', '\t', '|'];
+  return candidates.reduce((best, d) => (line.split(d).length > line.split(best).length ? d : best), ',');
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and delimiters inside quotes
+export const parseCsv = (content: string): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/).find(l => l.trim()) || '';
+  const delimiter = detectDelimiter(firstLine);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row.map(c => c.trim()));
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(c => c.trim() !== '')) rows.push(row.map(c => c.trim()));
+  return rows;
+};
+
+// Best-effort guess of the mapping from a header row, the user can still change it
+export const guessCsvMapping = (header: string[]): CsvColumnMapping => {
+  const find = (...keys: string[]) => {
+    const idx = header.findIndex(h => keys.some(k => h.toLowerCase().includes(k)));
+    return idx >= 0 ? idx : undefined;
+  };
+  const debit = find('debit', 'debet', 'keluar');
+  const credit = find('kredit', 'credit', 'masuk');
+  return {
+    date: find('tanggal', 'tgl', 'date') ?? 0,
+    description: find('keterangan', 'deskripsi', 'description', 'uraian', 'catatan') ?? 1,
+    amount: debit !== undefined && credit !== undefined ? undefined : (find('jumlah', 'nominal', 'amount', 'mutasi') ?? 2),
+    debit: debit !== undefined && credit !== undefined ? debit : undefined,
+    credit: debit !== undefined && credit !== undefined ? credit : undefined,
+    merchant: find('merchant', 'penerima', 'payee', 'toko'),
+  };
+};
+
+export const parseCsvRows = (table: string[][], mapping: CsvColumnMapping, hasHeader: boolean): ParseResult => {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+
+  table.slice(hasHeader ? 1 : 0).forEach((cells, idx) => {
+    const lineNo = idx + (hasHeader ? 2 : 1);
+    const date = parseIndonesianDate(cells[mapping.date] || '');
+    let signed: number | null = null;
+
+    if (mapping.debit !== undefined && mapping.credit !== undefined) {
+      const debit = parseIndonesianNumber(cells[mapping.debit] || '') || 0;
+      const credit = parseIndonesianNumber(cells[mapping.credit] || '') || 0;
+      signed = credit - Math.abs(debit);
+    } else if (mapping.amount !== undefined) {
+      signed = parseIndonesianNumber(cells[mapping.amount] || '');
+    }
+
+    if (!date) { errors.push(`Baris ${lineNo}: tanggal tidak terbaca`); return; }
+    if (signed === null || signed === 0) { errors.push(`Baris ${lineNo}: nominal tidak terbaca`); return; }
+
+    rows.push({
+      date,
+      amount: Math.abs(signed),
+      type: signed > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+      description: cells[mapping.description] || '',
+      merchant: mapping.merchant !== undefined ? cells[mapping.merchant] || undefined : undefined,
+    });
+  });
+
+  return { rows, errors };
+};
+
+// --- OFX (SGML or XML flavour) ---
+
+const ofxTag = (block: string, tag: string) => {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : '';
+};
+
+export const parseOfx = (content: string): ParseResult => {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  blocks.forEach((raw, idx) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const date = parseIndonesianDate(ofxTag(block, 'DTPOSTED'));
+    // OFX amounts always use a dot as decimal separator
+    const amount = parseFloat(ofxTag(block, 'TRNAMT').replace(',', '.'));
+    if (!date || isNaN(amount) || amount === 0) {
+      errors.push(`Transaksi ${idx + 1}: data tidak lengkap`);
+      return;
+    }
+    const name = ofxTag(block, 'NAME');
+    const memo = ofxTag(block, 'MEMO');
+    rows.push({
+      date,
+      amount: Math.abs(amount),
+      type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+      description: memo || name,
+      merchant: name || undefined,
+    });
+  });
+
+  return { rows, errors };
+};
+
+// --- QIF ---
+
+export const parseQif = (content: string): ParseResult => {
+  const rows: StatementRow[] = [];
+  const errors: string[] = [];
+  let current: Record<string, string> = {};
+  let count = 0;
+
+  const flush = () => {
+    if (Object.keys(current).length === 0) return;
+    count++;
+    const date = parseIndonesianDate(current.D || '');
+    const amount = parseIndonesianNumber(current.T || current.U || '');
+    if (!date || amount === null || amount === 0) {
+      errors.push(`Transaksi ${count}: data tidak lengkap`);
+    } else {
+      rows.push({
+        date,
+        amount: Math.abs(amount),
+        type: amount > 0 ? TransactionType.INCOME : TransactionType.EXPENSE,
+        description: current.M || current.P || '',
+        merchant: current.P || undefined,
+      });
+    }
+    current = {};
+  };
+
+  content.split(/\r?\n/).forEach(line => {
+    if (!line || line.startsWith('!')) return;
+    if (line.startsWith('^')) { flush(); return; }
+    const code = line[0];
+    if (!current[code]) current[code] = line.slice(1).trim();
+  });
+  flush();
+
+  return { rows, errors };
+};
+
+// --- Duplicate detection ---
+
+const DUPLICATE_DAY_TOLERANCE = 2;
+
+// An existing transaction in the same account with the same amount and direction, booked within
+// a couple of days (banks often post a day or two after the purchase) is a likely duplicate.
+export const findLikelyDuplicate = (row: StatementRow, accountId: string, existing: Transaction[]): Transaction | undefined => {
+  const rowTime = parseDate(row.date).getTime();
+  return existing.find(t =>
+    t.accountId === accountId &&
+    t.type === row.type &&
+    Math.abs(t.amount - row.amount) < 0.01 &&
+    Math.abs(parseDate(t.date).getTime() - rowTime) <= DUPLICATE_DAY_TOLERANCE * 24 * 3600 * 1000
+  );
+};
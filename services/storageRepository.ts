@@ -0,0 +1,391 @@
+import { DEFAULT_WORKSPACE_ID, getActiveWorkspace, listWorkspaces } from './workspaceService';
+import { Transaction, Invoice, Account, RecurringTransaction, CategoryRule, Budget, Debt, BusinessProfile, RetentionPolicy, SyncState, CloudProviderId, WebDavConfig, S3Config, UserProfile, AuditEntry, TrashItem, CategoryRecord } from '../types';
+import { LegacyData, LEGACY_DATA_KEYS, MigratedData, VersionedData } from './migrationService';
+
+// Everything except transactions is small and stored as a single value per key
+export interface StoredValues {
+  invoices: Invoice[];
+  accounts: Account[];
+  categories: CategoryRecord[];
+  expenseCategories: NonNullable<LegacyData['expenseCategories']>; // Only read to migrate them, see migrationService
+  incomeCategories: NonNullable<LegacyData['incomeCategories']>;
+  categoryParents: NonNullable<LegacyData['categoryParents']>;
+  recurring: RecurringTransaction[];
+  categoryRules: CategoryRule[];
+  budgets: Budget[];
+  debts: Debt[];
+  trash: TrashItem[]; // Deleted transactions and invoices, see trashService
+  invoiceProfile: BusinessProfile;
+  gdriveClientId: string;
+  gdriveApiKey: string;
+  lastSync: string; // Human readable. Google Drive only, from before cloudLastSync
+  lastSyncTs: number;
+  cloudProvider: CloudProviderId;
+  cloudLastSync: Partial<Record<CloudProviderId, number>>; // Last successful backup or sync per provider
+  webdavConfig: WebDavConfig;
+  s3Config: S3Config;
+  // Empty or missing means backups are exported unencrypted. Kept in plain text next to the data so
+  // automatic backups can be encrypted; it protects backup files that leave the device, not this database.
+  backupPassphrase: string;
+  snapshotRetention: RetentionPolicy;
+  syncEnabled: boolean;
+  syncState: SyncState;
+  users: UserProfile[]; // Only read to gather them into the device profiles, see loadUsers
+  autoLockMinutes: number; // 0 turns auto-lock off
+  schemaVersion: number; // See migrationService
+  migratedFromLocalStorage: boolean;
+}
+
+export type StorageKey = keyof StoredValues;
+
+// Transactions can be looked up by these fields without loading the whole store.
+// Split transactions are indexed under their primary (first line) category.
+export type TransactionIndex = 'date' | 'accountId' | 'categoryId';
+
+export interface StorageRepository {
+  getAllTransactions(): Promise<Transaction[]>;
+  queryTransactions(index: TransactionIndex, query: IDBValidKey | IDBKeyRange): Promise<Transaction[]>;
+  // Upserts and deletes in one atomic write
+  applyTransactionChanges(put: Transaction[], removeIds: string[]): Promise<void>;
+  // The audit log only grows: there is no way to change or drop single entries
+  appendAuditEntries(entries: AuditEntry[]): Promise<void>;
+  getAuditLog(): Promise<AuditEntry[]>;
+  getValue<K extends StorageKey>(key: K): Promise<StoredValues[K] | undefined>;
+  setValue<K extends StorageKey>(key: K, value: StoredValues[K]): Promise<void>;
+  // Drops all data and settings. The audit log stays, so a reset can't hide who did what.
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'letsfinance';
+const DB_VERSION = 3; // 2 added the audit store, 3 indexes categoryId instead of the category name
+
+// Every workspace has its own database. The default one keeps the original name, so data
+// from before workspaces stays where it is.
+const databaseName = (workspaceId: string) => (workspaceId === DEFAULT_WORKSPACE_ID ? DB_NAME : `${DB_NAME}_${workspaceId}`);
+
+// Same idea for the localStorage fallback: other workspaces prefix every key
+const localStoragePrefix = (workspaceId: string) => (workspaceId === DEFAULT_WORKSPACE_ID ? '' : `ws_${workspaceId}:`);
+const TX_STORE = 'transactions';
+const KV_STORE = 'keyval';
+const AUDIT_STORE = 'audit';
+
+// --- Legacy localStorage layout (before IndexedDB) ---
+
+const LEGACY_TRANSACTIONS_KEY = 'letsfinance_transactions';
+
+const LEGACY_KEYS: Record<Exclude<StorageKey, 'migratedFromLocalStorage'>, string> = {
+  invoices: 'letsfinance_invoices',
+  accounts: 'letsfinance_accounts',
+  categories: 'letsfinance_categories',
+  expenseCategories: 'letsfinance_exp_categories',
+  incomeCategories: 'letsfinance_inc_categories',
+  categoryParents: 'letsfinance_category_parents',
+  recurring: 'letsfinance_recurring',
+  categoryRules: 'letsfinance_category_rules',
+  budgets: 'letsfinance_budgets',
+  debts: 'letsfinance_debts',
+  trash: 'letsfinance_trash',
+  invoiceProfile: 'letsfinance_invoice_profile',
+  gdriveClientId: 'gdrive_client_id',
+  gdriveApiKey: 'gdrive_api_key',
+  lastSync: 'letsfinance_last_sync',
+  lastSyncTs: 'letsfinance_last_sync_ts',
+  cloudProvider: 'letsfinance_cloud_provider',
+  cloudLastSync: 'letsfinance_cloud_last_sync',
+  webdavConfig: 'letsfinance_webdav_config',
+  s3Config: 'letsfinance_s3_config',
+  schemaVersion: 'letsfinance_schema_version',
+  backupPassphrase: 'letsfinance_backup_passphrase',
+  snapshotRetention: 'letsfinance_snapshot_retention',
+  syncEnabled: 'letsfinance_sync_enabled',
+  syncState: 'letsfinance_sync_state',
+  users: 'letsfinance_users',
+  autoLockMinutes: 'letsfinance_auto_lock_minutes',
+};
+
+// These were written as plain strings, not JSON
+const RAW_STRING_KEYS: StorageKey[] = ['gdriveClientId', 'gdriveApiKey', 'lastSync', 'backupPassphrase'];
+
+const readLegacy = <K extends StorageKey>(key: K, prefix = ''): StoredValues[K] | undefined => {
+  const legacyKey = key === 'migratedFromLocalStorage' ? null : LEGACY_KEYS[key as keyof typeof LEGACY_KEYS];
+  const raw = legacyKey ? localStorage.getItem(prefix + legacyKey) : null;
+  if (raw === null) return undefined;
+  if (RAW_STRING_KEYS.includes(key)) return raw as StoredValues[K];
+  if (key === 'lastSyncTs') return Number(raw) as StoredValues[K];
+  return JSON.parse(raw);
+};
+
+const writeLegacy = <K extends StorageKey>(key: K, value: StoredValues[K], prefix = '') => {
+  if (key === 'migratedFromLocalStorage') return;
+  const legacyKey = LEGACY_KEYS[key as keyof typeof LEGACY_KEYS];
+  localStorage.setItem(prefix + legacyKey, RAW_STRING_KEYS.includes(key) || key === 'lastSyncTs' ? String(value) : JSON.stringify(value));
+};
+
+const matchesQuery = (value: unknown, query: IDBValidKey | IDBKeyRange) => {
+  if (typeof IDBKeyRange !== 'undefined' && query instanceof IDBKeyRange) return value !== undefined && query.includes(value);
+  return value === query;
+};
+
+// --- IndexedDB backend ---
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(TX_STORE)) {
+      const store = db.createObjectStore(TX_STORE, { keyPath: 'id' });
+      store.createIndex('date', 'date');
+      store.createIndex('accountId', 'accountId');
+    }
+    const txStore = request.transaction!.objectStore(TX_STORE);
+    if (txStore.indexNames.contains('category')) txStore.deleteIndex('category');
+    if (!txStore.indexNames.contains('categoryId')) txStore.createIndex('categoryId', 'categoryId');
+    if (!db.objectStoreNames.contains(KV_STORE)) db.createObjectStore(KV_STORE);
+    if (!db.objectStoreNames.contains(AUDIT_STORE)) db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const createIndexedDbRepository = (db: IDBDatabase): StorageRepository => ({
+  getAllTransactions: () =>
+    requestToPromise(db.transaction(TX_STORE, 'readonly').objectStore(TX_STORE).getAll() as IDBRequest<Transaction[]>),
+
+  queryTransactions: (index, query) =>
+    requestToPromise(db.transaction(TX_STORE, 'readonly').objectStore(TX_STORE).index(index).getAll(query) as IDBRequest<Transaction[]>),
+
+  applyTransactionChanges: async (put, removeIds) => {
+    if (put.length === 0 && removeIds.length === 0) return;
+    const tx = db.transaction(TX_STORE, 'readwrite');
+    const store = tx.objectStore(TX_STORE);
+    removeIds.forEach(id => store.delete(id));
+    put.forEach(t => store.put(t));
+    await transactionDone(tx);
+  },
+
+  appendAuditEntries: async (entries) => {
+    if (entries.length === 0) return;
+    const tx = db.transaction(AUDIT_STORE, 'readwrite');
+    const store = tx.objectStore(AUDIT_STORE);
+    entries.forEach(entry => store.add(entry));
+    await transactionDone(tx);
+  },
+
+  getAuditLog: () =>
+    requestToPromise(db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE).getAll() as IDBRequest<AuditEntry[]>),
+
+  getValue: (key) => requestToPromise(db.transaction(KV_STORE, 'readonly').objectStore(KV_STORE).get(key)),
+
+  setValue: async (key, value) => {
+    const tx = db.transaction(KV_STORE, 'readwrite');
+    tx.objectStore(KV_STORE).put(value, key);
+    await transactionDone(tx);
+  },
+
+  clear: async () => {
+    const tx = db.transaction([TX_STORE, KV_STORE], 'readwrite');
+    tx.objectStore(TX_STORE).clear();
+    tx.objectStore(KV_STORE).clear();
+    await transactionDone(tx);
+  },
+});
+
+// --- localStorage backend, only used when IndexedDB is not available (e.g. some private modes) ---
+
+const AUDIT_LOG_KEY = 'letsfinance_audit_log';
+
+const createLocalStorageRepository = (prefix = ''): StorageRepository => {
+  const transactionsKey = prefix + LEGACY_TRANSACTIONS_KEY;
+  const readTransactions = (): Transaction[] => JSON.parse(localStorage.getItem(transactionsKey) || '[]');
+  const auditKey = prefix + AUDIT_LOG_KEY;
+  const readAuditLog = (): AuditEntry[] => JSON.parse(localStorage.getItem(auditKey) || '[]');
+
+  return {
+    getAllTransactions: async () => readTransactions(),
+    queryTransactions: async (index, query) => readTransactions().filter(t => matchesQuery(t[index], query)),
+    applyTransactionChanges: async (put, removeIds) => {
+      const byId = new Map(readTransactions().map(t => [t.id, t]));
+      removeIds.forEach(id => byId.delete(id));
+      put.forEach(t => byId.set(t.id, t));
+      localStorage.setItem(transactionsKey, JSON.stringify(Array.from(byId.values())));
+    },
+    appendAuditEntries: async (entries) => {
+      if (entries.length > 0) localStorage.setItem(auditKey, JSON.stringify([...readAuditLog(), ...entries]));
+    },
+    getAuditLog: async () => readAuditLog(),
+    getValue: async (key) => readLegacy(key, prefix),
+    setValue: async (key, value) => writeLegacy(key, value, prefix),
+    clear: async () => {
+      [LEGACY_TRANSACTIONS_KEY, ...Object.values(LEGACY_KEYS)].forEach(k => localStorage.removeItem(prefix + k));
+    },
+  };
+};
+
+// --- One-time migration of the legacy letsfinance_* keys ---
+
+const migrateFromLocalStorage = async (repo: StorageRepository) => {
+  if (await repo.getValue('migratedFromLocalStorage')) return;
+  const migrated: string[] = [];
+
+  const legacyTx = localStorage.getItem(LEGACY_TRANSACTIONS_KEY);
+  if (legacyTx !== null) {
+    // Unreadable data stays in localStorage instead of being dropped
+    try {
+      await repo.applyTransactionChanges(JSON.parse(legacyTx), []);
+      migrated.push(LEGACY_TRANSACTIONS_KEY);
+    } catch (e) { console.error("Failed to migrate transactions", e); }
+  }
+
+  for (const key of Object.keys(LEGACY_KEYS) as (keyof typeof LEGACY_KEYS)[]) {
+    try {
+      const value = readLegacy(key);
+      if (value === undefined) continue;
+      await repo.setValue(key, value);
+      migrated.push(LEGACY_KEYS[key]);
+    } catch (e) { console.error(`Failed to migrate ${key}`, e); }
+  }
+
+  await repo.setValue('migratedFromLocalStorage', true);
+  // Only drop the old copies once they are safely stored in IndexedDB
+  migrated.forEach(k => localStorage.removeItem(k));
+};
+
+// Falls back to localStorage when IndexedDB can't be opened. close() releases the database.
+const openRepository = async (workspaceId: string): Promise<{ repo: StorageRepository; close: () => void }> => {
+  const fallback = () => ({ repo: createLocalStorageRepository(localStoragePrefix(workspaceId)), close: () => {} });
+  if (typeof indexedDB === 'undefined') return fallback();
+  try {
+    const db = await openDatabase(databaseName(workspaceId));
+    const repo = createIndexedDbRepository(db);
+    if (workspaceId === DEFAULT_WORKSPACE_ID) await migrateFromLocalStorage(repo);
+    return { repo, close: () => db.close() };
+  } catch (e) {
+    console.error("IndexedDB unavailable, using localStorage", e);
+    return fallback();
+  }
+};
+
+let repositoryPromise: Promise<StorageRepository> | null = null;
+
+// The active workspace's repository, opened once per page load. Switching workspaces reloads
+// the page, so everything written during this load goes to the workspace it started with.
+export const getRepository = (): Promise<StorageRepository> => {
+  if (!repositoryPromise) {
+    repositoryPromise = openRepository(getActiveWorkspace().id).then(({ repo }) => repo);
+  }
+  return repositoryPromise;
+};
+
+// Setup that a new workspace can take over from an existing one. Account balances, budgets
+// and everything recorded (transactions, invoices, debts) stay behind, as does sync progress.
+// Secrets stay behind too: the backup passphrase and cloud passwords are entered again.
+const WORKSPACE_SETTINGS_KEYS = [
+  'accounts', 'categories', 'categoryRules', 'invoiceProfile',
+  'gdriveClientId', 'gdriveApiKey', 'cloudProvider', 'webdavConfig', 's3Config', 'snapshotRetention',
+  'autoLockMinutes',
+  ...LEGACY_DATA_KEYS, // Left over, or still in use when the source workspace wasn't opened since an update
+  'schemaVersion', // Migrations run on the copied values as they would have in the source workspace
+] as const;
+
+const copiedSetting = <K extends StorageKey>(key: K, value: StoredValues[K]): StoredValues[K] => {
+  if (key === 'accounts') return (value as Account[]).map(a => ({ ...a, initialBalance: 0 })) as StoredValues[K];
+  if (key === 'webdavConfig') return { ...(value as WebDavConfig), password: '' } as StoredValues[K];
+  if (key === 's3Config') return { ...(value as S3Config), secretAccessKey: '' } as StoredValues[K];
+  return value;
+};
+
+export const copyWorkspaceSettings = async (fromWorkspaceId: string, toWorkspaceId: string) => {
+  const source = await openRepository(fromWorkspaceId);
+  const target = await openRepository(toWorkspaceId);
+  try {
+    for (const key of WORKSPACE_SETTINGS_KEYS) {
+      const value = await source.repo.getValue(key);
+      if (value === undefined) continue;
+      await target.repo.setValue(key, copiedSetting(key, value));
+    }
+  } finally {
+    source.close();
+    target.close();
+  }
+};
+
+// Must not be the workspace of this page load: deleting an open database waits until it closes.
+// The workspace goes away as a whole, its audit log included.
+export const deleteWorkspaceData = async (workspaceId: string) => {
+  await createLocalStorageRepository(localStoragePrefix(workspaceId)).clear();
+  localStorage.removeItem(localStoragePrefix(workspaceId) + AUDIT_LOG_KEY);
+  if (typeof indexedDB === 'undefined') return;
+  await requestToPromise(indexedDB.deleteDatabase(databaseName(workspaceId)));
+};
+
+// --- Profiles ---
+
+// Profiles lock the device, not one workspace: a workspace without profiles of its own would open
+// with full access and could manage or delete the others. Kept next to the workspace registry.
+const USERS_KEY = 'letsfinance_device_users';
+
+export const saveUsers = (users: UserProfile[]) => localStorage.setItem(USERS_KEY, JSON.stringify(users));
+
+// Empty means the app is never locked. The first load after profiles became device-wide gathers
+// the ones every workspace had stored for itself.
+export const loadUsers = async (): Promise<UserProfile[]> => {
+  const stored = localStorage.getItem(USERS_KEY);
+  if (stored !== null) return JSON.parse(stored);
+
+  const byId = new Map<string, UserProfile>();
+  for (const workspace of listWorkspaces()) {
+    const { repo, close } = await openRepository(workspace.id);
+    try {
+      ((await repo.getValue('users')) || []).forEach(u => { if (!byId.has(u.id)) byId.set(u.id, u); });
+    } finally {
+      close();
+    }
+  }
+  const users = Array.from(byId.values());
+  saveUsers(users);
+  return users;
+};
+
+export const loadValue = async <K extends StorageKey>(key: K) => (await getRepository()).getValue(key);
+
+export const saveValue = async <K extends StorageKey>(key: K, value: StoredValues[K]) => (await getRepository()).setValue(key, value);
+
+// Records that were added or replaced (immutable updates give them a new identity) and ids that are gone
+export const diffById = <T extends { id: string }>(persisted: Map<string, T>, next: T[]) => {
+  const put = next.filter(item => persisted.get(item.id) !== item);
+  const nextIds = new Set(next.map(item => item.id));
+  const remove = Array.from(persisted.keys()).filter(id => !nextIds.has(id));
+  return { put, remove };
+};
+
+// Stored collections that belong to AppData besides transactions
+const DATA_KEYS = ['invoices', 'accounts', 'categories', 'recurring', 'categoryRules', 'budgets', 'debts'] as const;
+
+// Everything as stored, collections that were never saved stay undefined
+export const readAppData = async (repo: StorageRepository): Promise<VersionedData> => {
+  const data: VersionedData = { transactions: await repo.getAllTransactions(), trash: await repo.getValue('trash') };
+  for (const key of DATA_KEYS) data[key] = (await repo.getValue(key)) as never;
+  for (const key of LEGACY_DATA_KEYS) data[key] = (await repo.getValue(key)) as never;
+  return data;
+};
+
+// Writes what changed between two versions of the data, e.g. after a schema migration
+export const writeAppData = async (repo: StorageRepository, previous: MigratedData, next: MigratedData) => {
+  const { put, remove } = diffById<Transaction>(new Map((previous.transactions || []).map(t => [t.id, t])), next.transactions || []);
+  await repo.applyTransactionChanges(put, remove);
+  for (const key of DATA_KEYS) {
+    if (next[key] !== undefined && next[key] !== previous[key]) await repo.setValue(key, next[key] as never);
+  }
+  if (next.trash !== undefined && next.trash !== previous.trash) await repo.setValue('trash', next.trash);
+};
@@ -0,0 +1,319 @@
+import { AppData, SyncState, RecordSyncMeta } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateData, UnsupportedSchemaError, VersionedData } from './migrationService';
+import { encryptBackup, decryptBackup, isEncryptedBackup, BackupDecryptionError } from './backupCrypto';
+import { hashString } from './hashService';
+
+// Record-level sync between devices through one shared document.
+// Every record has a content hash; the hash both sides agreed on at the last sync is the base
+// of a three-way merge, so only the side that changed since then wins. When both changed the
+// record is reported as a conflict and left alone until the user picks a version.
+// Without a base (the first sync of a device) records with the same hash are already merged, and
+// a record this device never changed, like the seed accounts and categories, takes the remote version.
+
+export interface SyncTransport {
+  // Current document with an opaque revision, null when nothing was synced yet
+  read(): Promise<{ content: string; revision: string } | null>;
+  // Must throw SyncRevisionError when the stored revision is no longer expectedRevision.
+  // Returns the new revision.
+  write(content: string, expectedRevision: string | null): Promise<string>;
+}
+
+// Another device wrote in between our read and write. The whole sync is retried.
+export class SyncRevisionError extends Error {}
+
+export type SyncEntity = keyof AppData;
+
+export type SyncStatus =
+  | { state: 'IDLE' | 'SYNCING' | 'OFFLINE' }
+  | { state: 'OK' | 'CONFLICT'; at: string; pushed: number; pulled: number }
+  | { state: 'ERROR'; message: string };
+
+export interface RecordChange {
+  entity: SyncEntity;
+  id: string;
+  value: unknown | null; // null removes the record
+}
+
+export interface SyncConflict {
+  key: string;
+  entity: SyncEntity;
+  id: string;
+  local: unknown | null; // null when deleted on that side
+  remote: unknown | null;
+  localUpdatedAt: string;
+  remoteUpdatedAt: string;
+  remoteHash: string;
+}
+
+export interface SyncResult {
+  state: SyncState;
+  changes: RecordChange[]; // Remote changes to apply to the local books
+  conflicts: SyncConflict[];
+  pushed: number;
+  pulled: number;
+}
+
+interface RemoteRecord {
+  hash: string;
+  updatedAt: string;
+  deviceId: string;
+  data?: unknown;
+}
+
+interface SyncDocument {
+  format: 'letsfinance-sync';
+  schemaVersion: number;
+  updatedAt: string;
+  records: Record<string, RemoteRecord>;
+}
+
+export const DELETED = 'DELETED';
+
+const ENTITIES: SyncEntity[] = ['transactions', 'invoices', 'accounts', 'categories', 'recurring', 'categoryRules', 'budgets', 'debts'];
+
+const MAX_ATTEMPTS = 3;
+
+export const createSyncState = (): SyncState => ({
+  deviceId: typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  records: {},
+});
+
+const recordKey = (entity: SyncEntity, id: string) => `${entity}:${id}`;
+
+const parseKey = (key: string) => {
+  const separator = key.indexOf(':');
+  return { entity: key.slice(0, separator) as SyncEntity, id: key.slice(separator + 1) };
+};
+
+// Key order differs between devices for the same content, so keys are sorted before hashing
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort()
+      .filter(k => record[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify(record[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Records are updated immutably, so an unchanged object never needs hashing twice
+const hashCache = new WeakMap<object, string>();
+
+const hashRecord = (value: unknown) => {
+  if (typeof value !== 'object' || value === null) return hashString(stableStringify(value));
+  let hash = hashCache.get(value);
+  if (!hash) {
+    hash = hashString(stableStringify(value));
+    hashCache.set(value, hash);
+  }
+  return hash;
+};
+
+const collectRecords = (data: Partial<AppData>) => {
+  const records = new Map<string, unknown>();
+  ENTITIES.forEach(entity => {
+    const items: { id: string }[] | undefined = data[entity];
+    items?.forEach(item => {
+      records.set(recordKey(entity, item.id), item);
+    });
+  });
+  return records;
+};
+
+// Stamp records that changed since the last call with a fresh timestamp and turn records
+// that disappeared into tombstones, so the deletion reaches the other devices.
+export const trackLocalChanges = (state: SyncState, data: AppData, now: string = new Date().toISOString()): SyncState => {
+  const current = collectRecords(data);
+  const records = { ...state.records };
+  let changed = false;
+
+  current.forEach((value, key) => {
+    const hash = hashRecord(value);
+    if (records[key]?.hash === hash) return;
+    records[key] = records[key] ? { ...records[key], hash, updatedAt: now } : { hash, updatedAt: now, firstHash: hash };
+    changed = true;
+  });
+  Object.keys(records).forEach(key => {
+    if (current.has(key) || records[key].hash === DELETED) return;
+    records[key] = { ...records[key], hash: DELETED, updatedAt: now };
+    changed = true;
+  });
+
+  return changed ? { ...state, records } : state;
+};
+
+// --- Document encoding ---
+
+const encodeDocument = async (doc: SyncDocument, passphrase?: string) => {
+  const json = JSON.stringify(doc);
+  return passphrase ? encryptBackup(json, passphrase) : json;
+};
+
+// Records written by an older schema are run through the same migrations as backups. Records of
+// collections a migration replaced are dropped and the ones it created are added (categories were
+// plain names before v3).
+const migrateDocument = (doc: SyncDocument, deviceId: string): SyncDocument => {
+  if (doc.schemaVersion > CURRENT_SCHEMA_VERSION) throw new UnsupportedSchemaError(doc.schemaVersion);
+  if (doc.schemaVersion === CURRENT_SCHEMA_VERSION) return doc;
+
+  const data: Record<string, unknown[]> = {};
+  Object.entries(doc.records).forEach(([key, record]) => {
+    if (record.hash === DELETED) return;
+    (data[parseKey(key).entity] ||= []).push(record.data);
+  });
+  const migrated = collectRecords(migrateData(data as VersionedData, doc.schemaVersion));
+
+  const records: Record<string, RemoteRecord> = {};
+  Object.entries(doc.records).forEach(([key, record]) => {
+    if (!ENTITIES.includes(parseKey(key).entity)) return;
+    records[key] = migrated.has(key) ? { ...record, data: migrated.get(key) } : record;
+  });
+  migrated.forEach((value, key) => {
+    if (!records[key]) records[key] = { hash: hashRecord(value), updatedAt: doc.updatedAt, deviceId, data: value };
+  });
+  return { ...doc, schemaVersion: CURRENT_SCHEMA_VERSION, records };
+};
+
+const decodeDocument = async (content: string, deviceId: string, passphrase?: string): Promise<SyncDocument> => {
+  if (isEncryptedBackup(content)) {
+    if (!passphrase) throw new BackupDecryptionError("Data sinkronisasi terenkripsi. Atur passphrase yang sama di Pengaturan.");
+    content = await decryptBackup(content, passphrase);
+  }
+  const doc: SyncDocument = JSON.parse(content);
+  if (doc.format !== 'letsfinance-sync') throw new Error("Dokumen sinkronisasi tidak dikenal.");
+  return migrateDocument(doc, deviceId);
+};
+
+// --- Sync ---
+
+interface SyncOptions {
+  transport: SyncTransport;
+  data: AppData;
+  state: SyncState;
+  passphrase?: string;
+  now?: string;
+}
+
+const syncAttempt = async ({ transport, data, state, passphrase, now = new Date().toISOString() }: SyncOptions): Promise<SyncResult> => {
+  const tracked = trackLocalChanges(state, data, now);
+  const local = collectRecords(data);
+  const remote = await transport.read();
+  const doc: SyncDocument = remote
+    ? await decodeDocument(remote.content, state.deviceId, passphrase)
+    : { format: 'letsfinance-sync', schemaVersion: CURRENT_SCHEMA_VERSION, updatedAt: now, records: {} };
+
+  const records: Record<string, RecordSyncMeta> = { ...tracked.records };
+  const remoteRecords: Record<string, RemoteRecord> = { ...doc.records };
+  const changes: RecordChange[] = [];
+  const conflicts: SyncConflict[] = [];
+  let pushed = 0;
+  let pulled = 0;
+
+  const push = (key: string, mine: RecordSyncMeta) => {
+    remoteRecords[key] = { hash: mine.hash, updatedAt: mine.updatedAt, deviceId: state.deviceId, data: mine.hash === DELETED ? undefined : local.get(key) };
+    records[key] = { ...mine, syncedHash: mine.hash };
+    pushed++;
+  };
+  const pull = (key: string, theirs: RemoteRecord) => {
+    const { entity, id } = parseKey(key);
+    const hadLocal = records[key] && records[key].hash !== DELETED;
+    if (theirs.hash !== DELETED || hadLocal) {
+      changes.push({ entity, id, value: theirs.hash === DELETED ? null : theirs.data });
+      pulled++;
+    }
+    records[key] = { hash: theirs.hash, updatedAt: theirs.updatedAt, syncedHash: theirs.hash };
+  };
+
+  new Set([...Object.keys(records), ...Object.keys(doc.records)]).forEach(key => {
+    const mine = records[key];
+    const theirs = doc.records[key];
+    if (!theirs) return push(key, mine);
+    if (!mine) return pull(key, theirs);
+    if (mine.hash === theirs.hash) {
+      records[key] = { ...mine, syncedHash: mine.hash };
+      return;
+    }
+
+    const untouched = mine.syncedHash === undefined && mine.hash === mine.firstHash;
+    const localChanged = !untouched && mine.hash !== mine.syncedHash;
+    const remoteChanged = theirs.hash !== mine.syncedHash;
+    if (localChanged && !remoteChanged) return push(key, mine);
+    if (!localChanged && remoteChanged) return pull(key, theirs);
+
+    const { entity, id } = parseKey(key);
+    conflicts.push({
+      key, entity, id,
+      local: mine.hash === DELETED ? null : local.get(key) ?? null,
+      remote: theirs.hash === DELETED ? null : theirs.data ?? null,
+      localUpdatedAt: mine.updatedAt,
+      remoteUpdatedAt: theirs.updatedAt,
+      remoteHash: theirs.hash,
+    });
+  });
+
+  if (pushed > 0 || !remote) {
+    const next: SyncDocument = { ...doc, schemaVersion: CURRENT_SCHEMA_VERSION, updatedAt: now, records: remoteRecords };
+    await transport.write(await encodeDocument(next, passphrase), remote?.revision ?? null);
+  }
+
+  return { state: { ...tracked, records, lastSyncedAt: now }, changes, conflicts, pushed, pulled };
+};
+
+export const runSync = async (options: SyncOptions): Promise<SyncResult> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await syncAttempt(options);
+    } catch (e) {
+      if (!(e instanceof SyncRevisionError) || attempt >= MAX_ATTEMPTS) throw e;
+    }
+  }
+};
+
+// Picking a side turns the conflict into a one-sided change that the next sync carries over
+export const resolveConflict = (state: SyncState, conflict: SyncConflict, keep: 'LOCAL' | 'REMOTE'): { state: SyncState; change?: RecordChange } => {
+  const records = { ...state.records };
+  if (keep === 'LOCAL') {
+    records[conflict.key] = { ...records[conflict.key], syncedHash: conflict.remoteHash };
+    return { state: { ...state, records } };
+  }
+  records[conflict.key] = { hash: conflict.remoteHash, updatedAt: conflict.remoteUpdatedAt, syncedHash: conflict.remoteHash };
+  return { state: { ...state, records }, change: { entity: conflict.entity, id: conflict.id, value: conflict.remote } };
+};
+
+// Applies the changes for one collection, returning the same array when nothing applies
+export const applyRecordChanges = <T extends { id: string }>(entity: SyncEntity, items: T[], changes: RecordChange[]): T[] => {
+  const relevant = changes.filter(c => c.entity === entity);
+  if (relevant.length === 0) return items;
+
+  const byId = new Map(relevant.map(c => [c.id, c]));
+  const next = items
+    .filter(item => byId.get(item.id)?.value !== null)
+    .map(item => {
+      const change = byId.get(item.id);
+      return change ? (change.value as T) : item;
+    });
+  const existing = new Set(items.map(item => item.id));
+  relevant.forEach(c => {
+    if (c.value !== null && !existing.has(c.id)) next.push(c.value as T);
+  });
+  return next;
+};
+
+// In-memory transport with the same revision semantics as the real ones, for trying out
+// sync between simulated devices without a cloud account
+export const createMemoryTransport = (): SyncTransport & { content: string | null } => {
+  let revision = 0;
+  const transport = {
+    content: null as string | null,
+    read: async () => (transport.content === null ? null : { content: transport.content, revision: String(revision) }),
+    write: async (content: string, expectedRevision: string | null) => {
+      const current = transport.content === null ? null : String(revision);
+      if (current !== expectedRevision) throw new SyncRevisionError("Dokumen sinkronisasi berubah.");
+      transport.content = content;
+      revision++;
+      return String(revision);
+    },
+  };
+  return transport;
+};
@@ -0,0 +1,125 @@
+import { Transaction, TransactionType, TransactionFieldChange, TransactionRevision } from '../types';
+import { TRANSFER_FEE_CATEGORY_ID } from './categoryService';
+
+// Fields that are tracked in the edit history, with their display labels
+export const TRACKED_FIELDS: { key: keyof Transaction; label: string }[] = [
+  { key: 'date', label: 'Tanggal' },
+  { key: 'amount', label: 'Nominal' },
+  { key: 'type', label: 'Tipe' },
+  { key: 'categoryId', label: 'Kategori' },
+  { key: 'description', label: 'Catatan' },
+  { key: 'merchant', label: 'Merchant' },
+  { key: 'accountId', label: 'Akun' },
+  { key: 'toAccountId', label: 'Akun Tujuan' },
+  { key: 'fee', label: 'Biaya Admin' },
+  { key: 'splits', label: 'Rincian Kategori' },
+];
+
+// Revisions written before categories were referenced by id hold the name under 'category'
+const LEGACY_FIELD_LABELS: Record<string, string> = { category: 'Kategori' };
+
+export const getFieldLabel = (field: string) => {
+  return TRACKED_FIELDS.find(f => f.key === field)?.label || LEGACY_FIELD_LABELS[field] || field;
+};
+
+// Revisions store plain values, so structured fields are flattened to a readable string
+const serializeField = (t: Transaction, key: keyof Transaction): string | number | undefined => {
+  if (key === 'splits') {
+    return t.splits && t.splits.length > 0
+      ? t.splits.map(s => `${s.categoryId}: ${s.amount}`).join('; ')
+      : undefined;
+  }
+  return t[key] as string | number | undefined;
+};
+
+// Compare two versions of a transaction and list the tracked fields that changed
+export const diffTransactions = (before: Transaction, after: Transaction): TransactionFieldChange[] => {
+  const changes: TransactionFieldChange[] = [];
+  TRACKED_FIELDS.forEach(({ key }) => {
+    const from = serializeField(before, key);
+    const to = serializeField(after, key);
+    // Treat empty string and undefined as the same value (e.g. optional merchant)
+    if ((from ?? '') !== (to ?? '')) {
+      changes.push({ field: key, from, to });
+    }
+  });
+  return changes;
+};
+
+// Apply an edit to a transaction, appending a revision entry when something actually changed
+export const applyTransactionEdit = (before: Transaction, after: Transaction, actor: string): Transaction => {
+  const changes = diffTransactions(before, after);
+  if (changes.length === 0) return before;
+
+  const revision: TransactionRevision = {
+    id: Date.now().toString(),
+    timestamp: new Date().toISOString(),
+    actor,
+    changes,
+  };
+
+  return {
+    ...after,
+    id: before.id,
+    revisions: [...(before.revisions || []), revision],
+  };
+};
+
+// Transfers only move money between accounts; they are neither income nor expense
+export const isTransfer = (t: Transaction) => t.type === TransactionType.TRANSFER;
+
+// The admin fee of a transfer does leave the books, as an expense of the source account
+export const getTransferFeeExpense = (t: Transaction): Transaction | null => {
+  if (!isTransfer(t) || !t.fee) return null;
+  return {
+    id: `${t.id}:fee`,
+    date: t.date,
+    amount: t.fee,
+    type: TransactionType.EXPENSE,
+    categoryId: TRANSFER_FEE_CATEGORY_ID,
+    description: t.description ? `Biaya admin transfer: ${t.description}` : 'Biaya admin transfer',
+    merchant: t.merchant,
+    accountId: t.accountId,
+  };
+};
+
+// Income and expense only: transfers drop out and their fee takes their place, so income minus
+// expense always matches the change in the total balance
+export const excludeTransfers = (transactions: Transaction[]) =>
+  transactions.flatMap(t => {
+    if (!isTransfer(t)) return [t];
+    const fee = getTransferFeeExpense(t);
+    return fee ? [fee] : [];
+  });
+
+// Net effect of a single transaction on the balance of the given account
+export const getAccountDelta = (t: Transaction, accountId: string): number => {
+  if (isTransfer(t)) {
+    let delta = 0;
+    if (t.accountId === accountId) delta -= t.amount + (t.fee || 0);
+    if (t.toAccountId === accountId) delta += t.amount;
+    return delta;
+  }
+  if (t.accountId !== accountId) return 0;
+  return t.type === TransactionType.INCOME ? t.amount : -t.amount;
+};
+
+// Category breakdown of a transaction: its split lines, or the whole amount under its single category
+export const getCategoryLines = (t: Transaction): { categoryId: string; amount: number }[] => {
+  if (t.splits && t.splits.length > 0) {
+    return t.splits.map(s => ({ categoryId: s.categoryId, amount: s.amount }));
+  }
+  return [{ categoryId: t.categoryId, amount: t.amount }];
+};
+
+export const getCategoryIds = (t: Transaction) => getCategoryLines(t).map(l => l.categoryId);
+
+// Returns an error message when the split lines are incomplete or don't add up to the total
+export const validateSplits = (splits: { categoryId: string; amount: number }[], total: number): string | null => {
+  if (splits.length < 2) return "Rincian kategori minimal terdiri dari 2 baris.";
+  if (splits.some(s => !s.categoryId)) return "Setiap baris rincian harus memiliki kategori.";
+  if (splits.some(s => !(s.amount > 0))) return "Nominal setiap baris rincian harus lebih dari 0.";
+  const sum = splits.reduce((acc, s) => acc + s.amount, 0);
+  if (Math.abs(sum - total) > 0.001) return "Jumlah rincian kategori harus sama dengan total nominal.";
+  return null;
+};
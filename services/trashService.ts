@@ -0,0 +1,32 @@
+import { TrashItem, TrashedRecord } from '../types';
+
+// Deleted transactions and invoices wait here before they are gone for good
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_KIND_LABELS: Record<TrashItem['kind'], string> = {
+  TRANSACTION: 'Transaksi',
+  INVOICE: 'Invoice',
+};
+
+export const createTrashItems = (records: TrashedRecord[], deletedBy: string): TrashItem[] => {
+  const deletedAt = new Date().toISOString();
+  const base = Date.now();
+  return records.map((entry, i) => ({ ...entry, id: `${base}-${i}`, deletedAt, deletedBy }));
+};
+
+export const getPurgeDate = (item: TrashItem) => new Date(new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const getDaysLeft = (item: TrashItem, now = new Date()) =>
+  Math.max(0, Math.ceil((getPurgeDate(item).getTime() - now.getTime()) / DAY_MS));
+
+// Items past the retention period, split off so the caller can log what was dropped
+export const splitExpired = (trash: TrashItem[], now = new Date()) => ({
+  kept: trash.filter(item => getPurgeDate(item) > now),
+  expired: trash.filter(item => getPurgeDate(item) <= now),
+});
+
+// A record restored next to one with the same id (e.g. brought back by a backup restore) gets a new id
+export const withFreeId = <T extends { id: string }>(record: T, taken: Set<string>, suffix: string): T =>
+  taken.has(record.id) ? { ...record, id: `${record.id}-${suffix}` } : record;
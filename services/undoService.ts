@@ -0,0 +1,81 @@
+import { AppData, TrashItem } from '../types';
+import { AuditDraft, AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from './auditService';
+
+// Session-only undo/redo over the collections people edit by hand. A step keeps the collections
+// it touched as they were before and after; undoing applies the record-level difference back onto
+// the current data, so changes that arrived in between (sync, recurring posts) are left alone.
+
+// Older steps are dropped beyond this, every step holds a copy of the lists it touched
+export const UNDO_LIMIT = 30;
+
+export type UndoState = Pick<AppData, 'transactions' | 'invoices' | 'accounts' | 'categories' | 'recurring' | 'categoryRules' | 'budgets'> & {
+  trash: TrashItem[];
+};
+
+export type UndoKey = keyof UndoState;
+
+export const UNDO_KEYS: UndoKey[] = ['transactions', 'invoices', 'accounts', 'categories', 'recurring', 'categoryRules', 'budgets', 'trash'];
+
+export interface UndoStep {
+  id: string;
+  label: string;
+  before: Partial<UndoState>;
+  after: Partial<UndoState>;
+}
+
+export interface UndoHistory {
+  past: UndoStep[]; // Oldest first, the last one is undone next
+  future: UndoStep[]; // Undone steps, the last one is redone next
+}
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { past: [], future: [] };
+
+export const isUndoKey = (key: string): key is UndoKey => (UNDO_KEYS as string[]).includes(key);
+
+// Named after the audit entries of the same change, e.g. "Hapus Transaksi: 2024-05-01 • Kopi • Rp 20.000"
+export const describeUndoStep = (drafts: AuditDraft[]) => {
+  const [first] = drafts;
+  const title = `${AUDIT_ACTION_LABELS[first.action]} ${AUDIT_ENTITY_LABELS[first.entity]}`;
+  return drafts.length === 1 ? `${title}: ${first.summary}` : `${title} (${drafts.length} data)`;
+};
+
+// Null when nothing undoable changed
+export const createUndoStep = (label: string, before: UndoState, after: UndoState): UndoStep | null => {
+  const keys = UNDO_KEYS.filter(key => before[key] !== after[key]);
+  if (keys.length === 0) return null;
+  const pick = (state: UndoState) => Object.fromEntries(keys.map(key => [key, state[key]])) as Partial<UndoState>;
+  return { id: Date.now().toString(), label, before: pick(before), after: pick(after) };
+};
+
+// A new step makes the undone ones unreachable
+export const pushUndoStep = (history: UndoHistory, step: UndoStep): UndoHistory => ({
+  past: [...history.past, step].slice(-UNDO_LIMIT),
+  future: [],
+});
+
+const recordKey = (item: unknown) => (item as { id: string }).id;
+
+// Moves `current` the way `from` became `to`: records added there are added, removed ones removed,
+// changed ones replaced. Records nobody touched in this step keep their current version.
+export const applyStepChanges = <T>(current: T[], from: T[], to: T[]): T[] => {
+  if (current === from) return to;
+  const fromById = new Map(from.map(item => [recordKey(item), item]));
+  const toById = new Map(to.map(item => [recordKey(item), item]));
+  const kept = current
+    .filter(item => !fromById.has(recordKey(item)) || toById.has(recordKey(item)))
+    .map(item => {
+      const id = recordKey(item);
+      return fromById.has(id) && fromById.get(id) !== toById.get(id) ? toById.get(id)! : item;
+    });
+  const present = new Set(kept.map(recordKey));
+  const added = to.filter(item => !fromById.has(recordKey(item)) && !present.has(recordKey(item)));
+  return [...added, ...kept];
+};
+
+// The collections after undoing (or redoing) a step
+export const applyUndoStep = (current: UndoState, step: UndoStep, direction: 'UNDO' | 'REDO'): Partial<UndoState> => {
+  const [from, to] = direction === 'UNDO' ? [step.after, step.before] : [step.before, step.after];
+  return Object.fromEntries((Object.keys(to) as UndoKey[]).map(key =>
+    [key, applyStepChanges<unknown>(current[key], from[key]!, to[key]!)]
+  )) as Partial<UndoState>;
+};
@@ -0,0 +1,79 @@
+import { WebDavConfig } from '../types';
+import type { FileStore } from './cloudProviders';
+import { SyncRevisionError } from './syncService';
+
+// WebDAV file store (Nextcloud, ownCloud, ...). The server must allow CORS from this app's
+// origin and expose the ETag header, otherwise the browser hides the revisions sync relies on.
+
+const APP_FOLDER = 'letsfinance';
+
+export const createWebDavStore = (config: WebDavConfig): FileStore => {
+  const root = `${config.url.replace(/\/+$/, '')}/${APP_FOLDER}`;
+  const auth = { Authorization: 'Basic ' + btoa(String.fromCharCode(...new TextEncoder().encode(`${config.username}:${config.password}`))) };
+  const urlFor = (path: string) => `${root}/${path.split('/').map(encodeURIComponent).join('/')}`;
+  // Folders already created in this session, so each one is only sent MKCOL once
+  const readyFolders = new Set<string>();
+
+  const request = async (url: string, init: RequestInit = {}) =>
+    fetch(url, { ...init, headers: { ...auth, ...(init.headers as Record<string, string>) } });
+
+  const failed = (action: string, response: Response) =>
+    new Error(`WebDAV ${action} gagal (HTTP ${response.status}).`);
+
+  // MKCOL answers 405 when the folder already exists
+  const ensureFolders = async (path: string) => {
+    const folders = [root, ...path.split('/').slice(0, -1).map((_, i, parts) => urlFor(parts.slice(0, i + 1).join('/')))];
+    for (const folder of folders) {
+      if (readyFolders.has(folder)) continue;
+      const response = await request(folder, { method: 'MKCOL' });
+      if (!response.ok && response.status !== 405) throw failed('membuat folder', response);
+      readyFolders.add(folder);
+    }
+  };
+
+  // Without an ETag a later write can't be made conditional, so refuse to go on
+  const requireEtag = (etag: string | null) => {
+    if (!etag) throw new Error("Server WebDAV tidak mengirim ETag. Pastikan header ETag diizinkan lewat CORS (Access-Control-Expose-Headers).");
+    return etag;
+  };
+
+  const readEtag = async (url: string, response: Response) => {
+    const etag = response.headers.get('ETag');
+    if (etag) return etag;
+    const head = await request(url, { method: 'HEAD' });
+    return requireEtag(head.headers.get('ETag'));
+  };
+
+  return {
+    get: async (path) => {
+      const response = await request(urlFor(path), { cache: 'no-store' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw failed('membaca file', response);
+      return { content: await response.text(), etag: requireEtag(response.headers.get('ETag')) };
+    },
+
+    put: async (path, content, expectedEtag) => {
+      await ensureFolders(path);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (expectedEtag === null) headers['If-None-Match'] = '*';
+      else if (expectedEtag !== undefined) headers['If-Match'] = requireEtag(expectedEtag);
+
+      const url = urlFor(path);
+      const response = await request(url, { method: 'PUT', headers, body: content });
+      if (response.status === 412) throw new SyncRevisionError("File berubah di server.");
+      if (!response.ok) throw failed('menyimpan file', response);
+      return readEtag(url, response);
+    },
+
+    remove: async (path) => {
+      const response = await request(urlFor(path), { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw failed('menghapus file', response);
+    },
+
+    test: async () => {
+      const response = await request(config.url, { method: 'PROPFIND', headers: { Depth: '0' } });
+      if (response.status === 401) throw new Error("Username atau password WebDAV salah.");
+      if (!response.ok) throw failed('terhubung', response);
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { Workspace } from '../types';
+
+// The registry lives in localStorage: it is tiny and needed before any database is opened
+const WORKSPACES_KEY = 'letsfinance_workspaces';
+const ACTIVE_WORKSPACE_KEY = 'letsfinance_active_workspace';
+
+// Installations from before workspaces keep their data (and cloud files) in this one
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const saveWorkspaces = (workspaces: Workspace[]) => localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+
+export const listWorkspaces = (): Workspace[] => {
+  const stored: Workspace[] = JSON.parse(localStorage.getItem(WORKSPACES_KEY) || '[]');
+  if (stored.length > 0) return stored;
+  const initial: Workspace[] = [{ id: DEFAULT_WORKSPACE_ID, name: 'Bisnis Utama', createdAt: new Date().toISOString(), cloudFolder: '' }];
+  saveWorkspaces(initial);
+  return initial;
+};
+
+export const getActiveWorkspace = (): Workspace => {
+  const workspaces = listWorkspaces();
+  const activeId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  return workspaces.find(w => w.id === activeId) || workspaces[0];
+};
+
+const setActiveWorkspace = (id: string) => localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+
+// Reloads the app, so every part of it opens the other workspace's database from scratch
+export const switchWorkspace = (id: string) => {
+  setActiveWorkspace(id);
+  window.location.reload();
+};
+
+// Lower-case letters, digits and dashes, so it is safe as a folder name on every provider
+export const toCloudFolder = (name: string) =>
+  name.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+
+const uniqueCloudFolder = (name: string, workspaces: Workspace[]) => {
+  const base = toCloudFolder(name) || 'workspace';
+  let folder = base;
+  for (let n = 2; workspaces.some(w => w.cloudFolder === folder); n++) folder = `${base}-${n}`;
+  return folder;
+};
+
+export const createWorkspace = (name: string): Workspace => {
+  const workspaces = listWorkspaces();
+  const workspace: Workspace = {
+    id: Date.now().toString(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    cloudFolder: uniqueCloudFolder(name, workspaces),
+  };
+  saveWorkspaces([...workspaces, workspace]);
+  return workspace;
+};
+
+export const updateWorkspace = (id: string, changes: Partial<Pick<Workspace, 'name' | 'cloudFolder'>>) => {
+  saveWorkspaces(listWorkspaces().map(w => (w.id === id ? { ...w, ...changes } : w)));
+};
+
+// Registry entry only, the caller deletes the data (see deleteWorkspaceData)
+export const removeWorkspace = (id: string) => {
+  const remaining = listWorkspaces().filter(w => w.id !== id);
+  if (remaining.length === 0) throw new Error("Workspace terakhir tidak dapat dihapus.");
+  saveWorkspaces(remaining);
+  if (localStorage.getItem(ACTIVE_WORKSPACE_KEY) === id) setActiveWorkspace(remaining[0].id);
+};
@@ -0,0 +1,69 @@
+// Service worker template. The build (see vite.config.ts) replaces the two placeholders
+// below with a version derived from the emitted files and the list of files to precache.
+
+const VERSION = '__SW_VERSION__';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const PRECACHE = `letsfinance-precache-${VERSION}`;
+const RUNTIME = 'letsfinance-runtime';
+
+// Styling and fonts still come from CDNs. They are cached on install and refreshed in the
+// background afterwards, so the app keeps its look offline.
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Plus+Jakarta+Sans:wght@300;400;500;600;700&display=swap',
+];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const precache = await caches.open(PRECACHE);
+    await precache.addAll(PRECACHE_URLS);
+    // A missing CDN copy only costs styling, it must not block the install
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all(CDN_URLS.map(url => runtime.add(new Request(url, { mode: 'no-cors' })).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('letsfinance-precache-') && name !== PRECACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: the network when possible so updates arrive, the cached shell otherwise
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(async () => (await caches.match('/index.html', { cacheName: PRECACHE })) || Response.error()));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request)));
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+  // Everything else (Gemini, Google APIs, WebDAV, S3) goes straight to the network
+});
@@ -2,6 +2,7 @@
 export enum TransactionType {
   INCOME = 'Pemasukan',
   EXPENSE = 'Pengeluaran',
+  TRANSFER = 'Transfer',
 }
 
 // Default constants for initialization, but app will use dynamic state
@@ -21,6 +22,7 @@ export interface Account {
   name: string;
   type: 'CASH' | 'BANK' | 'E-WALLET';
   initialBalance: number;
+  archived?: boolean; // Hidden from pickers for new entries, still counted in reports and balances
 }
 
 export interface Transaction {
@@ -28,10 +30,110 @@ export interface Transaction {
   date: string;
   amount: number;
   type: TransactionType;
-  category: string;
+  categoryId: string; // Id of a CategoryRecord, or TRANSFER_CATEGORY_ID for transfers
   description: string;
   merchant?: string;
-  accountId?: string; // Optional for backward compatibility
+  accountId?: string; // Optional for backward compatibility. Source account for transfers
+  toAccountId?: string; // Destination account, only for transfers
+  fee?: number; // Admin fee charged to the source account, only for transfers
+  revisions?: TransactionRevision[]; // Edit history, oldest first
+  recurringId?: string; // Set when the transaction was auto-posted from a recurring template
+  splits?: TransactionSplit[]; // Optional breakdown across categories, lines sum to amount
+  debtId?: string; // Repayment of this receivable / payable
+}
+
+export interface TransactionSplit {
+  id: string;
+  categoryId: string;
+  amount: number;
+  note?: string;
+}
+
+export interface TransactionFieldChange {
+  field: string;
+  from: string | number | undefined;
+  to: string | number | undefined;
+}
+
+export interface TransactionRevision {
+  id: string;
+  timestamp: string; // ISO string
+  actor: string;
+  changes: TransactionFieldChange[];
+}
+
+export type RecurringFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'DAY_OF_MONTH';
+
+export interface RecurringTransaction {
+  id: string;
+  template: Omit<Transaction, 'id' | 'date' | 'revisions' | 'recurringId'>;
+  frequency: RecurringFrequency;
+  dayOfMonth?: number; // 1-31, only for DAY_OF_MONTH. Clamped to the last day in shorter months
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive. Open ended when empty
+  lastPostedDate?: string; // Date of the last materialized occurrence
+  active: boolean;
+}
+
+// RECEIVABLE = piutang (customers owe us), PAYABLE = hutang (we owe suppliers)
+export type DebtDirection = 'RECEIVABLE' | 'PAYABLE';
+
+// A credit sale or purchase. Repayments are regular transactions carrying `debtId`,
+// so the paid amount is always derived from the transaction list.
+export interface Debt {
+  id: string;
+  direction: DebtDirection;
+  counterparty: string;
+  amount: number;
+  issueDate: string; // YYYY-MM-DD
+  dueDate: string; // YYYY-MM-DD
+  description?: string;
+}
+
+export type CategoryType = 'EXPENSE' | 'INCOME';
+
+// Where a category lands in the Laporan Laba Rugi. Income is operating revenue or other income;
+// expenses are cost of goods sold (HPP), operating expenses or non-operating expenses.
+export type AccountingClass = 'OPERATING_REVENUE' | 'OTHER_INCOME' | 'COGS' | 'OPERATING_EXPENSE' | 'NON_OPERATING';
+
+// A category transactions are booked on. Transactions, rules and budgets hold its id, which stays the same
+// when the category is renamed or moved. The name only has to be unique among its siblings.
+export interface CategoryRecord {
+  id: string;
+  name: string;
+  type: CategoryType;
+  parentId?: string; // Category of the same type this one sits under, missing for a top-level category
+  color?: string; // Hex color for charts, one derived from the id when missing
+  icon?: string; // Key in CATEGORY_ICONS
+  accountingClass?: AccountingClass; // Missing means the parent's, or the default for the type
+}
+
+// Monthly spending limit for an expense category. A limit stays in effect for later months
+// until another entry for the same category overrides it.
+export interface Budget {
+  id: string;
+  month: string; // YYYY-MM, first month this limit applies to
+  categoryId: string;
+  amount: number;
+  rollover: boolean; // Carry the unspent part of each month into the next one
+}
+
+// Auto-categorization rule. Every filled condition must match; rules are evaluated in list order
+// (index 0 = highest priority) and the first match wins.
+export interface CategoryRule {
+  id: string;
+  name: string;
+  conditions: {
+    merchantContains?: string; // Case-insensitive substring
+    descriptionContains?: string;
+    minAmount?: number;
+    maxAmount?: number;
+    type?: TransactionType.INCOME | TransactionType.EXPENSE;
+    accountId?: string;
+  };
+  categoryId: string;
+  setAccountId?: string; // Optionally move the transaction to this account
+  active: boolean;
 }
 
 export interface InvoiceItem {
@@ -50,6 +152,120 @@ export interface Invoice {
   status: 'Draft' | 'Sent' | 'Paid';
 }
 
+// A deleted record waiting in the trash. It is out of every list and total until restored.
+export type TrashedRecord =
+  | { kind: 'TRANSACTION'; record: Transaction }
+  | { kind: 'INVOICE'; record: Invoice };
+
+export type TrashItem = TrashedRecord & {
+  id: string;
+  deletedAt: string; // ISO timestamp, purged automatically after the retention period
+  deletedBy: string;
+};
+
+export interface BusinessProfile {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  bankInfo: string;
+  logoUrl?: string;
+}
+
+// How many cloud snapshots survive pruning: the newest one per day, per week and per month,
+// counted back from the latest snapshot. The very latest snapshot is always kept.
+export interface RetentionPolicy {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export type CloudProviderId = 'GDRIVE' | 'WEBDAV' | 'S3';
+
+// e.g. Nextcloud: https://cloud.example.com/remote.php/dav/files/<user>/
+export interface WebDavConfig {
+  url: string; // Folder the app may write into; a letsfinance/ folder is created inside
+  username: string;
+  password: string; // Preferably an app password
+}
+
+// Any S3-compatible storage (AWS, MinIO, Wasabi...), addressed path-style
+export interface S3Config {
+  endpoint: string; // e.g. https://minio.example.com
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix: string; // Folder inside the bucket, may be empty
+}
+
+// Sync bookkeeping for one record, keyed by `${entity}:${id}` in SyncState.records
+export interface RecordSyncMeta {
+  hash: string; // Content hash of the local version, 'DELETED' for a tombstone
+  updatedAt: string; // ISO, when this device last saw the record change
+  syncedHash?: string; // Version both sides agreed on at the last sync, the base for three-way merges
+  firstHash?: string; // Version this device first saw, to tell untouched seed data from local edits
+}
+
+export interface SyncState {
+  deviceId: string;
+  records: Record<string, RecordSyncMeta>;
+  lastSyncedAt?: string;
+}
+
+// The books as a whole: what gets stored, backed up and migrated between schema versions
+export interface AppData {
+  transactions: Transaction[];
+  invoices: Invoice[];
+  accounts: Account[];
+  categories: CategoryRecord[];
+  recurring: RecurringTransaction[];
+  categoryRules: CategoryRule[];
+  budgets: Budget[];
+  debts: Debt[];
+}
+
+// A separate set of books (a business, the household...). Each one has its own database.
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  cloudFolder: string; // Where its backups and sync file live in the cloud, '' for the original location
+}
+
+export type UserRole = 'OWNER' | 'ADMIN' | 'CASHIER';
+
+// A local profile for someone using this device. The PIN itself is never stored.
+export interface UserProfile {
+  id: string;
+  name: string;
+  role: UserRole;
+  pinHash: string; // Base64 PBKDF2-SHA-256 of the PIN with pinSalt
+  pinSalt: string; // Base64, random per profile
+  createdAt: string;
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'CLEAR_ALL' | 'IMPORT' | 'RESTORE' | 'PURGE' | 'RESET';
+
+export type AuditEntity = 'TRANSACTION' | 'ACCOUNT' | 'CATEGORY' | 'INVOICE' | 'RECURRING' | 'CATEGORY_RULE' | 'BUDGET' | 'DEBT' | 'DATA';
+
+// Where a change came from: typed in, a receipt scan, a file import, a recurring template or another device
+export type AuditSource = 'MANUAL' | 'SCAN' | 'IMPORT' | 'RECURRING' | 'SYNC';
+
+// One line of the append-only audit log. Entries are never edited or removed, not even by a full reset.
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actor: string; // Profile name, or who acted for the app (recurring posts, sync)
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: string; // Missing for bulk actions
+  summary: string;
+  before?: unknown; // Snapshot of the record (or records) before the change
+  after?: unknown;
+  source: AuditSource;
+}
+
 export interface AIAnalysisResult {
   merchant: string;
   date: string;
@@ -58,4 +274,4 @@ export interface AIAnalysisResult {
   items?: string[];
 }
 
-export type ViewState = 'DASHBOARD' | 'TRANSACTIONS' | 'INVOICE' | 'AI_ADVISOR' | 'REPORTS' | 'SETTINGS';
+export type ViewState = 'DASHBOARD' | 'TRANSACTIONS' | 'DEBTS' | 'INVOICE' | 'AI_ADVISOR' | 'REPORTS' | 'SETTINGS';
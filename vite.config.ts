@@ -1,7 +1,36 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const listFiles = (dir: string, prefix = ''): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`) : [`${prefix}${entry.name}`]
+  );
+
+// Writes sw.js (from the template at the project root) after the build, precaching every
+// emitted file. The version changes with the content, so a new build replaces the old cache.
+const serviceWorker = (): Plugin => {
+  let outDir = 'dist';
+  return {
+    name: 'letsfinance-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const files = listFiles(outDir).filter(file => file !== 'sw.js' && !file.endsWith('.map'));
+      const hash = crypto.createHash('sha256');
+      files.forEach(file => hash.update(file).update(fs.readFileSync(path.join(outDir, file))));
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+        .replace('__SW_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('__PRECACHE_URLS__', JSON.stringify(files.map(file => `/${file}`)));
+      fs.writeFileSync(path.join(outDir, 'sw.js'), source);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +38,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)